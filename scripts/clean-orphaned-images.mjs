@@ -0,0 +1,95 @@
+// Removes post images that no post or revision uses: uploads abandoned
+// before their post was saved, and images of posts deleted by someone who
+// could not remove the files. Run it daily (cron, a CI job) with the
+// service role key:
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run clean-images
+//
+// Files younger than a day are left alone, as their post may still be saving.
+
+import { createClient } from "@supabase/supabase-js";
+
+const url = process.env.SUPABASE_URL ?? process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const postImagesBucket = process.env.VITE_POST_IMAGES_BUCKET ?? "post-images";
+
+const GRACE_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 1000;
+// Storage removes at most this many paths per request
+const REMOVE_BATCH_SIZE = 100;
+
+if (!url || !serviceRoleKey) {
+  console.error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required");
+  process.exit(1);
+}
+
+const supabase = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+
+// Public URLs look like <url>/storage/v1/object/public/<bucket>/<path>
+const pathInBucket = (bucket, publicUrl) => {
+  const marker = `/storage/v1/object/public/${bucket}/`;
+  const index = publicUrl.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(publicUrl.slice(index + marker.length));
+};
+
+const fetchAll = async (fetchPage) => {
+  const rows = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...data);
+    if (data.length < PAGE_SIZE) return rows;
+  }
+};
+
+// Folders come back as entries without an id; images are at most one folder deep
+const listImages = async () => {
+  const list = (prefix) => (from) =>
+    supabase.storage.from(postImagesBucket).list(prefix, { limit: PAGE_SIZE, offset: from });
+
+  const files = [];
+  for (const entry of await fetchAll(list(""))) {
+    if (entry.id) {
+      files.push({ path: entry.name, createdAt: entry.created_at });
+      continue;
+    }
+    for (const file of await fetchAll(list(entry.name))) {
+      if (file.id) files.push({ path: `${entry.name}/${file.name}`, createdAt: file.created_at });
+    }
+  }
+  return files;
+};
+
+const fetchUsedPaths = async () => {
+  const rows = (
+    await Promise.all(
+      ["posts", "post_revisions"].map((table) =>
+        fetchAll((from, to) => supabase.from(table).select("image_url,image_urls").order("id").range(from, to))
+      )
+    )
+  ).flat();
+  return new Set(
+    rows
+      .flatMap((row) => [row.image_url, ...(row.image_urls ?? [])])
+      .filter(Boolean)
+      .map((imageUrl) => pathInBucket(postImagesBucket, imageUrl))
+  );
+};
+
+try {
+  const [files, used] = await Promise.all([listImages(), fetchUsedPaths()]);
+  const cutoff = Date.now() - GRACE_MS;
+  const orphans = files
+    .filter((file) => !used.has(file.path) && new Date(file.createdAt).getTime() < cutoff)
+    .map((file) => file.path);
+
+  for (let i = 0; i < orphans.length; i += REMOVE_BATCH_SIZE) {
+    const { error } = await supabase.storage.from(postImagesBucket).remove(orphans.slice(i, i + REMOVE_BATCH_SIZE));
+    if (error) throw new Error(error.message);
+  }
+
+  console.log(`${orphans.length} of ${files.length} post images removed`);
+} catch (e) {
+  console.error(e.message);
+  process.exit(1);
+}
@@ -0,0 +1,25 @@
+// Publishes scheduled posts whose time has come. Run it every minute or so
+// (cron, a CI job) with the service role key:
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run publish-scheduled
+
+import { createClient } from "@supabase/supabase-js";
+
+const url = process.env.SUPABASE_URL ?? process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!url || !serviceRoleKey) {
+  console.error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required");
+  process.exit(1);
+}
+
+const supabase = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+
+const { data: published, error } = await supabase.rpc("publish_scheduled_posts");
+
+if (error) {
+  console.error(error.message);
+  process.exit(1);
+}
+
+console.log(`${published} scheduled posts published`);
@@ -0,0 +1,72 @@
+// Purges accounts whose deletion grace period has passed. Run it on a
+// schedule (cron, a CI job) with the service role key:
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run purge-accounts
+//
+// Uploads are removed through the Storage API, which the database cannot do
+// itself; public.purge_account then deletes the rows and the auth user.
+
+import { createClient } from "@supabase/supabase-js";
+
+const url = process.env.SUPABASE_URL ?? process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const postImagesBucket = process.env.VITE_POST_IMAGES_BUCKET ?? "post-images";
+const avatarsBucket = process.env.VITE_AVATARS_BUCKET ?? "avatars";
+
+if (!url || !serviceRoleKey) {
+  console.error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required");
+  process.exit(1);
+}
+
+const supabase = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+
+// Public URLs look like <url>/storage/v1/object/public/<bucket>/<path>
+const pathInBucket = (bucket, publicUrl) => {
+  const marker = `/storage/v1/object/public/${bucket}/`;
+  const index = publicUrl.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(publicUrl.slice(index + marker.length));
+};
+
+const removeFiles = async (bucket, paths) => {
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from(bucket).remove(paths);
+  if (error) throw new Error(`${bucket}: ${error.message}`);
+};
+
+const purge = async (userId) => {
+  const { data: avatars, error: listError } = await supabase.storage.from(avatarsBucket).list(userId);
+  if (listError) throw new Error(listError.message);
+
+  const { data: imageUrls, error } = await supabase.rpc("purge_account", { p_user_id: userId });
+  if (error) throw new Error(error.message);
+
+  await removeFiles(avatarsBucket, avatars.map((file) => `${userId}/${file.name}`));
+  await removeFiles(
+    postImagesBucket,
+    (imageUrls ?? []).map((imageUrl) => pathInBucket(postImagesBucket, imageUrl)).filter(Boolean)
+  );
+};
+
+const { data: due, error } = await supabase
+  .from("account_deletions")
+  .select("user_id")
+  .lte("purge_after", new Date().toISOString());
+
+if (error) {
+  console.error(error.message);
+  process.exit(1);
+}
+
+let failures = 0;
+for (const { user_id: userId } of due) {
+  try {
+    await purge(userId);
+    console.log(`Purged ${userId}`);
+  } catch (e) {
+    failures++;
+    console.error(`Failed to purge ${userId}: ${e.message}`);
+  }
+}
+
+console.log(`${due.length - failures} of ${due.length} due accounts purged`);
+process.exit(failures > 0 ? 1 : 0);
@@ -4,12 +4,21 @@ import { Home } from "./pages/Home";
 import { Navbar } from "./components/Navbar";
 import { CreatePostPage } from "./pages/CreatePostPage";
 import { PostPage } from "./pages/PostPage";
+import { PostHistoryPage } from "./pages/PostHistoryPage";
 import { CreateCommunityPage } from "./pages/CreateCommunityPage";
 import { CommunitiesPage } from "./pages/CommunitiesPage";
 import { CommunityPage } from "./pages/CommunityPage";
 import { ExplorePage } from "./pages/ExplorePage";
 import { PostDetailsPage } from "./pages/PostDetailsPage";
 import { Sidebar } from "./components/Sidebar";
+import { Notifications } from "./components/Notifications";
+import { SignInPage } from "./pages/SignInPage";
+import { ResetPasswordPage } from "./pages/ResetPasswordPage";
+import { ProfilePage } from "./pages/ProfilePage";
+import { SettingsPage } from "./pages/SettingsPage";
+import { RequireAuth } from "./components/RequireAuth";
+import { AuthRedirect } from "./components/AuthRedirect";
+import { ReauthPrompt } from "./components/ReauthPrompt";
 
 function App() {
   const location = useLocation();
@@ -37,15 +46,20 @@ function App() {
             <div className="relative z-10">
               <Routes>
                 <Route path="/" element={<Home />} />
-                <Route path="/create" element={<CreatePostPage />} />
+                <Route path="/create" element={<RequireAuth><CreatePostPage /></RequireAuth>} />
                 <Route path="/post/:id" element={<PostPage />} />
+                <Route path="/post/:id/history" element={<PostHistoryPage />} />
                 {/* New redesigned Post Details Page (optional route) */}
                 <Route path="/post-details/:id" element={<PostDetailsPage />} />
-                <Route path="/dashboard" element={<Dashboard />} />
+                <Route path="/dashboard" element={<RequireAuth><Dashboard /></RequireAuth>} />
                 <Route path="/explore" element={<ExplorePage />} />
-                <Route path="/community/create" element={<CreateCommunityPage />} />
+                <Route path="/community/create" element={<RequireAuth><CreateCommunityPage /></RequireAuth>} />
                 <Route path="/communities" element={<CommunitiesPage />} />
                 <Route path="/community/:id" element={<CommunityPage />} />
+                <Route path="/u/:username" element={<ProfilePage />} />
+                <Route path="/settings" element={<RequireAuth><SettingsPage /></RequireAuth>} />
+                <Route path="/signin" element={<SignInPage />} />
+                <Route path="/reset-password" element={<ResetPasswordPage />} />
               </Routes>
             </div>
           </main>
@@ -122,6 +136,10 @@ function App() {
           )}
         </div>
       </div>
+
+      <Notifications />
+      <AuthRedirect />
+      <ReauthPrompt />
     </div>
   );
 }
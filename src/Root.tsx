@@ -0,0 +1,30 @@
+import { BrowserRouter as Router } from 'react-router-dom'
+import { QueryClientProvider } from '@tanstack/react-query'
+import { PersistQueryClientProvider } from '@tanstack/react-query-persist-client'
+import App from './App.tsx'
+import { config } from './config.ts'
+import { AuthProvider } from './context/AuthContext.tsx'
+import { CACHE_MAX_AGE, queryClient, queryPersister, resumeQueuedMutations } from './queryClient.ts'
+
+const AppTree = () => (
+  <AuthProvider>
+    <Router>
+      <App />
+    </Router>
+  </AuthProvider>
+)
+
+export const Root = () =>
+  config.features.offlineCache ? (
+    <PersistQueryClientProvider
+      client={queryClient}
+      persistOptions={{ persister: queryPersister, maxAge: CACHE_MAX_AGE }}
+      onSuccess={resumeQueuedMutations}
+    >
+      <AppTree />
+    </PersistQueryClientProvider>
+  ) : (
+    <QueryClientProvider client={queryClient}>
+      <AppTree />
+    </QueryClientProvider>
+  )
@@ -0,0 +1,51 @@
+import { backend } from "../backend";
+import { postImages } from "../images";
+import { fetchCommentsByUser } from "./comments";
+import { fetchCommunitiesByAuthor } from "./communities";
+import { fetchFollowing } from "./follows";
+import { fetchPostRevisions, fetchPosts, fetchScheduledPosts } from "./posts";
+import { fetchProfileById } from "./profiles";
+import { fetchVotesByUser } from "./votes";
+import type { AccountDeletion, AccountExport } from "./types";
+
+export const fetchAccountDeletion = (userId: string): Promise<AccountDeletion | null> =>
+  backend.account.deletion(userId);
+
+export const requestAccountDeletion = (userId: string): Promise<AccountDeletion> =>
+  backend.account.requestDeletion(userId);
+
+export const cancelAccountDeletion = (userId: string) => backend.account.cancelDeletion(userId);
+
+export const exportAccountData = async (userId: string): Promise<AccountExport> => {
+  const [profile, published, scheduled, comments, votes, communities, following, drafts] = await Promise.all([
+    fetchProfileById(userId),
+    fetchPosts({ author: userId }),
+    fetchScheduledPosts(userId),
+    fetchCommentsByUser(userId),
+    fetchVotesByUser(userId),
+    fetchCommunitiesByAuthor(userId),
+    fetchFollowing(userId),
+    // Straight from the account; drafts kept only on this device are not account data
+    backend.drafts.list(userId),
+  ]);
+
+  const posts = [...published, ...scheduled];
+  const revisions = (await Promise.all(posts.map((p) => fetchPostRevisions(p.id)))).flat();
+
+  const files = [
+    ...new Set([profile?.avatar_url, ...posts.flatMap(postImages), ...revisions.flatMap(postImages)]),
+  ].filter((url): url is string => !!url);
+
+  return {
+    exported_at: new Date().toISOString(),
+    profile,
+    posts,
+    revisions,
+    comments,
+    votes,
+    communities,
+    following,
+    drafts,
+    files,
+  };
+};
@@ -0,0 +1,11 @@
+import { backend } from "../backend";
+import type { Comment, CommentInput, RowChange } from "./types";
+
+export const fetchComments = (postId: number): Promise<Comment[]> => backend.comments.list(postId);
+
+export const fetchCommentsByUser = (userId: string): Promise<Comment[]> => backend.comments.listByUser(userId);
+
+export const createComment = (comment: CommentInput) => backend.comments.create(comment);
+
+export const subscribeToComments = (postId: number, callback: (change: RowChange<Comment>) => void) =>
+  backend.realtime.subscribe<Comment>("comments", postId, callback);
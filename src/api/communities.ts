@@ -0,0 +1,30 @@
+import { backend } from "../backend";
+import type { Community, CommunityInput, CommunityUpdate, CommunityWithPostCount } from "./types";
+
+export const fetchCommunities = (): Promise<Community[]> => backend.communities.list({});
+
+export const fetchCommunityById = (id: number): Promise<Community> => backend.communities.get(id);
+
+export const fetchCommunitiesByAuthor = (userId: string): Promise<Community[]> =>
+  backend.communities.list({ author: userId });
+
+export const fetchCommunitiesWithPostCounts = async (
+  userId?: string
+): Promise<CommunityWithPostCount[]> => {
+  const [communities, counts] = await Promise.all([
+    backend.communities.list({ author: userId }),
+    backend.communities.postCounts(),
+  ]);
+  return communities.map((c) => ({ ...c, post_count: counts.get(c.id) || 0 }));
+};
+
+export const createCommunity = (community: CommunityInput) => backend.communities.create(community);
+
+export const updateCommunity = (id: number, changes: CommunityUpdate) => backend.communities.update(id, changes);
+
+export const deleteCommunities = async (ids: number[]) => {
+  if (ids.length === 0) return;
+  await backend.communities.removeMany(ids);
+};
+
+export const searchCommunities = (term: string, limit = 5) => backend.communities.search(term, limit);
@@ -0,0 +1,89 @@
+import { get, set } from "idb-keyval";
+import { backend } from "../backend";
+import type { Draft, PostDraft } from "./types";
+
+/**
+ * Drafts are always kept in IndexedDB on this device, which also holds the
+ * selected images. With sync turned on they are copied to the user's account
+ * as well, so they can be resumed on another device (without the images).
+ */
+
+const LOCAL_DRAFTS_KEY = "community:drafts";
+const SYNC_KEY = "community:drafts-sync";
+
+interface LocalDraft extends PostDraft {
+  user_id: string;
+  images?: File[];
+  /** Saved before drafts could hold several images. */
+  image?: File | null;
+}
+
+const localImages = (draft: LocalDraft) => draft.images ?? (draft.image ? [draft.image] : []);
+
+const toPostDraft = ({ id, title, content, community_id, is_announcement, updated_at }: PostDraft): PostDraft => ({
+  id,
+  title,
+  content,
+  community_id,
+  is_announcement,
+  updated_at,
+});
+
+const readLocalDrafts = async () => (await get<LocalDraft[]>(LOCAL_DRAFTS_KEY)) ?? [];
+
+const updateLocalDrafts = async (fn: (drafts: LocalDraft[]) => LocalDraft[]) =>
+  set(LOCAL_DRAFTS_KEY, fn(await readLocalDrafts()));
+
+export const isDraftSyncEnabled = () => localStorage.getItem(SYNC_KEY) === "true";
+
+export const setDraftSyncEnabled = (enabled: boolean) => {
+  if (enabled) localStorage.setItem(SYNC_KEY, "true");
+  else localStorage.removeItem(SYNC_KEY);
+};
+
+/** Most recently saved first. The newer of the local and synced copy wins. */
+export const fetchDrafts = async (userId: string): Promise<Draft[]> => {
+  const [local, synced] = await Promise.all([
+    readLocalDrafts(),
+    isDraftSyncEnabled() ? backend.drafts.list(userId) : Promise.resolve([]),
+  ]);
+
+  const drafts = new Map<string, Draft>();
+  local
+    .filter((d) => d.user_id === userId)
+    .forEach((d) => drafts.set(d.id, { ...toPostDraft(d), images: localImages(d), synced: false }));
+  synced.forEach((d) => {
+    const own = drafts.get(d.id);
+    const newest = own && own.updated_at > d.updated_at ? own : d;
+    drafts.set(d.id, { ...toPostDraft(newest), images: own?.images ?? [], synced: true });
+  });
+
+  return [...drafts.values()].sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+};
+
+/**
+ * Saves on this device, then syncs if enabled. A failed sync (e.g. offline)
+ * is not an error: the draft comes back with `synced: false`.
+ */
+export const saveDraft = async (userId: string, draft: Omit<Draft, "updated_at" | "synced">): Promise<Draft> => {
+  const saved: LocalDraft = {
+    ...toPostDraft({ ...draft, updated_at: new Date().toISOString() }),
+    user_id: userId,
+    images: draft.images,
+  };
+  await updateLocalDrafts((drafts) => [...drafts.filter((d) => d.id !== saved.id), saved]);
+
+  let synced = false;
+  if (isDraftSyncEnabled()) {
+    synced = await backend.drafts
+      .save(userId, toPostDraft(saved))
+      .then(() => true)
+      .catch(() => false);
+  }
+  return { ...toPostDraft(saved), images: draft.images, synced };
+};
+
+export const deleteDraft = async (userId: string, id: string) => {
+  await updateLocalDrafts((drafts) => drafts.filter((d) => !(d.user_id === userId && d.id === id)));
+  if (isDraftSyncEnabled()) await backend.drafts.remove(userId, id);
+};
@@ -0,0 +1,11 @@
+import { backend } from "../backend";
+import type { FollowCounts } from "./types";
+
+export const fetchFollowing = (userId: string): Promise<string[]> => backend.follows.following(userId);
+
+export const fetchFollowCounts = (userId: string): Promise<FollowCounts> => backend.follows.counts(userId);
+
+export const followUser = (followerId: string, followeeId: string) => backend.follows.follow(followerId, followeeId);
+
+export const unfollowUser = (followerId: string, followeeId: string) =>
+  backend.follows.unfollow(followerId, followeeId);
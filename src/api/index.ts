@@ -0,0 +1,11 @@
+export * from "./types";
+export * from "./posts";
+export * from "./drafts";
+export * from "./communities";
+export * from "./comments";
+export * from "./votes";
+export * from "./profiles";
+export * from "./roles";
+export * from "./account";
+export * from "./follows";
+export * from "./restrictions";
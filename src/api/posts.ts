@@ -0,0 +1,151 @@
+import { backend } from "../backend";
+import { config } from "../config";
+import { assertValidImage, imageExtension, postImages } from "../images";
+import type {
+  FeedPage,
+  FeedQuery,
+  Post,
+  PostEdit,
+  PostFilter,
+  PostInput,
+  PostMetric,
+  PostRevision,
+  PostUpdate,
+} from "./types";
+
+export const fetchPosts = async (filter: PostFilter = {}): Promise<Post[]> => {
+  if (filter.communityIds && filter.communityIds.length === 0) return [];
+  return backend.posts.list(filter);
+};
+
+export const fetchFeedPage = (query: FeedQuery): Promise<FeedPage> => backend.posts.feed(query);
+
+export const fetchTopPosts = (metric: PostMetric, limit: number): Promise<Post[]> => backend.posts.top(metric, limit);
+
+export const fetchPostById = (id: number): Promise<Post> => backend.posts.get(id);
+
+export const countPosts = async (filter: PostFilter): Promise<number> => {
+  if (filter.communityIds && filter.communityIds.length === 0) return 0;
+  return backend.posts.count(filter);
+};
+
+// Post images live under the uploader's id so storage policies can scope writes to it.
+// The name is random; nothing the user typed or named ends up in the path.
+export const uploadPostImage = async (
+  userId: string,
+  imageFile: File,
+  onProgress?: (fraction: number) => void
+): Promise<string> => {
+  assertValidImage(imageFile);
+  const filePath = `${userId}/${crypto.randomUUID()}.${imageExtension(imageFile)}`;
+  await backend.storage.upload(config.storage.postImagesBucket, filePath, imageFile, onProgress);
+  return backend.storage.getPublicUrl(config.storage.postImagesBucket, filePath);
+};
+
+/**
+ * Best effort: moderators may not remove other users' files, and anything
+ * left behind is removed by the orphaned image cleanup job.
+ */
+const removePostImages = async (urls: string[]) => {
+  const bucket = config.storage.postImagesBucket;
+  const paths = [...new Set(urls)]
+    .map((url) => backend.storage.pathFromPublicUrl(bucket, url))
+    .filter((path): path is string => !!path);
+  if (paths.length === 0) return;
+  await backend.storage.remove(bucket, paths).catch(() => undefined);
+};
+
+/** Reports the upload progress of the image at `index`, from 0 to 1. */
+export type UploadProgress = (index: number, fraction: number) => void;
+
+/**
+ * Uploads the files in `images` side by side, then hands every image as a
+ * URL, in the same order, to `save`. If an upload or `save` fails, the files
+ * uploaded so far are removed again.
+ */
+const withUploadedImages = async (
+  userId: string,
+  images: (string | File)[],
+  onProgress: UploadProgress | undefined,
+  save: (imageUrls: string[]) => Promise<void>
+) => {
+  const results = await Promise.allSettled(
+    images.map((image, index) =>
+      typeof image === "string" ? image : uploadPostImage(userId, image, (fraction) => onProgress?.(index, fraction))
+    )
+  );
+  const uploaded = results.flatMap((result, index) =>
+    result.status === "fulfilled" && typeof images[index] !== "string" ? [result.value] : []
+  );
+
+  const failed = results.find((result) => result.status === "rejected");
+  if (failed) {
+    await removePostImages(uploaded);
+    throw failed.reason;
+  }
+
+  const imageUrls = results.map((result) => (result as PromiseFulfilledResult<string>).value);
+  try {
+    await save(imageUrls);
+  } catch (error) {
+    await removePostImages(uploaded);
+    throw error;
+  }
+};
+
+export const createPost = (post: PostInput, imageFiles: File[], onProgress?: UploadProgress) =>
+  withUploadedImages(post.author, imageFiles, onProgress, (imageUrls) =>
+    backend.posts.create({ ...post, image_urls: imageUrls })
+  );
+
+export const updatePost = (id: number, changes: PostUpdate) => backend.posts.update(id, changes);
+
+/**
+ * `images` is the new gallery: URLs of images the post keeps, and files to
+ * upload in between. Images taken out stay in storage for the revision history.
+ */
+export const editPost = (
+  id: number,
+  userId: string,
+  changes: Omit<PostEdit, "image_urls">,
+  images: (string | File)[],
+  onProgress?: UploadProgress
+) =>
+  withUploadedImages(userId, images, onProgress, (imageUrls) =>
+    backend.posts.edit(id, { ...changes, image_urls: imageUrls })
+  );
+
+/** The author's posts that are waiting to go out, soonest first. */
+export const fetchScheduledPosts = async (author: string): Promise<Post[]> => {
+  const posts = await backend.posts.list({ author, scheduled: true });
+  return posts.sort((a, b) => (a.scheduled_for ?? "").localeCompare(b.scheduled_for ?? ""));
+};
+
+/** Moves a scheduled post to `scheduledFor`, or publishes it now when that is null. */
+export const reschedulePost = (id: number, scheduledFor: string | null) => backend.posts.reschedule(id, scheduledFor);
+
+export const fetchPostRevisions = (postId: number): Promise<PostRevision[]> => backend.posts.revisions(postId);
+
+/** Deletes the post, then every image it or an earlier version of it showed. */
+export const deletePost = async (id: number) => {
+  // Read first: the revisions are deleted along with the post
+  const [post, revisions] = await Promise.all([backend.posts.get(id), backend.posts.revisions(id)]);
+  await backend.posts.remove(id);
+  await removePostImages([post, ...revisions].flatMap(postImages));
+};
+
+/** Deletes every matching post, published or scheduled, then the images they showed. */
+export const deletePosts = async (filter: PostFilter) => {
+  if (filter.communityIds && filter.communityIds.length === 0) return;
+  // Read first: the revisions are deleted along with the posts
+  const [published, scheduled] = await Promise.all([
+    backend.posts.list(filter),
+    backend.posts.list({ ...filter, scheduled: true }),
+  ]);
+  const posts = [...published, ...scheduled];
+  const revisions = (await Promise.all(posts.map((post) => backend.posts.revisions(post.id)))).flat();
+  await backend.posts.removeMany(filter);
+  await removePostImages([...posts, ...revisions].flatMap(postImages));
+};
+
+export const searchPosts = (term: string, limit = 5) => backend.posts.search(term, limit);
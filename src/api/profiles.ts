@@ -0,0 +1,32 @@
+import { backend } from "../backend";
+import { config } from "../config";
+import { assertValidImage, imageExtension } from "../images";
+import type { AuthorProfile, Profile, ProfileUpdate } from "./types";
+
+export const fetchProfileById = (id: string): Promise<Profile | null> => backend.profiles.get(id);
+
+export const fetchProfileByUsername = (username: string): Promise<Profile | null> =>
+  backend.profiles.getByUsername(username);
+
+// Avatars live under the owner's id so storage policies can scope writes to it.
+// Like post images, they are named at random rather than after the user's file.
+export const uploadAvatar = async (userId: string, file: File): Promise<string> => {
+  assertValidImage(file);
+  const filePath = `${userId}/${crypto.randomUUID()}.${imageExtension(file)}`;
+  await backend.storage.upload(config.storage.avatarsBucket, filePath, file);
+  return backend.storage.getPublicUrl(config.storage.avatarsBucket, filePath);
+};
+
+export const updateProfile = async (
+  userId: string,
+  changes: ProfileUpdate,
+  avatarFile: File | null = null
+): Promise<Profile> => {
+  const avatarUrl = avatarFile ? await uploadAvatar(userId, avatarFile) : undefined;
+  return backend.profiles.update(userId, avatarUrl ? { ...changes, avatar_url: avatarUrl } : changes);
+};
+
+/** Display name with the username as fallback. */
+export const authorName = (profile: AuthorProfile) => profile.display_name || profile.username;
+
+export const profilePath = (username: string) => `/u/${encodeURIComponent(username)}`;
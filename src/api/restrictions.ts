@@ -0,0 +1,9 @@
+import { backend } from "../backend";
+import type { RestrictionKind, UserRestriction } from "./types";
+
+export const fetchRestrictions = (userId: string): Promise<UserRestriction[]> => backend.restrictions.list(userId);
+
+export const restrictUser = (userId: string, targetId: string, kind: RestrictionKind) =>
+  backend.restrictions.set(userId, targetId, kind);
+
+export const unrestrictUser = (userId: string, targetId: string) => backend.restrictions.remove(userId, targetId);
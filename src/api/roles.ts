@@ -0,0 +1,19 @@
+import { backend } from "../backend";
+import type { CommunityBan, CommunityModerator, UserRoles } from "./types";
+
+export const fetchUserRoles = (userId: string): Promise<UserRoles> => backend.roles.forUser(userId);
+
+export const fetchModerators = (communityId: number): Promise<CommunityModerator[]> =>
+  backend.roles.moderators(communityId);
+
+export const addModerator = (communityId: number, userId: string) => backend.roles.addModerator(communityId, userId);
+
+export const removeModerator = (communityId: number, userId: string) =>
+  backend.roles.removeModerator(communityId, userId);
+
+export const fetchBans = (communityId: number): Promise<CommunityBan[]> => backend.roles.bans(communityId);
+
+export const banUser = (communityId: number, userId: string, bannedBy: string, reason: string | null) =>
+  backend.roles.ban(communityId, userId, bannedBy, reason);
+
+export const unbanUser = (communityId: number, userId: string) => backend.roles.unban(communityId, userId);
@@ -0,0 +1,275 @@
+export interface Profile {
+  /** Same as the auth user id stored in `posts.author` and `comments.user_id`. */
+  id: string;
+  username: string;
+  display_name: string | null;
+  bio: string | null;
+  avatar_url: string | null;
+  created_at: string;
+}
+
+export type ProfileUpdate = Partial<Pick<Profile, "display_name" | "bio" | "avatar_url">>;
+
+/** The part of a profile shown next to authored content. */
+export type AuthorProfile = Pick<Profile, "id" | "username" | "display_name" | "avatar_url">;
+
+export interface Post {
+  id: number;
+  title: string;
+  content: string;
+  created_at: string;
+  /** The first of `image_urls`, for places that show a single image. */
+  image_url: string | null;
+  /**
+   * Every attached image in gallery order. Missing on posts from before
+   * galleries, which have at most `image_url`.
+   */
+  image_urls?: string[];
+  /** Author avatar copied in by older clients; render `author_profile` instead. */
+  avatar_url?: string | null;
+  like_count?: number;
+  comment_count?: number;
+  /** Pinned to the top of its community; only moderators may set it. */
+  is_announcement?: boolean;
+  /** Locked posts accept no new comments except from moderators. */
+  is_locked?: boolean;
+  /** Set when the author last changed the title, content or image. */
+  edited_at?: string | null;
+  /**
+   * When a scheduled post goes out; null once it is published. Until then
+   * only its author can see it.
+   */
+  scheduled_for?: string | null;
+  author?: string;
+  community_id?: number | null;
+  communities?: { name: string } | null;
+  author_profile?: AuthorProfile | null;
+}
+
+/** Fields moderators may change on an existing post. */
+export type PostUpdate = Partial<Pick<Post, "is_announcement" | "is_locked">>;
+
+/** Fields the author may change on an existing post. */
+export type PostEdit = Pick<Post, "title" | "content"> & { image_urls: string[] };
+
+/** A saved version of a post; the newest revision is the post as it is now. */
+export interface PostRevision {
+  id: number;
+  post_id: number;
+  title: string;
+  content: string;
+  image_url: string | null;
+  image_urls?: string[];
+  created_at: string;
+}
+
+export interface PostInput {
+  title: string;
+  content: string;
+  community_id?: number | null;
+  author: string;
+  is_announcement?: boolean;
+  /** Publish later instead of straight away. */
+  scheduled_for?: string | null;
+}
+
+export interface PostFilter {
+  communityId?: number;
+  communityIds?: number[];
+  author?: string;
+  /** Match scheduled posts instead of published ones. */
+  scheduled?: boolean;
+}
+
+/** What trending posts are ranked by. */
+export type PostMetric = "likes" | "comments";
+
+export interface FeedCursor {
+  created_at: string;
+  id: number;
+}
+
+export interface FeedQuery {
+  communityId?: number;
+  /** Only posts by people the signed-in user follows. */
+  following?: boolean;
+  /** Only pinned announcements when true, only the other posts when false. */
+  announcements?: boolean;
+  sortOrder: "newest" | "oldest";
+  cursor: FeedCursor | null;
+  limit: number;
+}
+
+export interface FeedPage {
+  posts: Post[];
+  /** Cursor for the following page, or null when the feed is exhausted. */
+  nextCursor: FeedCursor | null;
+  /** Number of posts in the whole feed, counted for the first page only. */
+  total: number | null;
+}
+
+export interface Community {
+  id: number;
+  name: string;
+  description: string;
+  created_at: string;
+  author: string;
+}
+
+export type CommunityUpdate = Pick<Community, "name" | "description">;
+
+export interface CommunityWithPostCount extends Community {
+  post_count: number;
+}
+
+export interface CommunityInput {
+  name: string;
+  description: string;
+  author: string;
+}
+
+/** Owners created the community; moderators were appointed by an owner or a site admin. */
+export type CommunityRole = "owner" | "moderator";
+
+export interface CommunityModerator {
+  community_id: number;
+  user_id: string;
+  role: CommunityRole;
+  created_at: string;
+  profile?: AuthorProfile | null;
+}
+
+export interface CommunityBan {
+  community_id: number;
+  user_id: string;
+  reason: string | null;
+  /** Null once the moderator who issued the ban has deleted their account. */
+  banned_by: string | null;
+  created_at: string;
+  profile?: AuthorProfile | null;
+}
+
+/** Everything the permission checks need to know about a signed-in user. */
+export interface UserRoles {
+  userId: string;
+  isSiteAdmin: boolean;
+  /** Role per community id; absent means plain member. */
+  communityRoles: Record<number, CommunityRole>;
+  bannedFrom: number[];
+}
+
+export interface Comment {
+  id: number;
+  post_id: number;
+  parent_comment_id: number | null;
+  content: string;
+  user_id: string;
+  created_at: string;
+  author: string;
+  author_profile?: AuthorProfile | null;
+}
+
+export interface CommentInput {
+  post_id: number;
+  content: string;
+  parent_comment_id: number | null;
+  user_id: string;
+  author: string;
+}
+
+export interface Vote {
+  id: number;
+  post_id: number;
+  user_id: string;
+  vote: number;
+}
+
+export interface VoteSummary {
+  post_id: number;
+  likes: number;
+  dislikes: number;
+  /** likes - dislikes */
+  score: number;
+  /** The signed-in user's vote, or null when they have not voted. */
+  user_vote: number | null;
+}
+
+export interface FollowCounts {
+  followers: number;
+  following: number;
+}
+
+/**
+ * Muting hides someone's posts and comments from you. Blocking also stops
+ * them from commenting on your posts or replying to your comments.
+ */
+export type RestrictionKind = "mute" | "block";
+
+export interface UserRestriction {
+  target_id: string;
+  kind: RestrictionKind;
+  created_at: string;
+  profile?: AuthorProfile | null;
+}
+
+/** An unpublished post from CreatePost, saved while the user types. */
+export interface PostDraft {
+  id: string;
+  title: string;
+  content: string;
+  community_id: number | null;
+  is_announcement: boolean;
+  updated_at: string;
+}
+
+/**
+ * A draft as the app sees it: the copy kept on this device, merged with the
+ * one synced to the user's account. Images are never synced.
+ */
+export interface Draft extends PostDraft {
+  images: File[];
+  /** A copy is saved to the user's account. */
+  synced: boolean;
+}
+
+/** A pending account deletion; the account is purged once `purge_after` has passed. */
+export interface AccountDeletion {
+  user_id: string;
+  requested_at: string;
+  purge_after: string;
+}
+
+/** Everything a user created, as downloaded from the dashboard. */
+export interface AccountExport {
+  exported_at: string;
+  profile: Profile | null;
+  /** Published and scheduled posts. */
+  posts: Post[];
+  /** Every saved version of those posts, oldest first per post. */
+  revisions: PostRevision[];
+  comments: Comment[];
+  votes: Vote[];
+  communities: Community[];
+  /** Ids of the users they follow. */
+  following: string[];
+  /** Drafts synced to the account. */
+  drafts: PostDraft[];
+  /** Public URLs of the user's uploaded images. */
+  files: string[];
+}
+
+export interface SearchResult {
+  id: number;
+  type: "post" | "community";
+  label: string;
+}
+
+export type RealtimeTable = "votes" | "comments";
+
+export interface RowChange<T> {
+  type: "INSERT" | "UPDATE" | "DELETE";
+  /** Row after the change; null for deletes. */
+  new: T | null;
+  /** Row before the change; null for inserts. */
+  old: T | null;
+}
@@ -0,0 +1,31 @@
+import { backend } from "../backend";
+import type { RowChange, Vote, VoteSummary } from "./types";
+
+export const fetchVoteSummaries = async (postIds: number[], userId: string | null): Promise<VoteSummary[]> => {
+  if (postIds.length === 0) return [];
+  return backend.votes.summaries(postIds, userId);
+};
+
+export const fetchVoteSummary = async (postId: number, userId: string | null): Promise<VoteSummary> => {
+  const [summary] = await fetchVoteSummaries([postId], userId);
+  return summary;
+};
+
+export const fetchVotesByUser = (userId: string): Promise<Vote[]> => backend.votes.listByUser(userId);
+
+export const castVote = (voteValue: number, postId: number, userId: string) =>
+  backend.votes.cast(voteValue, postId, userId);
+
+/** Moves one voter from `previousVote` to `nextVote` (null meaning no vote). */
+export const adjustVoteSummary = (
+  summary: VoteSummary,
+  previousVote: number | null,
+  nextVote: number | null
+): VoteSummary => {
+  const likes = summary.likes - (previousVote === 1 ? 1 : 0) + (nextVote === 1 ? 1 : 0);
+  const dislikes = summary.dislikes - (previousVote === -1 ? 1 : 0) + (nextVote === -1 ? 1 : 0);
+  return { ...summary, likes, dislikes, score: likes - dislikes };
+};
+
+export const subscribeToVotes = (postId: number, callback: (change: RowChange<Vote>) => void) =>
+  backend.realtime.subscribe<Vote>("votes", postId, callback);
@@ -0,0 +1,54 @@
+/**
+ * Session events shared between the auth context, the query client and the
+ * other open tabs of the app.
+ */
+
+type AuthBroadcast = "signed-in" | "signed-out";
+
+const channel = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel("community:auth") : null;
+
+/** Tells the other tabs to re-read the session. The sending tab does not receive it. */
+export const broadcastAuth = (message: AuthBroadcast) => {
+  channel?.postMessage(message);
+};
+
+export const subscribeAuthBroadcast = (listener: (message: AuthBroadcast) => void) => {
+  const handler = (e: MessageEvent<AuthBroadcast>) => listener(e.data);
+  channel?.addEventListener("message", handler);
+  return () => channel?.removeEventListener("message", handler);
+};
+
+// Written before a deliberate sign-out so every tab can tell it apart from a
+// session that lapsed; localStorage is visible to the other tabs at once.
+const SIGNED_OUT_KEY = "community:signed-out-at";
+const SIGNED_OUT_WINDOW_MS = 60 * 1000;
+
+export const markSignedOut = () => {
+  localStorage.setItem(SIGNED_OUT_KEY, String(Date.now()));
+};
+
+export const clearSignedOutMark = () => {
+  localStorage.removeItem(SIGNED_OUT_KEY);
+};
+
+export const wasSignedOutDeliberately = () =>
+  Date.now() - Number(localStorage.getItem(SIGNED_OUT_KEY) ?? 0) < SIGNED_OUT_WINDOW_MS;
+
+// PostgREST and supabase-js messages for a missing, expired or revoked session
+const AUTH_ERROR = /jwt expired|invalid jwt|jwt.*malformed|auth session missing|invalid refresh token|refresh token not found|not authenticated/i;
+
+export const isAuthError = (error: Error) => AUTH_ERROR.test(error.message);
+
+const expiryListeners = new Set<() => void>();
+
+/** Called when a request was rejected because the session is no longer valid. */
+export const reportSessionExpired = () => {
+  expiryListeners.forEach((listener) => listener());
+};
+
+export const subscribeSessionExpired = (listener: () => void) => {
+  expiryListeners.add(listener);
+  return () => {
+    expiryListeners.delete(listener);
+  };
+};
@@ -0,0 +1,35 @@
+// Where to send the user once a sign-in completes. Kept in localStorage
+// because OAuth and magic links leave the app and may come back in a new tab.
+const RETURN_TO_KEY = "community:return-to";
+
+// A sign-in abandoned halfway should not hijack a later visit
+const RETURN_TO_TTL_MS = 30 * 60 * 1000;
+
+interface ReturnTo {
+  path: string;
+  savedAt: number;
+}
+
+export const rememberReturnTo = (path: string) => {
+  const entry: ReturnTo = { path, savedAt: Date.now() };
+  localStorage.setItem(RETURN_TO_KEY, JSON.stringify(entry));
+};
+
+export const forgetReturnTo = () => {
+  localStorage.removeItem(RETURN_TO_KEY);
+};
+
+/** Reads and clears the remembered path. */
+export const takeReturnTo = (): string | null => {
+  const raw = localStorage.getItem(RETURN_TO_KEY);
+  forgetReturnTo();
+  if (!raw) return null;
+  try {
+    const { path, savedAt } = JSON.parse(raw) as ReturnTo;
+    if (Date.now() - savedAt > RETURN_TO_TTL_MS) return null;
+    // Only ever follow in-app paths
+    return path.startsWith("/") && !path.startsWith("//") ? path : null;
+  } catch {
+    return null;
+  }
+};
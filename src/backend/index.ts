@@ -0,0 +1,22 @@
+import { config } from "../config";
+import { createSupabaseClient } from "../supabase-client";
+import { createMemoryBackend } from "./memory";
+import { createSupabaseBackend } from "./supabase";
+import type { Backend, RealtimeBackend } from "./types";
+
+export type { AuthEvent, Backend, OAuthProvider } from "./types";
+
+// With the realtime feature off, subscriptions are accepted but never fire.
+const disabledRealtime: RealtimeBackend = {
+  subscribe: () => () => {},
+};
+
+// VITE_BACKEND=memory runs the app against localStorage instead of Supabase.
+const selected: Backend =
+  config.backend === "memory"
+    ? createMemoryBackend()
+    : createSupabaseBackend(createSupabaseClient());
+
+export const backend: Backend = config.features.realtime
+  ? selected
+  : { ...selected, realtime: disabledRealtime };
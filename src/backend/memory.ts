@@ -0,0 +1,986 @@
+import type { Session, User } from "@supabase/supabase-js";
+import type {
+  AccountDeletion,
+  AuthorProfile,
+  Comment,
+  Community,
+  CommunityBan,
+  CommunityModerator,
+  CommunityRole,
+  FeedCursor,
+  Post,
+  PostDraft,
+  PostFilter,
+  PostRevision,
+  Profile,
+  RealtimeTable,
+  RowChange,
+  UserRestriction,
+  UserRoles,
+  Vote,
+} from "../api/types";
+import { config } from "../config";
+import { postImages } from "../images";
+import { can, type Action, type ResourceOf } from "../permissions";
+import type { AuthEvent, Backend } from "./types";
+
+/**
+ * Offline backend persisted to localStorage. It mirrors the behaviour of the
+ * Supabase tables closely enough to run the whole UI without network access.
+ */
+
+type PostRow = Omit<Post, "like_count" | "comment_count" | "communities">;
+
+interface MemoryState {
+  nextId: number;
+  profiles: Profile[];
+  posts: PostRow[];
+  postRevisions: PostRevision[];
+  drafts: (PostDraft & { user_id: string })[];
+  communities: Community[];
+  comments: Comment[];
+  votes: Vote[];
+  follows: { follower_id: string; followee_id: string; created_at: string }[];
+  restrictions: (Omit<UserRestriction, "profile"> & { user_id: string })[];
+  siteAdmins: string[];
+  /** Appointed moderators only; owners are derived from `communities.author`. */
+  moderators: Omit<CommunityModerator, "profile">[];
+  bans: Omit<CommunityBan, "profile">[];
+  accountDeletions: AccountDeletion[];
+  /** Uploaded files as data URLs, keyed by `${bucket}/${path}`. */
+  files: Record<string, string>;
+  /** When each file was uploaded, keyed like `files`. */
+  uploadedAt: Record<string, string>;
+}
+
+const STATE_KEY = "community:memory-backend";
+const SESSION_KEY = "community:memory-session";
+const ACCOUNTS_KEY = "community:memory-accounts";
+const CHANGES_CHANNEL = "community:memory-changes";
+
+// How often the offline stand-in for the publishing job runs
+const PUBLISH_INTERVAL_MS = 30 * 1000;
+
+// Same grace period as the account deletion migration
+const ACCOUNT_DELETION_GRACE_MS = 14 * 24 * 60 * 60 * 1000;
+
+// Same grace period as scripts/clean-orphaned-images.mjs
+const ORPHANED_IMAGE_GRACE_MS = 24 * 60 * 60 * 1000;
+
+interface ChangeMessage {
+  table: RealtimeTable;
+  change: RowChange<{ post_id: number }>;
+}
+
+const LOCAL_USER: User = {
+  id: "00000000-0000-0000-0000-000000000001",
+  aud: "authenticated",
+  email: "dev@localhost",
+  created_at: new Date(0).toISOString(),
+  app_metadata: { provider: "github" },
+  user_metadata: { user_name: "local-dev", avatar_url: null },
+};
+
+/** Email accounts; passwords are stored in plain text as this is for local development only. */
+interface MemoryAccount {
+  email: string;
+  password: string | null;
+  user: User;
+}
+
+const createLocalUser = (email: string, userName: string, provider: string): User => ({
+  id: crypto.randomUUID(),
+  aud: "authenticated",
+  email,
+  created_at: new Date().toISOString(),
+  app_metadata: { provider },
+  user_metadata: { user_name: userName, avatar_url: null },
+});
+
+const emptyState = (): MemoryState => ({
+  nextId: 1,
+  profiles: [],
+  posts: [],
+  postRevisions: [],
+  drafts: [],
+  communities: [],
+  comments: [],
+  votes: [],
+  follows: [],
+  restrictions: [],
+  // The local development user administers the offline site
+  siteAdmins: [LOCAL_USER.id],
+  moderators: [],
+  bans: [],
+  accountDeletions: [],
+  files: {},
+  uploadedAt: {},
+});
+
+const readFileAsDataUrl = (file: File, onProgress?: (fraction: number) => void) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.(e.loaded / e.total);
+    };
+    reader.onload = () => {
+      onProgress?.(1);
+      resolve(reader.result as string);
+    };
+    reader.onerror = () => reject(reader.error ?? new Error("Failed to read file"));
+    reader.readAsDataURL(file);
+  });
+
+const matchesPost = (p: PostRow, filter: PostFilter) =>
+  (filter.communityId == null || p.community_id === filter.communityId) &&
+  (!filter.communityIds || (p.community_id != null && filter.communityIds.includes(p.community_id))) &&
+  (!filter.author || p.author === filter.author);
+
+// Same rules as public.unique_username in the profiles migration
+const uniqueUsername = (profiles: Profile[], base: string) => {
+  let name = base.toLowerCase().replace(/[^a-z0-9_]/g, "").slice(0, 24);
+  if (name.length < 3) name = `user${name}`;
+  let candidate = name;
+  for (let suffix = 1; profiles.some((p) => p.username === candidate); suffix++) {
+    candidate = `${name}${suffix}`;
+  }
+  return candidate;
+};
+
+// Listings show either published posts or the viewer's own scheduled ones; removeMany takes both
+const isListed = (p: PostRow, filter: PostFilter, viewerId?: string) =>
+  (filter.scheduled ? !!p.scheduled_for && p.author === viewerId : !p.scheduled_for) && matchesPost(p, filter);
+
+// A published post takes its place in the feed at its scheduled time, or now when published early
+const publishPost = (post: PostRow) => {
+  if (!post.scheduled_for) return;
+  post.created_at = new Date(Math.min(Date.now(), new Date(post.scheduled_for).getTime())).toISOString();
+  post.scheduled_for = null;
+};
+
+const byCreatedAtDesc = (a: { created_at: string }, b: { created_at: string }) =>
+  new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+
+export const createMemoryBackend = (storage: Storage = window.localStorage): Backend => {
+  // State is re-read on every call so several tabs stay consistent.
+  const load = (): MemoryState => {
+    const raw = storage.getItem(STATE_KEY);
+    return raw ? { ...emptyState(), ...(JSON.parse(raw) as MemoryState) } : emptyState();
+  };
+
+  const save = (state: MemoryState) => {
+    storage.setItem(STATE_KEY, JSON.stringify(state));
+  };
+
+  const update = <T>(fn: (state: MemoryState) => T): T => {
+    const state = load();
+    const result = fn(state);
+    save(state);
+    return result;
+  };
+
+  const nextId = (state: MemoryState) => state.nextId++;
+
+  const authorOf = (state: MemoryState, userId: string | undefined): AuthorProfile | null => {
+    const profile = state.profiles.find((p) => p.id === userId);
+    if (!profile) return null;
+    const { id, username, display_name, avatar_url } = profile;
+    return { id, username, display_name, avatar_url };
+  };
+
+  const toComment = (state: MemoryState, c: Comment): Comment => ({
+    ...c,
+    author_profile: authorOf(state, c.user_id),
+  });
+
+  const toPost = (state: MemoryState, p: PostRow): Post => {
+    const community = state.communities.find((c) => c.id === p.community_id);
+    const votes = state.votes.filter((v) => v.post_id === p.id);
+    return {
+      ...p,
+      is_announcement: p.is_announcement ?? false,
+      is_locked: p.is_locked ?? false,
+      communities: community ? { name: community.name } : null,
+      like_count: votes.filter((v) => v.vote === 1).length,
+      comment_count: state.comments.filter((c) => c.post_id === p.id).length,
+      author_profile: authorOf(state, p.author),
+    };
+  };
+
+  // The post_revisions trigger does this in Supabase
+  const addRevision = (state: MemoryState, post: PostRow) => {
+    state.postRevisions.push({
+      id: nextId(state),
+      post_id: post.id,
+      title: post.title,
+      content: post.content,
+      image_url: post.image_url,
+      image_urls: post.image_urls ?? [],
+      created_at: post.edited_at ?? post.created_at,
+    });
+  };
+
+  const readSession = (): Session | null => {
+    const raw = storage.getItem(SESSION_KEY);
+    return raw ? (JSON.parse(raw) as Session) : null;
+  };
+
+  const rolesOf = (state: MemoryState, userId: string): UserRoles => {
+    const communityRoles: Record<number, CommunityRole> = {};
+    state.moderators.filter((m) => m.user_id === userId).forEach((m) => (communityRoles[m.community_id] = m.role));
+    state.communities.filter((c) => c.author === userId).forEach((c) => (communityRoles[c.id] = "owner"));
+    return {
+      userId,
+      isSiteAdmin: state.siteAdmins.includes(userId),
+      communityRoles,
+      bannedFrom: state.bans.filter((b) => b.user_id === userId).map((b) => b.community_id),
+    };
+  };
+
+  // Stands in for the row-level policies of the permissions migration
+  const authorize = <A extends Action>(state: MemoryState, action: A, resource: ResourceOf<A>) => {
+    const session = readSession();
+    if (!can(session ? rolesOf(state, session.user.id) : null, action, resource)) {
+      throw new Error("You are not allowed to do that");
+    }
+  };
+
+  // Stands in for the policies that only let users change their own rows
+  const assertSignedInAs = (userId: string) => {
+    if (readSession()?.user.id !== userId) throw new Error("You are not allowed to do that");
+  };
+
+  // Same check as public.guard_blocked_comments in the blocks migration
+  const assertNotBlockedBy = (state: MemoryState, userId: string | undefined, commenterId: string) => {
+    if (state.restrictions.some((r) => r.user_id === userId && r.target_id === commenterId && r.kind === "block")) {
+      throw new Error("You cannot reply to this user");
+    }
+  };
+
+  const findCommunity = (state: MemoryState, id: number) => {
+    const community = state.communities.find((c) => c.id === id);
+    if (!community) throw new Error("Community not found");
+    return community;
+  };
+
+  // Same steps as public.purge_account in the account deletion migration
+  const purgeAccount = (state: MemoryState, userId: string) => {
+    const communityIds = state.communities.filter((c) => c.author === userId).map((c) => c.id);
+    const removedPosts = state.posts.filter(
+      (p) => p.author === userId || (p.community_id != null && communityIds.includes(p.community_id))
+    );
+    const postIds = new Set(removedPosts.map((p) => p.id));
+    const commentIds = new Set(state.comments.filter((c) => c.user_id === userId).map((c) => c.id));
+
+    // Replies by other people survive their parent
+    state.comments = state.comments
+      .filter((c) => c.user_id !== userId && !postIds.has(c.post_id))
+      .map((c) => (c.parent_comment_id != null && commentIds.has(c.parent_comment_id) ? { ...c, parent_comment_id: null } : c));
+    state.votes = state.votes.filter((v) => v.user_id !== userId && !postIds.has(v.post_id));
+    const removedRevisions = state.postRevisions.filter((r) => postIds.has(r.post_id));
+    state.postRevisions = state.postRevisions.filter((r) => !postIds.has(r.post_id));
+    state.posts = state.posts.filter((p) => !postIds.has(p.id));
+    state.communities = state.communities.filter((c) => !communityIds.includes(c.id));
+    state.moderators = state.moderators.filter((m) => m.user_id !== userId && !communityIds.includes(m.community_id));
+    state.bans = state.bans
+      .filter((b) => b.user_id !== userId && !communityIds.includes(b.community_id))
+      .map((b) => (b.banned_by === userId ? { ...b, banned_by: null } : b));
+    state.follows = state.follows.filter((f) => f.follower_id !== userId && f.followee_id !== userId);
+    state.restrictions = state.restrictions.filter((r) => r.user_id !== userId && r.target_id !== userId);
+    state.siteAdmins = state.siteAdmins.filter((id) => id !== userId);
+    state.profiles = state.profiles.filter((p) => p.id !== userId);
+    state.accountDeletions = state.accountDeletions.filter((d) => d.user_id !== userId);
+    state.drafts = state.drafts.filter((d) => d.user_id !== userId);
+
+    // Post images are found by their data URL; avatars live under the user's id
+    const imageUrls = new Set([...removedPosts, ...removedRevisions].flatMap(postImages));
+    Object.keys(state.files).forEach((key) => {
+      if (imageUrls.has(state.files[key]) || key.split("/")[1] === userId) {
+        delete state.files[key];
+        delete state.uploadedAt[key];
+      }
+    });
+  };
+
+  const authListeners = new Set<(event: AuthEvent, session: Session | null) => void>();
+  const emitSession = (event: AuthEvent, session: Session | null) => {
+    authListeners.forEach((listener) => listener(event, session));
+  };
+
+  // The Supabase trigger does this on sign-up
+  const ensureProfile = (user: User) =>
+    update((state) => {
+      if (state.profiles.some((p) => p.id === user.id)) return;
+      state.profiles.push({
+        id: user.id,
+        username: uniqueUsername(state.profiles, user.user_metadata.user_name ?? user.email?.split("@")[0] ?? ""),
+        display_name: user.user_metadata.full_name ?? user.user_metadata.name ?? null,
+        bio: null,
+        avatar_url: user.user_metadata.avatar_url ?? null,
+        created_at: new Date().toISOString(),
+      });
+    });
+
+  const startSession = (user: User) => {
+    ensureProfile(user);
+    const session: Session = {
+      access_token: "local",
+      refresh_token: "local",
+      expires_in: 60 * 60 * 24 * 365,
+      token_type: "bearer",
+      user,
+    };
+    storage.setItem(SESSION_KEY, JSON.stringify(session));
+    emitSession("SIGNED_IN", session);
+  };
+
+  const loadAccounts = (): MemoryAccount[] => JSON.parse(storage.getItem(ACCOUNTS_KEY) ?? "[]");
+  const saveAccounts = (accounts: MemoryAccount[]) => {
+    storage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+  };
+  const findAccount = (accounts: MemoryAccount[], email: string) =>
+    accounts.find((a) => a.email.toLowerCase() === email.toLowerCase());
+
+  // Stands in for the scheduled purge job; runs whenever the app starts
+  const purgeDueAccounts = () => {
+    const purged = update((state) => {
+      const due = state.accountDeletions
+        .filter((d) => new Date(d.purge_after).getTime() <= Date.now())
+        .map((d) => d.user_id);
+      due.forEach((userId) => purgeAccount(state, userId));
+      return due;
+    });
+    if (purged.length === 0) return;
+    saveAccounts(loadAccounts().filter((a) => !purged.includes(a.user.id)));
+    const session = readSession();
+    if (session && purged.includes(session.user.id)) storage.removeItem(SESSION_KEY);
+  };
+
+  purgeDueAccounts();
+
+  // Stands in for the scheduled publishing job
+  const publishDuePosts = () =>
+    update((state) => {
+      state.posts
+        .filter((p) => p.scheduled_for && new Date(p.scheduled_for).getTime() <= Date.now())
+        .forEach(publishPost);
+    });
+
+  publishDuePosts();
+  setInterval(publishDuePosts, PUBLISH_INTERVAL_MS);
+
+  // Stands in for the orphaned image cleanup job. Another tab may be between
+  // uploading images and saving its post, so recent uploads are left alone;
+  // files from before upload times were recorded count as old.
+  const removeOrphanedImages = () =>
+    update((state) => {
+      const prefix = `${config.storage.postImagesBucket}/`;
+      const cutoff = Date.now() - ORPHANED_IMAGE_GRACE_MS;
+      const referenced = new Set([...state.posts, ...state.postRevisions].flatMap(postImages));
+      Object.keys(state.files).forEach((key) => {
+        if (!key.startsWith(prefix) || referenced.has(state.files[key])) return;
+        const uploadedAt = state.uploadedAt[key];
+        if (uploadedAt && new Date(uploadedAt).getTime() > cutoff) return;
+        delete state.files[key];
+        delete state.uploadedAt[key];
+      });
+    });
+
+  removeOrphanedImages();
+
+  window.addEventListener("storage", (e) => {
+    if (e.key !== SESSION_KEY) return;
+    const session = readSession();
+    emitSession(session ? "SIGNED_IN" : "SIGNED_OUT", session);
+  });
+
+  // Row changes reach subscribers in this tab directly and other tabs over a BroadcastChannel.
+  const changeListeners = new Set<(message: ChangeMessage) => void>();
+  const changes = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(CHANGES_CHANNEL) : null;
+  changes?.addEventListener("message", (e: MessageEvent<ChangeMessage>) => {
+    changeListeners.forEach((listener) => listener(e.data));
+  });
+
+  const emitChange = <T extends { post_id: number }>(table: RealtimeTable, change: RowChange<T>) => {
+    const message: ChangeMessage = { table, change };
+    changeListeners.forEach((listener) => listener(message));
+    changes?.postMessage(message);
+  };
+
+  return {
+    auth: {
+      getSession: async () => {
+        const session = readSession();
+        if (session) ensureProfile(session.user);
+        return session;
+      },
+      onAuthStateChange: (callback) => {
+        authListeners.add(callback);
+        return () => {
+          authListeners.delete(callback);
+        };
+      },
+      // Every provider signs in as the same local user
+      signInWithOAuth: async (provider) => {
+        startSession({ ...LOCAL_USER, app_metadata: { provider } });
+      },
+      // No mail is sent: following the "link" happens immediately.
+      signInWithMagicLink: async (email) => {
+        const accounts = loadAccounts();
+        let account = findAccount(accounts, email);
+        if (!account) {
+          account = { email, password: null, user: createLocalUser(email, email.split("@")[0], "email") };
+          saveAccounts([...accounts, account]);
+        }
+        startSession(account.user);
+      },
+      signInWithPassword: async (email, password) => {
+        const account = findAccount(loadAccounts(), email);
+        if (!account || account.password === null || account.password !== password) {
+          throw new Error("Invalid login credentials");
+        }
+        startSession(account.user);
+      },
+      signUp: async (email, password, userName) => {
+        const accounts = loadAccounts();
+        if (findAccount(accounts, email)) throw new Error("User already registered");
+        const account = { email, password, user: createLocalUser(email, userName, "email") };
+        saveAccounts([...accounts, account]);
+        startSession(account.user);
+        return { confirmationRequired: false };
+      },
+      sendPasswordReset: async (email) => {
+        const account = findAccount(loadAccounts(), email);
+        // Stands in for following the emailed link to the reset-password page
+        if (account) startSession(account.user);
+      },
+      updatePassword: async (password) => {
+        const session = readSession();
+        if (!session) throw new Error("Auth session missing!");
+        const accounts = loadAccounts();
+        const account = accounts.find((a) => a.user.id === session.user.id);
+        if (!account) throw new Error("Only email accounts have a password");
+        account.password = password;
+        saveAccounts(accounts);
+      },
+      signOut: async () => {
+        storage.removeItem(SESSION_KEY);
+        emitSession("SIGNED_OUT", null);
+      },
+    },
+
+    account: {
+      deletion: async (userId) => load().accountDeletions.find((d) => d.user_id === userId) ?? null,
+
+      requestDeletion: async (userId) =>
+        update((state) => {
+          assertSignedInAs(userId);
+          if (state.accountDeletions.some((d) => d.user_id === userId)) {
+            throw new Error("Account deletion is already scheduled");
+          }
+          const requestedAt = Date.now();
+          const deletion: AccountDeletion = {
+            user_id: userId,
+            requested_at: new Date(requestedAt).toISOString(),
+            purge_after: new Date(requestedAt + ACCOUNT_DELETION_GRACE_MS).toISOString(),
+          };
+          state.accountDeletions.push(deletion);
+          return deletion;
+        }),
+
+      cancelDeletion: async (userId) =>
+        update((state) => {
+          assertSignedInAs(userId);
+          state.accountDeletions = state.accountDeletions.filter((d) => d.user_id !== userId);
+        }),
+    },
+
+    profiles: {
+      get: async (id) => load().profiles.find((p) => p.id === id) ?? null,
+
+      getByUsername: async (username) =>
+        load().profiles.find((p) => p.username === username.toLowerCase()) ?? null,
+
+      update: async (id, changes) =>
+        update((state) => {
+          const profile = state.profiles.find((p) => p.id === id);
+          if (!profile) throw new Error("Profile not found");
+          Object.assign(profile, changes);
+          return profile;
+        }),
+    },
+
+    follows: {
+      following: async (userId) =>
+        load()
+          .follows.filter((f) => f.follower_id === userId)
+          .map((f) => f.followee_id),
+
+      counts: async (userId) => {
+        const { follows } = load();
+        return {
+          followers: follows.filter((f) => f.followee_id === userId).length,
+          following: follows.filter((f) => f.follower_id === userId).length,
+        };
+      },
+
+      follow: async (followerId, followeeId) =>
+        update((state) => {
+          assertSignedInAs(followerId);
+          if (followerId === followeeId) throw new Error("You cannot follow yourself");
+          if (state.follows.some((f) => f.follower_id === followerId && f.followee_id === followeeId)) return;
+          state.follows.push({ follower_id: followerId, followee_id: followeeId, created_at: new Date().toISOString() });
+        }),
+
+      unfollow: async (followerId, followeeId) =>
+        update((state) => {
+          assertSignedInAs(followerId);
+          state.follows = state.follows.filter((f) => !(f.follower_id === followerId && f.followee_id === followeeId));
+        }),
+    },
+
+    restrictions: {
+      list: async (userId) => {
+        const state = load();
+        return state.restrictions
+          .filter((r) => r.user_id === userId)
+          .sort(byCreatedAtDesc)
+          .map(({ target_id, kind, created_at }) => ({ target_id, kind, created_at, profile: authorOf(state, target_id) }));
+      },
+
+      set: async (userId, targetId, kind) =>
+        update((state) => {
+          assertSignedInAs(userId);
+          if (userId === targetId) throw new Error("You cannot mute or block yourself");
+          const existing = state.restrictions.find((r) => r.user_id === userId && r.target_id === targetId);
+          if (existing) existing.kind = kind;
+          else state.restrictions.push({ user_id: userId, target_id: targetId, kind, created_at: new Date().toISOString() });
+        }),
+
+      remove: async (userId, targetId) =>
+        update((state) => {
+          assertSignedInAs(userId);
+          state.restrictions = state.restrictions.filter((r) => !(r.user_id === userId && r.target_id === targetId));
+        }),
+    },
+
+    roles: {
+      forUser: async (userId) => rolesOf(load(), userId),
+
+      moderators: async (communityId) => {
+        const state = load();
+        const community = findCommunity(state, communityId);
+        const owner: Omit<CommunityModerator, "profile"> = {
+          community_id: community.id,
+          user_id: community.author,
+          role: "owner",
+          created_at: community.created_at,
+        };
+        return [owner, ...state.moderators.filter((m) => m.community_id === communityId)].map((m) => ({
+          ...m,
+          profile: authorOf(state, m.user_id),
+        }));
+      },
+
+      addModerator: async (communityId, userId) =>
+        update((state) => {
+          authorize(state, "community.appoint", findCommunity(state, communityId));
+          if (rolesOf(state, userId).communityRoles[communityId]) throw new Error("Already a moderator");
+          state.moderators.push({
+            community_id: communityId,
+            user_id: userId,
+            role: "moderator",
+            created_at: new Date().toISOString(),
+          });
+        }),
+
+      removeModerator: async (communityId, userId) =>
+        update((state) => {
+          authorize(state, "community.appoint", findCommunity(state, communityId));
+          state.moderators = state.moderators.filter(
+            (m) => !(m.community_id === communityId && m.user_id === userId)
+          );
+        }),
+
+      bans: async (communityId) => {
+        const state = load();
+        return state.bans
+          .filter((b) => b.community_id === communityId)
+          .sort(byCreatedAtDesc)
+          .map((b) => ({ ...b, profile: authorOf(state, b.user_id) }));
+      },
+
+      ban: async (communityId, userId, bannedBy, reason) =>
+        update((state) => {
+          authorize(state, "community.ban", findCommunity(state, communityId));
+          if (rolesOf(state, userId).communityRoles[communityId]) throw new Error("Moderators cannot be banned");
+          if (state.bans.some((b) => b.community_id === communityId && b.user_id === userId)) {
+            throw new Error("User is already banned");
+          }
+          state.bans.push({
+            community_id: communityId,
+            user_id: userId,
+            banned_by: bannedBy,
+            reason,
+            created_at: new Date().toISOString(),
+          });
+        }),
+
+      unban: async (communityId, userId) =>
+        update((state) => {
+          authorize(state, "community.ban", findCommunity(state, communityId));
+          state.bans = state.bans.filter((b) => !(b.community_id === communityId && b.user_id === userId));
+        }),
+    },
+
+    posts: {
+      list: async (filter) => {
+        const state = load();
+        const viewerId = readSession()?.user.id;
+        return state.posts
+          .filter((p) => isListed(p, filter, viewerId))
+          .sort(byCreatedAtDesc)
+          .map((p) => toPost(state, p));
+      },
+
+      feed: async ({ communityId, following, announcements, sortOrder, cursor, limit }) => {
+        const state = load();
+        const followerId = readSession()?.user.id;
+        const followed = new Set(state.follows.filter((f) => f.follower_id === followerId).map((f) => f.followee_id));
+        const direction = sortOrder === "oldest" ? 1 : -1;
+        const compare = (a: FeedCursor, b: FeedCursor) =>
+          (new Date(a.created_at).getTime() - new Date(b.created_at).getTime() || a.id - b.id) * direction;
+
+        const matching = state.posts
+          .filter((p) => isListed(p, { communityId }))
+          .filter((p) => !following || (p.author !== undefined && followed.has(p.author)))
+          .filter((p) => announcements === undefined || (p.is_announcement ?? false) === announcements);
+        const posts = matching
+          .filter((p) => !cursor || compare(p, cursor) > 0)
+          .sort(compare)
+          .slice(0, limit)
+          .map((p) => toPost(state, p));
+        const last = posts[posts.length - 1];
+        return {
+          posts,
+          nextCursor: posts.length === limit ? { created_at: last.created_at, id: last.id } : null,
+          total: cursor ? null : matching.length,
+        };
+      },
+
+      top: async (metric, limit) => {
+        const state = load();
+        const count = (p: Post) => (metric === "likes" ? p.like_count : p.comment_count) ?? 0;
+        return state.posts
+          .filter((p) => isListed(p, {}))
+          .map((p) => toPost(state, p))
+          .sort((a, b) => count(b) - count(a) || b.id - a.id)
+          .slice(0, limit);
+      },
+
+      get: async (id) => {
+        const state = load();
+        const post = state.posts.find((p) => p.id === id);
+        // Scheduled posts are hidden from everyone but their author, as by the posts policy
+        if (!post || (post.scheduled_for && post.author !== readSession()?.user.id)) throw new Error("Post not found");
+        return toPost(state, post);
+      },
+
+      count: async (filter) => {
+        const viewerId = readSession()?.user.id;
+        return load().posts.filter((p) => isListed(p, filter, viewerId)).length;
+      },
+
+      create: async (post) =>
+        update((state) => {
+          if (post.community_id != null) {
+            const community = findCommunity(state, post.community_id);
+            authorize(state, "community.post", community);
+            if (post.is_announcement) authorize(state, "community.announce", community);
+          }
+          const scheduledFor = post.scheduled_for && new Date(post.scheduled_for) > new Date() ? post.scheduled_for : null;
+          const row = {
+            ...post,
+            image_url: post.image_urls[0] ?? null,
+            scheduled_for: scheduledFor,
+            is_locked: false,
+            id: nextId(state),
+            created_at: new Date().toISOString(),
+          };
+          state.posts.push(row);
+          addRevision(state, row);
+        }),
+
+      update: async (id, changes) =>
+        update((state) => {
+          const post = state.posts.find((p) => p.id === id);
+          if (!post) throw new Error("Post not found");
+          if (changes.is_announcement !== undefined) authorize(state, "post.pin", post);
+          if (changes.is_locked !== undefined) authorize(state, "post.lock", post);
+          Object.assign(post, changes);
+        }),
+
+      edit: async (id, { title, content, image_urls }) =>
+        update((state) => {
+          const post = state.posts.find((p) => p.id === id);
+          if (!post) throw new Error("Post not found");
+          authorize(state, "post.edit", post);
+          const sameImages = postImages(post).join("\n") === image_urls.join("\n");
+          if (post.title === title && post.content === content && sameImages) return;
+          Object.assign(post, {
+            title,
+            content,
+            image_urls,
+            image_url: image_urls[0] ?? null,
+            edited_at: new Date().toISOString(),
+          });
+          addRevision(state, post);
+        }),
+
+      reschedule: async (id, scheduledFor) =>
+        update((state) => {
+          const post = state.posts.find((p) => p.id === id);
+          if (!post?.scheduled_for) throw new Error("This post is not scheduled");
+          authorize(state, "post.edit", post);
+          if (scheduledFor && new Date(scheduledFor) > new Date()) post.scheduled_for = scheduledFor;
+          else publishPost(post);
+        }),
+
+      revisions: async (postId) =>
+        load()
+          .postRevisions.filter((r) => r.post_id === postId)
+          .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime() || a.id - b.id),
+
+      remove: async (id) =>
+        update((state) => {
+          const post = state.posts.find((p) => p.id === id);
+          if (post) authorize(state, "post.delete", post);
+          state.posts = state.posts.filter((p) => p.id !== id);
+          state.postRevisions = state.postRevisions.filter((r) => r.post_id !== id);
+          state.comments = state.comments.filter((c) => c.post_id !== id);
+          state.votes = state.votes.filter((v) => v.post_id !== id);
+        }),
+
+      removeMany: async (filter) =>
+        update((state) => {
+          const matched = state.posts.filter((p) => matchesPost(p, filter));
+          matched.forEach((post) => authorize(state, "post.delete", post));
+          const removed = new Set(matched.map((p) => p.id));
+          state.posts = state.posts.filter((p) => !removed.has(p.id));
+          state.postRevisions = state.postRevisions.filter((r) => !removed.has(r.post_id));
+          state.comments = state.comments.filter((c) => !removed.has(c.post_id));
+          state.votes = state.votes.filter((v) => !removed.has(v.post_id));
+        }),
+
+      search: async (term, limit) => {
+        const needle = term.toLowerCase();
+        return load()
+          .posts.filter((p) => !p.scheduled_for && p.title.toLowerCase().includes(needle))
+          .slice(0, limit)
+          .map(({ id, title }) => ({ id, title }));
+      },
+    },
+
+    drafts: {
+      list: async (userId) =>
+        load()
+          .drafts.filter((d) => d.user_id === userId)
+          .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())
+          .map(({ id, title, content, community_id, is_announcement, updated_at }) => ({
+            id,
+            title,
+            content,
+            community_id,
+            is_announcement,
+            updated_at,
+          })),
+
+      save: async (userId, draft) =>
+        update((state) => {
+          assertSignedInAs(userId);
+          state.drafts = [...state.drafts.filter((d) => !(d.user_id === userId && d.id === draft.id)), { ...draft, user_id: userId }];
+        }),
+
+      remove: async (userId, id) =>
+        update((state) => {
+          assertSignedInAs(userId);
+          state.drafts = state.drafts.filter((d) => !(d.user_id === userId && d.id === id));
+        }),
+    },
+
+    communities: {
+      list: async (filter) =>
+        load()
+          .communities.filter((c) => !filter.author || c.author === filter.author)
+          .sort(byCreatedAtDesc),
+
+      get: async (id) => {
+        const community = load().communities.find((c) => c.id === id);
+        if (!community) throw new Error("Community not found");
+        return community;
+      },
+
+      postCounts: async () => {
+        const counts = new Map<number, number>();
+        load().posts.forEach((p) => {
+          if (p.community_id != null && !p.scheduled_for) {
+            counts.set(p.community_id, (counts.get(p.community_id) || 0) + 1);
+          }
+        });
+        return counts;
+      },
+
+      create: async (community) =>
+        update((state) => {
+          state.communities.push({ ...community, id: nextId(state), created_at: new Date().toISOString() });
+        }),
+
+      update: async (id, changes) =>
+        update((state) => {
+          const community = findCommunity(state, id);
+          authorize(state, "community.edit", community);
+          Object.assign(community, changes);
+        }),
+
+      removeMany: async (ids) =>
+        update((state) => {
+          state.communities
+            .filter((c) => ids.includes(c.id))
+            .forEach((community) => authorize(state, "community.edit", community));
+          state.communities = state.communities.filter((c) => !ids.includes(c.id));
+          state.moderators = state.moderators.filter((m) => !ids.includes(m.community_id));
+          state.bans = state.bans.filter((b) => !ids.includes(b.community_id));
+        }),
+
+      search: async (term, limit) => {
+        const needle = term.toLowerCase();
+        return load()
+          .communities.filter((c) => c.name.toLowerCase().includes(needle))
+          .slice(0, limit)
+          .map(({ id, name }) => ({ id, name }));
+      },
+    },
+
+    comments: {
+      list: async (postId) => {
+        const state = load();
+        return state.comments
+          .filter((c) => c.post_id === postId)
+          .sort((a, b) => -byCreatedAtDesc(a, b))
+          .map((c) => toComment(state, c));
+      },
+
+      listByUser: async (userId) => {
+        const state = load();
+        return state.comments
+          .filter((c) => c.user_id === userId)
+          .sort(byCreatedAtDesc)
+          .map((c) => toComment(state, c));
+      },
+
+      create: async (comment) => {
+        const row = update((state) => {
+          const post = state.posts.find((p) => p.id === comment.post_id);
+          if (!post) throw new Error("Post not found");
+          assertSignedInAs(comment.user_id);
+          authorize(state, "post.comment", post);
+          assertNotBlockedBy(state, post.author, comment.user_id);
+          const parent = state.comments.find((c) => c.id === comment.parent_comment_id);
+          if (parent) assertNotBlockedBy(state, parent.user_id, comment.user_id);
+          const created: Comment = { ...comment, id: nextId(state), created_at: new Date().toISOString() };
+          state.comments.push(created);
+          return created;
+        });
+        emitChange("comments", { type: "INSERT", new: row, old: null });
+      },
+    },
+
+    votes: {
+      summaries: async (postIds, userId) => {
+        const { votes } = load();
+        return postIds.map((postId) => {
+          const postVotes = votes.filter((v) => v.post_id === postId);
+          const likes = postVotes.filter((v) => v.vote === 1).length;
+          const dislikes = postVotes.filter((v) => v.vote === -1).length;
+          return {
+            post_id: postId,
+            likes,
+            dislikes,
+            score: likes - dislikes,
+            user_vote: postVotes.find((v) => v.user_id === userId)?.vote ?? null,
+          };
+        });
+      },
+
+      listByUser: async (userId) => load().votes.filter((v) => v.user_id === userId),
+
+      cast: async (voteValue, postId, userId) => {
+        const change = update((state): RowChange<Vote> => {
+          assertSignedInAs(userId);
+          const existing = state.votes.find((v) => v.post_id === postId && v.user_id === userId);
+          if (!existing) {
+            const created = { id: nextId(state), post_id: postId, user_id: userId, vote: voteValue };
+            state.votes.push(created);
+            return { type: "INSERT", new: created, old: null };
+          }
+          if (existing.vote === voteValue) {
+            state.votes = state.votes.filter((v) => v !== existing);
+            return { type: "DELETE", new: null, old: existing };
+          }
+          const updated = { ...existing, vote: voteValue };
+          state.votes = state.votes.map((v) => (v === existing ? updated : v));
+          return { type: "UPDATE", new: updated, old: existing };
+        });
+        emitChange("votes", change);
+      },
+    },
+
+    storage: {
+      upload: async (bucket, path, file, onProgress) => {
+        const dataUrl = await readFileAsDataUrl(file, onProgress);
+        update((state) => {
+          const key = `${bucket}/${path}`;
+          if (state.files[key]) throw new Error("The resource already exists");
+          state.files[key] = dataUrl;
+          state.uploadedAt[key] = new Date().toISOString();
+        });
+      },
+
+      getPublicUrl: (bucket, path) => load().files[`${bucket}/${path}`] ?? "",
+
+      // Public URLs are the data URLs themselves
+      pathFromPublicUrl: (bucket, url) => {
+        const files = load().files;
+        const key = Object.keys(files).find((k) => k.startsWith(`${bucket}/`) && files[k] === url);
+        return key ? key.slice(bucket.length + 1) : null;
+      },
+
+      remove: async (bucket, paths) =>
+        update((state) => {
+          paths.forEach((path) => {
+            delete state.files[`${bucket}/${path}`];
+            delete state.uploadedAt[`${bucket}/${path}`];
+          });
+        }),
+    },
+
+    realtime: {
+      subscribe: <T extends { post_id: number }>(
+        table: RealtimeTable,
+        postId: number,
+        callback: (change: RowChange<T>) => void
+      ) => {
+        const listener = (message: ChangeMessage) => {
+          const row = message.change.new ?? message.change.old;
+          if (message.table === table && row?.post_id === postId) {
+            callback(message.change as RowChange<T>);
+          }
+        };
+        changeListeners.add(listener);
+        return () => {
+          changeListeners.delete(listener);
+        };
+      },
+    },
+  };
+};
@@ -0,0 +1,737 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  AccountDeletion,
+  AuthorProfile,
+  Comment,
+  Community,
+  CommunityBan,
+  CommunityModerator,
+  FeedCursor,
+  Post,
+  PostDraft,
+  PostFilter,
+  PostMetric,
+  PostRevision,
+  Profile,
+  RowChange,
+  UserRestriction,
+  Vote,
+  VoteSummary,
+} from "../api/types";
+import type { Backend } from "./types";
+
+const POST_COLUMNS =
+  "id,title,content,created_at,edited_at,scheduled_for,image_url,image_urls,avatar_url,is_announcement,is_locked,author,community_id,communities(name)";
+
+const AUTHOR_COLUMNS = "id,username,display_name,avatar_url";
+
+interface FeedRow extends Omit<Post, "communities"> {
+  community_name: string | null;
+}
+
+const toFeedPost = ({ community_name, ...row }: FeedRow): Post => ({
+  ...row,
+  is_announcement: row.is_announcement ?? false,
+  is_locked: row.is_locked ?? false,
+  communities: community_name ? { name: community_name } : null,
+});
+
+interface PostCounts {
+  id: number;
+  like_count: number | null;
+  comment_count: number | null;
+}
+
+// supabase-js uploads with fetch, which cannot report upload progress
+const putWithProgress = (url: string, file: File, onProgress: (fraction: number) => void) =>
+  new Promise<void>((resolve, reject) => {
+    // Same form as StorageFileApi.uploadToSignedUrl sends
+    const body = new FormData();
+    body.append("cacheControl", "3600");
+    body.append("", file);
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url);
+    xhr.setRequestHeader("x-upsert", "false");
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress(1);
+        resolve();
+        return;
+      }
+      let message = xhr.statusText || `Upload failed with status ${xhr.status}`;
+      try {
+        message = JSON.parse(xhr.responseText).message ?? message;
+      } catch {
+        // Not a JSON error body
+      }
+      reject(new Error(message));
+    };
+    xhr.onerror = () => reject(new TypeError("Network error"));
+    xhr.send(body);
+  });
+
+export const createSupabaseBackend = (supabase: SupabaseClient): Backend => {
+  // Channels with the same topic are shared by supabase-js, so each subscription gets its own.
+  let channelCount = 0;
+
+  // posts has no aggregates, so they are read from feed_posts for the rows at hand.
+  // Scheduled posts are not in feed_posts and count as having none.
+  const fetchPostCounts = async (ids: number[]): Promise<Map<number, PostCounts>> => {
+    if (ids.length === 0) return new Map();
+    const { data, error } = await supabase.from("feed_posts").select("id,like_count,comment_count").in("id", ids);
+    if (error) throw new Error(error.message);
+    return new Map(((data as PostCounts[]) || []).map((c) => [c.id, c]));
+  };
+
+  const withCounts = (rows: Post[], counts: Map<number, PostCounts>): Post[] =>
+    rows.map((p) => {
+      const c = counts.get(p.id);
+      return {
+        ...p,
+        avatar_url: p.avatar_url ?? undefined,
+        is_announcement: p.is_announcement ?? false,
+        is_locked: p.is_locked ?? false,
+        like_count: c?.like_count ?? 0,
+        comment_count: c?.comment_count ?? 0,
+      };
+    });
+
+  // posts.author and comments.user_id are not foreign keys, so profiles are joined here.
+  const fetchAuthors = async (ids: string[]): Promise<Map<string, AuthorProfile>> => {
+    const unique = [...new Set(ids.filter(Boolean))];
+    if (unique.length === 0) return new Map();
+    const { data, error } = await supabase.from("profiles").select(AUTHOR_COLUMNS).in("id", unique);
+    if (error) throw new Error(error.message);
+    return new Map(((data as AuthorProfile[]) || []).map((a) => [a.id, a]));
+  };
+
+  const withAuthors = async <T extends Post | Comment>(rows: T[], authorOf: (row: T) => string | undefined) => {
+    const authors = await fetchAuthors(rows.map((row) => authorOf(row) ?? ""));
+    return rows.map((row) => ({ ...row, author_profile: authors.get(authorOf(row) ?? "") ?? null }));
+  };
+
+  return {
+    auth: {
+      getSession: async () => {
+        const { data } = await supabase.auth.getSession();
+        return data.session;
+      },
+      onAuthStateChange: (callback) => {
+        const { data: listener } = supabase.auth.onAuthStateChange((event, session) => {
+          callback(event, session);
+        });
+        return () => listener.subscription.unsubscribe();
+      },
+      signInWithOAuth: async (provider) => {
+        const { error } = await supabase.auth.signInWithOAuth({
+          provider,
+          options: { redirectTo: window.location.origin },
+        });
+        if (error) throw new Error(error.message);
+      },
+      signInWithMagicLink: async (email) => {
+        const { error } = await supabase.auth.signInWithOtp({
+          email,
+          // Only applied when the link creates the account
+          options: { emailRedirectTo: window.location.origin, data: { user_name: email.split("@")[0] } },
+        });
+        if (error) throw new Error(error.message);
+      },
+      signInWithPassword: async (email, password) => {
+        const { error } = await supabase.auth.signInWithPassword({ email, password });
+        if (error) throw new Error(error.message);
+      },
+      signUp: async (email, password, userName) => {
+        const { data, error } = await supabase.auth.signUp({
+          email,
+          password,
+          options: { emailRedirectTo: window.location.origin, data: { user_name: userName } },
+        });
+        if (error) throw new Error(error.message);
+        return { confirmationRequired: !data.session };
+      },
+      sendPasswordReset: async (email) => {
+        const { error } = await supabase.auth.resetPasswordForEmail(email, {
+          redirectTo: `${window.location.origin}/reset-password`,
+        });
+        if (error) throw new Error(error.message);
+      },
+      updatePassword: async (password) => {
+        const { error } = await supabase.auth.updateUser({ password });
+        if (error) throw new Error(error.message);
+      },
+      signOut: async () => {
+        const { error } = await supabase.auth.signOut();
+        if (error) throw new Error(error.message);
+      },
+    },
+
+    account: {
+      deletion: async (userId) => {
+        const { data, error } = await supabase
+          .from("account_deletions")
+          .select("*")
+          .eq("user_id", userId)
+          .maybeSingle();
+
+        if (error) throw new Error(error.message);
+        return data as AccountDeletion | null;
+      },
+
+      // The grace period is set by the table's trigger, not the client
+      requestDeletion: async (userId) => {
+        const { data, error } = await supabase
+          .from("account_deletions")
+          .insert({ user_id: userId })
+          .select("*")
+          .single();
+
+        if (error) throw new Error(error.message);
+        return data as AccountDeletion;
+      },
+
+      cancelDeletion: async (userId) => {
+        const { error } = await supabase.from("account_deletions").delete().eq("user_id", userId);
+        if (error) throw new Error(error.message);
+      },
+    },
+
+    profiles: {
+      get: async (id) => {
+        const { data, error } = await supabase.from("profiles").select("*").eq("id", id).maybeSingle();
+        if (error) throw new Error(error.message);
+        return data as Profile | null;
+      },
+
+      getByUsername: async (username) => {
+        const { data, error } = await supabase
+          .from("profiles")
+          .select("*")
+          .eq("username", username.toLowerCase())
+          .maybeSingle();
+
+        if (error) throw new Error(error.message);
+        return data as Profile | null;
+      },
+
+      update: async (id, changes) => {
+        const { data, error } = await supabase
+          .from("profiles")
+          .update(changes)
+          .eq("id", id)
+          .select("*")
+          .single();
+
+        if (error) throw new Error(error.message);
+        return data as Profile;
+      },
+    },
+
+    follows: {
+      following: async (userId) => {
+        const { data, error } = await supabase.from("follows").select("followee_id").eq("follower_id", userId);
+        if (error) throw new Error(error.message);
+        return ((data as { followee_id: string }[]) || []).map((f) => f.followee_id);
+      },
+
+      counts: async (userId) => {
+        const [followers, following] = await Promise.all([
+          supabase.from("follows").select("follower_id", { count: "exact", head: true }).eq("followee_id", userId),
+          supabase.from("follows").select("followee_id", { count: "exact", head: true }).eq("follower_id", userId),
+        ]);
+        if (followers.error) throw new Error(followers.error.message);
+        if (following.error) throw new Error(following.error.message);
+        return { followers: followers.count ?? 0, following: following.count ?? 0 };
+      },
+
+      follow: async (followerId, followeeId) => {
+        const { error } = await supabase.from("follows").insert({ follower_id: followerId, followee_id: followeeId });
+        if (error) throw new Error(error.message);
+      },
+
+      unfollow: async (followerId, followeeId) => {
+        const { error } = await supabase
+          .from("follows")
+          .delete()
+          .eq("follower_id", followerId)
+          .eq("followee_id", followeeId);
+
+        if (error) throw new Error(error.message);
+      },
+    },
+
+    restrictions: {
+      list: async (userId) => {
+        const { data, error } = await supabase
+          .from("user_restrictions")
+          .select("target_id,kind,created_at")
+          .eq("user_id", userId)
+          .order("created_at", { ascending: false });
+
+        if (error) throw new Error(error.message);
+        const rows = (data || []) as UserRestriction[];
+        const profiles = await fetchAuthors(rows.map((r) => r.target_id));
+        return rows.map((r) => ({ ...r, profile: profiles.get(r.target_id) ?? null }));
+      },
+
+      set: async (userId, targetId, kind) => {
+        const { error } = await supabase
+          .from("user_restrictions")
+          .upsert({ user_id: userId, target_id: targetId, kind }, { onConflict: "user_id,target_id" });
+
+        if (error) throw new Error(error.message);
+      },
+
+      remove: async (userId, targetId) => {
+        const { error } = await supabase
+          .from("user_restrictions")
+          .delete()
+          .eq("user_id", userId)
+          .eq("target_id", targetId);
+
+        if (error) throw new Error(error.message);
+      },
+    },
+
+    roles: {
+      forUser: async (userId) => {
+        const [admins, moderators, bans] = await Promise.all([
+          supabase.from("site_admins").select("user_id").eq("user_id", userId),
+          supabase.from("community_moderators").select("community_id,role").eq("user_id", userId),
+          supabase.from("community_bans").select("community_id").eq("user_id", userId),
+        ]);
+        const error = admins.error ?? moderators.error ?? bans.error;
+        if (error) throw new Error(error.message);
+
+        const rows = (moderators.data || []) as Pick<CommunityModerator, "community_id" | "role">[];
+        return {
+          userId,
+          isSiteAdmin: (admins.data || []).length > 0,
+          communityRoles: Object.fromEntries(rows.map((m) => [m.community_id, m.role])),
+          bannedFrom: ((bans.data || []) as Pick<CommunityBan, "community_id">[]).map((b) => b.community_id),
+        };
+      },
+
+      moderators: async (communityId) => {
+        const { data, error } = await supabase
+          .from("community_moderators")
+          .select("*")
+          .eq("community_id", communityId)
+          .order("role", { ascending: false })
+          .order("created_at", { ascending: true });
+
+        if (error) throw new Error(error.message);
+        const authors = await fetchAuthors((data as CommunityModerator[]).map((m) => m.user_id));
+        return (data as CommunityModerator[]).map((m) => ({ ...m, profile: authors.get(m.user_id) ?? null }));
+      },
+
+      addModerator: async (communityId, userId) => {
+        const { error } = await supabase
+          .from("community_moderators")
+          .insert({ community_id: communityId, user_id: userId, role: "moderator" });
+        if (error) throw new Error(error.message);
+      },
+
+      removeModerator: async (communityId, userId) => {
+        const { error } = await supabase
+          .from("community_moderators")
+          .delete()
+          .eq("community_id", communityId)
+          .eq("user_id", userId)
+          .eq("role", "moderator");
+        if (error) throw new Error(error.message);
+      },
+
+      bans: async (communityId) => {
+        const { data, error } = await supabase
+          .from("community_bans")
+          .select("*")
+          .eq("community_id", communityId)
+          .order("created_at", { ascending: false });
+
+        if (error) throw new Error(error.message);
+        const authors = await fetchAuthors((data as CommunityBan[]).map((b) => b.user_id));
+        return (data as CommunityBan[]).map((b) => ({ ...b, profile: authors.get(b.user_id) ?? null }));
+      },
+
+      ban: async (communityId, userId, bannedBy, reason) => {
+        const { error } = await supabase
+          .from("community_bans")
+          .insert({ community_id: communityId, user_id: userId, banned_by: bannedBy, reason });
+        if (error) throw new Error(error.message);
+      },
+
+      unban: async (communityId, userId) => {
+        const { error } = await supabase
+          .from("community_bans")
+          .delete()
+          .eq("community_id", communityId)
+          .eq("user_id", userId);
+        if (error) throw new Error(error.message);
+      },
+    },
+
+    posts: {
+      list: async (filter: PostFilter) => {
+        let query = supabase
+          .from("posts")
+          .select(POST_COLUMNS)
+          .order("created_at", { ascending: false });
+        if (filter.communityId != null) query = query.eq("community_id", filter.communityId);
+        if (filter.communityIds) query = query.in("community_id", filter.communityIds);
+        if (filter.author) query = query.eq("author", filter.author);
+        query = filter.scheduled ? query.not("scheduled_for", "is", null) : query.is("scheduled_for", null);
+
+        const { data, error } = await query;
+        if (error) throw new Error(error.message);
+        const rows = (data as unknown as Post[]) || [];
+        const counts = await fetchPostCounts(rows.map((p) => p.id));
+        return withAuthors(withCounts(rows, counts), (p) => p.author);
+      },
+
+      feed: async ({ communityId, following, announcements, sortOrder, cursor, limit }) => {
+        const ascending = sortOrder === "oldest";
+        let query = supabase
+          // following_feed_posts narrows feed_posts to authors the caller follows
+          .from(following ? "following_feed_posts" : "feed_posts")
+          // Later pages would only count what is left after the cursor
+          .select("*", cursor ? undefined : { count: "exact" })
+          .order("created_at", { ascending })
+          .order("id", { ascending })
+          .limit(limit);
+        if (communityId != null) query = query.eq("community_id", communityId);
+        // Older rows may have no is_announcement at all
+        if (announcements === true) query = query.eq("is_announcement", true);
+        if (announcements === false) query = query.not("is_announcement", "is", true);
+        if (cursor) {
+          const op = ascending ? "gt" : "lt";
+          const ts = `"${cursor.created_at}"`;
+          query = query.or(`created_at.${op}.${ts},and(created_at.eq.${ts},id.${op}.${cursor.id})`);
+        }
+
+        const { data, count, error } = await query;
+        if (error) throw new Error(error.message);
+        const posts = await withAuthors(((data as FeedRow[]) || []).map(toFeedPost), (p) => p.author);
+        const last = posts[posts.length - 1];
+        const nextCursor: FeedCursor | null =
+          posts.length === limit ? { created_at: last.created_at, id: last.id } : null;
+        return { posts, nextCursor, total: cursor ? null : (count ?? 0) };
+      },
+
+      top: async (metric: PostMetric, limit) => {
+        const { data, error } = await supabase
+          .from("feed_posts")
+          .select("*")
+          .order(metric === "likes" ? "like_count" : "comment_count", { ascending: false })
+          .order("id", { ascending: false })
+          .limit(limit);
+
+        if (error) throw new Error(error.message);
+        return withAuthors(((data as FeedRow[]) || []).map(toFeedPost), (p) => p.author);
+      },
+
+      get: async (id) => {
+        const { data, error } = await supabase
+          .from("posts")
+          .select(POST_COLUMNS)
+          .eq("id", id)
+          .single();
+
+        if (error) throw new Error(error.message);
+        const [post] = await withAuthors([data as unknown as Post], (p) => p.author);
+        return post;
+      },
+
+      count: async (filter) => {
+        let query = supabase.from("posts").select("id", { count: "exact", head: true });
+        if (filter.communityId != null) query = query.eq("community_id", filter.communityId);
+        if (filter.communityIds) query = query.in("community_id", filter.communityIds);
+        if (filter.author) query = query.eq("author", filter.author);
+        query = filter.scheduled ? query.not("scheduled_for", "is", null) : query.is("scheduled_for", null);
+
+        const { count, error } = await query;
+        if (error) throw new Error(error.message);
+        return count || 0;
+      },
+
+      create: async (post) => {
+        const { error } = await supabase.from("posts").insert({ ...post, image_url: post.image_urls[0] ?? null });
+        if (error) throw new Error(error.message);
+      },
+
+      update: async (id, changes) => {
+        // Row-level security filters out rows the user may not change instead of failing
+        const { data, error } = await supabase.from("posts").update(changes).eq("id", id).select("id");
+        if (error) throw new Error(error.message);
+        if (!data?.length) throw new Error("You are not allowed to change this post");
+      },
+
+      edit: async (id, { title, content, image_urls }) => {
+        // The post_revisions trigger stamps edited_at and saves the new version
+        const { data, error } = await supabase
+          .from("posts")
+          .update({ title, content, image_urls, image_url: image_urls[0] ?? null })
+          .eq("id", id)
+          .select("id");
+        if (error) throw new Error(error.message);
+        if (!data?.length) throw new Error("You are not allowed to edit this post");
+      },
+
+      reschedule: async (id, scheduledFor) => {
+        // The scheduled_posts trigger moves created_at to the publish time
+        const { data, error } = await supabase
+          .from("posts")
+          .update({ scheduled_for: scheduledFor })
+          .eq("id", id)
+          .not("scheduled_for", "is", null)
+          .select("id");
+        if (error) throw new Error(error.message);
+        if (!data?.length) throw new Error("This post is not scheduled");
+      },
+
+      revisions: async (postId) => {
+        const { data, error } = await supabase
+          .from("post_revisions")
+          .select("*")
+          .eq("post_id", postId)
+          .order("created_at", { ascending: true })
+          .order("id", { ascending: true });
+
+        if (error) throw new Error(error.message);
+        return (data || []) as PostRevision[];
+      },
+
+      remove: async (id) => {
+        const { error } = await supabase.from("posts").delete().eq("id", id);
+        if (error) throw new Error(error.message);
+      },
+
+      removeMany: async (filter) => {
+        let query = supabase.from("posts").delete();
+        if (filter.communityId != null) query = query.eq("community_id", filter.communityId);
+        if (filter.communityIds) query = query.in("community_id", filter.communityIds);
+        if (filter.author) query = query.eq("author", filter.author);
+
+        const { error } = await query;
+        if (error) throw new Error(error.message);
+      },
+
+      search: async (term, limit) => {
+        const { data, error } = await supabase
+          .from("posts")
+          .select("id,title")
+          .is("scheduled_for", null)
+          .ilike("title", `%${term}%`)
+          .limit(limit);
+
+        if (error) throw new Error(error.message);
+        return (data || []) as Pick<Post, "id" | "title">[];
+      },
+    },
+
+    drafts: {
+      list: async (userId) => {
+        const { data, error } = await supabase
+          .from("post_drafts")
+          .select("id,title,content,community_id,is_announcement,updated_at")
+          .eq("user_id", userId)
+          .order("updated_at", { ascending: false });
+
+        if (error) throw new Error(error.message);
+        return (data || []) as PostDraft[];
+      },
+
+      save: async (userId, draft) => {
+        const { error } = await supabase.from("post_drafts").upsert({ ...draft, user_id: userId });
+        if (error) throw new Error(error.message);
+      },
+
+      remove: async (userId, id) => {
+        const { error } = await supabase.from("post_drafts").delete().eq("user_id", userId).eq("id", id);
+        if (error) throw new Error(error.message);
+      },
+    },
+
+    communities: {
+      list: async (filter) => {
+        let query = supabase
+          .from("communities")
+          .select("*")
+          .order("created_at", { ascending: false });
+        if (filter.author) query = query.eq("author", filter.author);
+
+        const { data, error } = await query;
+        if (error) throw new Error(error.message);
+        return data as Community[];
+      },
+
+      get: async (id) => {
+        const { data, error } = await supabase
+          .from("communities")
+          .select("*")
+          .eq("id", id)
+          .single();
+
+        if (error) throw new Error(error.message);
+        return data as Community;
+      },
+
+      postCounts: async () => {
+        const { data, error } = await supabase
+          .from("posts")
+          .select("id,community_id")
+          .not("community_id", "is", null)
+          .is("scheduled_for", null);
+        if (error) throw new Error(error.message);
+
+        const counts = new Map<number, number>();
+        ((data as { community_id: number }[]) || []).forEach((p) => {
+          counts.set(p.community_id, (counts.get(p.community_id) || 0) + 1);
+        });
+        return counts;
+      },
+
+      create: async (community) => {
+        const { error } = await supabase.from("communities").insert(community);
+        if (error) throw new Error(error.message);
+      },
+
+      update: async (id, changes) => {
+        const { data, error } = await supabase.from("communities").update(changes).eq("id", id).select("id");
+        if (error) throw new Error(error.message);
+        if (!data?.length) throw new Error("You are not allowed to edit this community");
+      },
+
+      removeMany: async (ids) => {
+        const { error } = await supabase.from("communities").delete().in("id", ids);
+        if (error) throw new Error(error.message);
+      },
+
+      search: async (term, limit) => {
+        const { data, error } = await supabase
+          .from("communities")
+          .select("id,name")
+          .ilike("name", `%${term}%`)
+          .limit(limit);
+
+        if (error) throw new Error(error.message);
+        return (data || []) as Pick<Community, "id" | "name">[];
+      },
+    },
+
+    comments: {
+      list: async (postId) => {
+        const { data, error } = await supabase
+          .from("comments")
+          .select("*")
+          .eq("post_id", postId)
+          .order("created_at", { ascending: true });
+
+        if (error) throw new Error(error.message);
+        return withAuthors(data as Comment[], (c) => c.user_id);
+      },
+
+      listByUser: async (userId) => {
+        const { data, error } = await supabase
+          .from("comments")
+          .select("*")
+          .eq("user_id", userId)
+          .order("created_at", { ascending: false });
+
+        if (error) throw new Error(error.message);
+        return withAuthors(data as Comment[], (c) => c.user_id);
+      },
+
+      create: async (comment) => {
+        const { error } = await supabase.from("comments").insert(comment);
+        if (error) throw new Error(error.message);
+      },
+    },
+
+    votes: {
+      summaries: async (postIds) => {
+        const { data, error } = await supabase.rpc("get_vote_summaries", { p_post_ids: postIds });
+        if (error) throw new Error(error.message);
+        // bigint aggregates arrive as numbers or strings depending on size
+        return ((data as Record<keyof VoteSummary, number | string | null>[]) || []).map((row) => ({
+          post_id: Number(row.post_id),
+          likes: Number(row.likes),
+          dislikes: Number(row.dislikes),
+          score: Number(row.score),
+          user_vote: row.user_vote == null ? null : Number(row.user_vote),
+        }));
+      },
+
+      listByUser: async (userId) => {
+        const { data, error } = await supabase.from("votes").select("id,post_id,user_id,vote").eq("user_id", userId);
+        if (error) throw new Error(error.message);
+        return (data || []) as Vote[];
+      },
+
+      // toggle_vote resolves the caller from the session, so userId is not sent.
+      cast: async (voteValue, postId) => {
+        const { error } = await supabase.rpc("toggle_vote", { p_post_id: postId, p_vote: voteValue });
+        if (error) throw new Error(error.message);
+      },
+    },
+
+    storage: {
+      upload: async (bucket, path, file, onProgress) => {
+        if (!onProgress) {
+          const { error } = await supabase.storage.from(bucket).upload(path, file);
+          if (error) throw new Error(error.message);
+          return;
+        }
+        // The signed URL is checked against the bucket's insert policy like a direct upload
+        const { data, error } = await supabase.storage.from(bucket).createSignedUploadUrl(path);
+        if (error) throw new Error(error.message);
+        await putWithProgress(data.signedUrl, file, onProgress);
+      },
+
+      getPublicUrl: (bucket, path) => supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl,
+
+      // Public URLs look like <url>/storage/v1/object/public/<bucket>/<path>
+      pathFromPublicUrl: (bucket, url) => {
+        const marker = `/storage/v1/object/public/${bucket}/`;
+        const index = url.indexOf(marker);
+        return index === -1 ? null : decodeURIComponent(url.slice(index + marker.length));
+      },
+
+      remove: async (bucket, paths) => {
+        const { error } = await supabase.storage.from(bucket).remove(paths);
+        if (error) throw new Error(error.message);
+      },
+    },
+
+    realtime: {
+      subscribe: <T extends { post_id: number }>(
+        table: string,
+        postId: number,
+        callback: (change: RowChange<T>) => void
+      ) => {
+        const channel = supabase
+          .channel(`${table}:${postId}:${++channelCount}`)
+          .on(
+            "postgres_changes",
+            { event: "*", schema: "public", table, filter: `post_id=eq.${postId}` },
+            (payload) => {
+              const next = payload.eventType === "DELETE" ? null : (payload.new as T);
+              const prev = payload.eventType === "INSERT" ? null : (payload.old as T);
+              // DELETE events are not filtered server-side
+              if ((next ?? prev)?.post_id !== postId) return;
+              callback({ type: payload.eventType, new: next, old: prev });
+            }
+          )
+          .subscribe();
+
+        return () => {
+          supabase.removeChannel(channel);
+        };
+      },
+    },
+  };
+};
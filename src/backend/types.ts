@@ -0,0 +1,187 @@
+import type { AuthChangeEvent, Provider, Session } from "@supabase/supabase-js";
+import type {
+  AccountDeletion,
+  Comment,
+  CommentInput,
+  Community,
+  CommunityBan,
+  CommunityInput,
+  CommunityModerator,
+  CommunityUpdate,
+  FeedPage,
+  FeedQuery,
+  FollowCounts,
+  Post,
+  PostFilter,
+  PostEdit,
+  PostDraft,
+  PostInput,
+  PostMetric,
+  PostRevision,
+  PostUpdate,
+  Profile,
+  ProfileUpdate,
+  RealtimeTable,
+  RestrictionKind,
+  RowChange,
+  UserRestriction,
+  UserRoles,
+  Vote,
+  VoteSummary,
+} from "../api/types";
+
+export type OAuthProvider = Provider;
+export type AuthEvent = AuthChangeEvent;
+
+export interface AuthBackend {
+  getSession: () => Promise<Session | null>;
+  /**
+   * Returns an unsubscribe function. A `SIGNED_OUT` the app did not ask for
+   * means the session could not be refreshed or was ended in another tab.
+   */
+  onAuthStateChange: (callback: (event: AuthEvent, session: Session | null) => void) => () => void;
+  signInWithOAuth: (provider: OAuthProvider) => Promise<void>;
+  /** Emails a one-time sign-in link, creating the account on first use. */
+  signInWithMagicLink: (email: string) => Promise<void>;
+  signInWithPassword: (email: string, password: string) => Promise<void>;
+  /** `confirmationRequired` is true when the account must be confirmed by email before signing in. */
+  signUp: (email: string, password: string, userName: string) => Promise<{ confirmationRequired: boolean }>;
+  /** Emails a link that signs the user in on the reset-password page. */
+  sendPasswordReset: (email: string) => Promise<void>;
+  /** Changes the signed-in user's password. */
+  updatePassword: (password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+export interface PostsBackend {
+  list: (filter: PostFilter) => Promise<Post[]>;
+  /** Keyset-paginated feed with like and comment counts joined in. */
+  feed: (query: FeedQuery) => Promise<FeedPage>;
+  /** The `limit` published posts with the most likes or comments. */
+  top: (metric: PostMetric, limit: number) => Promise<Post[]>;
+  get: (id: number) => Promise<Post>;
+  count: (filter: PostFilter) => Promise<number>;
+  create: (post: PostInput & { image_urls: string[] }) => Promise<void>;
+  update: (id: number, changes: PostUpdate) => Promise<void>;
+  /** Changes the post's title, content or images and records a new revision. Authors only. */
+  edit: (id: number, changes: PostEdit) => Promise<void>;
+  /** Every version of the post, oldest first. */
+  revisions: (postId: number) => Promise<PostRevision[]>;
+  /** Moves a scheduled post to another time, or publishes it now when `scheduledFor` is null. Authors only. */
+  reschedule: (id: number, scheduledFor: string | null) => Promise<void>;
+  remove: (id: number) => Promise<void>;
+  removeMany: (filter: PostFilter) => Promise<void>;
+  search: (term: string, limit: number) => Promise<Pick<Post, "id" | "title">[]>;
+}
+
+export interface CommunitiesBackend {
+  list: (filter: { author?: string }) => Promise<Community[]>;
+  get: (id: number) => Promise<Community>;
+  /** Number of posts per community id. */
+  postCounts: () => Promise<Map<number, number>>;
+  create: (community: CommunityInput) => Promise<void>;
+  update: (id: number, changes: CommunityUpdate) => Promise<void>;
+  removeMany: (ids: number[]) => Promise<void>;
+  search: (term: string, limit: number) => Promise<Pick<Community, "id" | "name">[]>;
+}
+
+export interface ProfilesBackend {
+  get: (id: string) => Promise<Profile | null>;
+  getByUsername: (username: string) => Promise<Profile | null>;
+  update: (id: string, changes: ProfileUpdate) => Promise<Profile>;
+}
+
+/** Site admins, community moderators and bans. Writes are checked by row-level policies. */
+export interface RolesBackend {
+  forUser: (userId: string) => Promise<UserRoles>;
+  /** Owners first, then moderators by appointment date. */
+  moderators: (communityId: number) => Promise<CommunityModerator[]>;
+  addModerator: (communityId: number, userId: string) => Promise<void>;
+  removeModerator: (communityId: number, userId: string) => Promise<void>;
+  /** Newest first. */
+  bans: (communityId: number) => Promise<CommunityBan[]>;
+  ban: (communityId: number, userId: string, bannedBy: string, reason: string | null) => Promise<void>;
+  unban: (communityId: number, userId: string) => Promise<void>;
+}
+
+/** Deletion with a grace period; a scheduled job purges accounts whose period has passed. */
+export interface AccountBackend {
+  deletion: (userId: string) => Promise<AccountDeletion | null>;
+  requestDeletion: (userId: string) => Promise<AccountDeletion>;
+  cancelDeletion: (userId: string) => Promise<void>;
+}
+
+export interface FollowsBackend {
+  /** Ids of the users `userId` follows. */
+  following: (userId: string) => Promise<string[]>;
+  counts: (userId: string) => Promise<FollowCounts>;
+  follow: (followerId: string, followeeId: string) => Promise<void>;
+  unfollow: (followerId: string, followeeId: string) => Promise<void>;
+}
+
+/** Users someone has muted or blocked. Only the user who set them can see them. */
+export interface RestrictionsBackend {
+  /** Newest first. */
+  list: (userId: string) => Promise<UserRestriction[]>;
+  /** Adds the restriction, or switches an existing one to `kind`. */
+  set: (userId: string, targetId: string, kind: RestrictionKind) => Promise<void>;
+  remove: (userId: string, targetId: string) => Promise<void>;
+}
+
+/** Drafts synced to the user's account; the client keeps its own copy too. */
+export interface DraftsBackend {
+  /** Most recently saved first. */
+  list: (userId: string) => Promise<PostDraft[]>;
+  /** Creates the draft or overwrites the saved one with the same id. */
+  save: (userId: string, draft: PostDraft) => Promise<void>;
+  remove: (userId: string, id: string) => Promise<void>;
+}
+
+export interface CommentsBackend {
+  list: (postId: number) => Promise<Comment[]>;
+  /** Newest first. */
+  listByUser: (userId: string) => Promise<Comment[]>;
+  create: (comment: CommentInput) => Promise<void>;
+}
+
+export interface VotesBackend {
+  /** One summary per requested post, including posts nobody has voted on. */
+  summaries: (postIds: number[], userId: string | null) => Promise<VoteSummary[]>;
+  listByUser: (userId: string) => Promise<Vote[]>;
+  /** Atomically adds the vote, switches it, or removes it when the same value is cast twice. */
+  cast: (voteValue: number, postId: number, userId: string) => Promise<void>;
+}
+
+export interface StorageBackend {
+  /** `onProgress` receives the fraction of the file sent so far. */
+  upload: (bucket: string, path: string, file: File, onProgress?: (fraction: number) => void) => Promise<void>;
+  getPublicUrl: (bucket: string, path: string) => string;
+  /** The inverse of `getPublicUrl`; null for URLs that point anywhere else. */
+  pathFromPublicUrl: (bucket: string, url: string) => string | null;
+  remove: (bucket: string, paths: string[]) => Promise<void>;
+}
+
+export interface RealtimeBackend {
+  /** Streams changes to rows of `table` that belong to `postId`. Returns an unsubscribe function. */
+  subscribe: <T extends { post_id: number }>(
+    table: RealtimeTable,
+    postId: number,
+    callback: (change: RowChange<T>) => void
+  ) => () => void;
+}
+
+export interface Backend {
+  auth: AuthBackend;
+  account: AccountBackend;
+  profiles: ProfilesBackend;
+  follows: FollowsBackend;
+  restrictions: RestrictionsBackend;
+  roles: RolesBackend;
+  posts: PostsBackend;
+  drafts: DraftsBackend;
+  communities: CommunitiesBackend;
+  comments: CommentsBackend;
+  votes: VotesBackend;
+  storage: StorageBackend;
+  realtime: RealtimeBackend;
+}
@@ -0,0 +1,18 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { takeReturnTo } from "../authRedirect";
+import { useAuth } from "../context/AuthContext";
+
+/** Finishes a sign-in started from a protected page by returning to that page. */
+export const AuthRedirect = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!user) return;
+    const path = takeReturnTo();
+    if (path) navigate(path, { replace: true });
+  }, [user, navigate]);
+
+  return null;
+};
@@ -0,0 +1,44 @@
+import { Link, useNavigate } from "react-router-dom";
+import { authorName, profilePath, type AuthorProfile } from "../api";
+
+interface Props {
+  profile?: AuthorProfile | null;
+  /** Shown as plain text when there is no profile, e.g. the name copied onto old comments. */
+  fallback?: string;
+  className?: string;
+  /** Set when rendered inside another link, where a nested <a> is not allowed. */
+  insideLink?: boolean;
+}
+
+export const AuthorLink = ({ profile, fallback = "Unknown user", className = "", insideLink = false }: Props) => {
+  const navigate = useNavigate();
+
+  if (!profile) return <span className={className}>{fallback}</span>;
+
+  const linkClassName = `hover:underline hover:text-teal transition-colors duration-200 ${className}`;
+
+  if (insideLink) {
+    const open = (e: React.SyntheticEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      navigate(profilePath(profile.username));
+    };
+    return (
+      <span
+        role="link"
+        tabIndex={0}
+        onClick={open}
+        onKeyDown={(e) => e.key === "Enter" && open(e)}
+        className={`cursor-pointer ${linkClassName}`}
+      >
+        {authorName(profile)}
+      </span>
+    );
+  }
+
+  return (
+    <Link to={profilePath(profile.username)} className={linkClassName}>
+      {authorName(profile)}
+    </Link>
+  );
+};
@@ -0,0 +1,101 @@
+import { useEffect, useMemo, useState } from "react";
+import type { HighlightedCode } from "../highlight";
+import { toast } from "../notifications";
+
+// "{3-5}" or "{1,4-6}" anywhere in the fence's info string after the language
+const parseHighlightedLines = (meta?: string | null): Set<number> => {
+  const lines = new Set<number>();
+  const ranges = meta?.match(/\{([\d\s,-]+)\}/)?.[1];
+  if (!ranges) return lines;
+  for (const range of ranges.split(",")) {
+    const [from, to = from] = range.split("-").map((n) => Number(n.trim()));
+    if (!Number.isInteger(from) || !Number.isInteger(to)) continue;
+    for (let line = from; line <= to; line++) lines.add(line);
+  }
+  return lines;
+};
+
+interface Props {
+  code: string;
+  language?: string;
+  /** The rest of the fence's info string, e.g. "{3-5}" */
+  meta?: string | null;
+}
+
+/** A fenced code block from a post. */
+export const CodeBlock = ({ code, language, meta }: Props) => {
+  const [highlighted, setHighlighted] = useState<HighlightedCode | null>(null);
+  const [copied, setCopied] = useState<boolean>(false);
+
+  useEffect(() => {
+    let mounted = true;
+    import("../highlight").then(({ highlightCode }) => {
+      if (mounted) setHighlighted(highlightCode(code, language));
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [code, language]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const highlightedLines = useMemo(() => parseHighlightedLines(meta), [meta]);
+  // Plain lines until the highlighter has loaded, so nothing shifts when it does
+  const lines = highlighted?.lines ?? code.split("\n").map((text) => [{ text, className: undefined }]);
+  const label = highlighted?.language ?? language;
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+    } catch {
+      toast.error("Couldn't copy to the clipboard");
+    }
+  };
+
+  return (
+    <div className="rounded-xl overflow-hidden shadow-lg border border-deepteal/40 bg-[#0d1117] text-sm">
+      <div className="flex items-center justify-between px-4 py-2 bg-white/5 border-b border-white/10">
+        <span className="font-mono text-xs uppercase tracking-wide text-gray-400">{label ?? "text"}</span>
+        <button
+          type="button"
+          onClick={copy}
+          className="font-mono text-xs px-2 py-1 rounded-md text-gray-300 hover:text-white hover:bg-white/10 transition-colors duration-200"
+          aria-label="Copy code"
+        >
+          {copied ? "Copied!" : "Copy"}
+        </button>
+      </div>
+      <pre className="hljs overflow-x-auto py-3">
+        <code className="font-mono block min-w-max">
+          {lines.map((tokens, i) => {
+            const isHighlighted = highlightedLines.has(i + 1);
+            return (
+              <span
+                key={i}
+                className={`flex pr-4 border-l-2 ${isHighlighted ? "bg-teal/20 border-mint" : "border-transparent"}`}
+              >
+                <span className="select-none w-12 shrink-0 pr-4 text-right text-gray-500" aria-hidden="true">
+                  {i + 1}
+                </span>
+                <span>
+                  {tokens.map((token, j) => (
+                    <span key={j} className={token.className}>
+                      {token.text}
+                    </span>
+                  ))}
+                  {/* Keeps empty lines one line tall */}
+                  {tokens.length === 0 && "\n"}
+                </span>
+              </span>
+            );
+          })}
+        </code>
+      </pre>
+    </div>
+  );
+};
@@ -1,57 +1,32 @@
 import { useState } from "react";
-import type { Comment } from "./CommentSection";
+import type { Comment, CommentInput } from "../api";
 import { useAuth } from "../context/AuthContext";
-import { supabase } from "../supabase-client";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
+import { useCurrentProfile } from "../hooks/useCurrentProfile";
+import { mutationKeys } from "../queryClient";
+import { AuthorLink } from "./AuthorLink";
 
 interface Props {
   comment: Comment & {
     children?: Comment[];
   };
   postId: number;
+  /** False on locked posts and for users banned from the community. */
+  canReply: boolean;
 }
 
-const createReply = async (
-  replyContent: string,
-  postId: number,
-  parentCommentId: number,
-  userId?: string,
-  author?: string
-) => {
-  if (!userId || !author) {
-    throw new Error("You must be logged in to reply.");
-  }
-
-  const { error } = await supabase.from("comments").insert({
-    post_id: postId,
-    content: replyContent,
-    parent_comment_id: parentCommentId,
-    user_id: userId,
-    author: author,
-  });
-
-  if (error) throw new Error(error.message);
-};
-
-export const CommentItem = ({ comment, postId }: Props) => {
+export const CommentItem = ({ comment, postId, canReply }: Props) => {
   const [showReply, setShowReply] = useState<boolean>(false);
   const [replyText, setReplyText] = useState<string>("");
   const [isCollapsed, setIsCollapsed] = useState<boolean>(false);
 
   const { user } = useAuth();
-  const queryClient = useQueryClient();
+  const { data: profile } = useCurrentProfile();
+  const authorLabel = profile?.username ?? user?.user_metadata?.user_name;
 
-  const { mutate, isPending, isError, isSuccess } = useMutation({
-    mutationFn: (replyContent: string) =>
-      createReply(
-        replyContent,
-        postId,
-        comment.id,
-        user?.id,
-        user?.user_metadata?.user_name
-      ),
+  const { mutate, isPending, isPaused } = useMutation<void, Error, CommentInput>({
+    mutationKey: mutationKeys.createComment,
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["comments", postId] });
       setReplyText("");
       setShowReply(false);
     },
@@ -59,8 +34,14 @@ export const CommentItem = ({ comment, postId }: Props) => {
 
   const handleReplySubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!replyText.trim()) return;
-    mutate(replyText);
+    if (!replyText.trim() || !user || !authorLabel || !canReply) return;
+    mutate({
+      post_id: postId,
+      content: replyText,
+      parent_comment_id: comment.id,
+      user_id: user.id,
+      author: authorLabel,
+    });
   };
 
   const isOwnComment = comment.user_id === user?.id;
@@ -89,9 +70,9 @@ export const CommentItem = ({ comment, postId }: Props) => {
               <div className="flex items-center space-x-3">
                 {/* Avatar */}
                 <div className="relative">
-                  {isOwnComment && user?.user_metadata?.avatar_url ? (
+                  {comment.author_profile?.avatar_url ? (
                     <img
-                      src={user.user_metadata.avatar_url}
+                      src={comment.author_profile.avatar_url}
                       alt="avatar"
                       className="w-8 h-8 rounded-full object-cover border-2 border-teal/30 shadow-md"
                     />
@@ -108,9 +89,11 @@ export const CommentItem = ({ comment, postId }: Props) => {
                 {/* User info */}
                 <div className="flex items-center space-x-3">
                   <div className="flex items-center space-x-2">
-                    <span className={`text-sm font-mono font-medium ${isOwnComment ? 'text-teal' : 'text-mediumteal dark:text-mint'}`}>
-                      {comment.author}
-                    </span>
+                    <AuthorLink
+                      profile={comment.author_profile}
+                      fallback={comment.author}
+                      className={`text-sm font-mono font-medium ${isOwnComment ? 'text-teal' : 'text-mediumteal dark:text-mint'}`}
+                    />
                     {isOwnComment && (
                       <div className="px-1.5 py-0.5 bg-teal/10 border border-teal/20 rounded text-xs font-mono text-teal">
                         You
@@ -154,19 +137,21 @@ export const CommentItem = ({ comment, postId }: Props) => {
 
             {/* Actions */}
             <div className="pl-11 flex items-center space-x-4">
-              <button
-                onClick={() => setShowReply(!showReply)}
-                className={`inline-flex items-center space-x-2 px-3 py-1.5 rounded-lg font-mono text-sm transition-all duration-200 ${
-                  showReply
-                    ? 'bg-teal/20 border border-teal/30 text-teal hover:bg-teal/30'
-                    : 'bg-mint/10 dark:bg-sage/10 border border-mint/20 dark:border-sage/20 text-mediumteal dark:text-mint hover:bg-mint/20 dark:hover:bg-sage/20 hover:border-mediumteal/30'
-                }`}
-              >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
-                </svg>
-                <span>{showReply ? "Cancel" : "Reply"}</span>
-              </button>
+              {canReply && (
+                <button
+                  onClick={() => setShowReply(!showReply)}
+                  className={`inline-flex items-center space-x-2 px-3 py-1.5 rounded-lg font-mono text-sm transition-all duration-200 ${
+                    showReply
+                      ? 'bg-teal/20 border border-teal/30 text-teal hover:bg-teal/30'
+                      : 'bg-mint/10 dark:bg-sage/10 border border-mint/20 dark:border-sage/20 text-mediumteal dark:text-mint hover:bg-mint/20 dark:hover:bg-sage/20 hover:border-mediumteal/30'
+                  }`}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+                  </svg>
+                  <span>{showReply ? "Cancel" : "Reply"}</span>
+                </button>
+              )}
 
               {/* Collapse button for replies */}
               {hasReplies && (
@@ -186,7 +171,7 @@ export const CommentItem = ({ comment, postId }: Props) => {
         </div>
 
         {/* Reply form */}
-        {showReply && user && (
+        {showReply && user && canReply && (
           <div className="mt-4 ml-11 space-y-4">
             <div className="relative overflow-hidden rounded-xl bg-gradient-to-br from-teal/5 via-mint/8 to-sage/5 dark:from-teal/10 dark:via-mediumteal/5 dark:to-sage/5 backdrop-blur-md border border-teal/20 dark:border-teal/30 shadow-lg">
               {/* Reply form background gradient */}
@@ -234,34 +219,14 @@ export const CommentItem = ({ comment, postId }: Props) => {
                     {isPending && (
                       <div className="w-4 h-4 border-2 border-tcream/30 border-t-tcream rounded-full animate-spin"></div>
                     )}
-                    {isPending ? "Posting..." : "Post Reply"}
+                    {isPaused ? "Queued..." : isPending ? "Posting..." : "Post Reply"}
                     {!isPending && (
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
                       </svg>
                     )}
                   </button>
-
-                  {/* Success indicator */}
-                  {isSuccess && (
-                    <div className="flex items-center space-x-2 text-teal">
-                      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
-                        <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                      </svg>
-                      <span className="text-sm font-mono">Replied!</span>
-                    </div>
-                  )}
                 </div>
-
-                {/* Error message */}
-                {isError && (
-                  <div className="flex items-center gap-2 bg-red-500/10 border border-red-500/20 rounded-lg p-3">
-                    <div className="w-5 h-5 border-2 border-red-500 rounded-full flex items-center justify-center">
-                      <span className="text-red-500 text-xs font-bold">!</span>
-                    </div>
-                    <p className="font-mono text-red-400 text-sm">Failed to post reply. Please try again.</p>
-                  </div>
-                )}
               </form>
             </div>
           </div>
@@ -281,7 +246,7 @@ export const CommentItem = ({ comment, postId }: Props) => {
 
             {comment.children?.map((child, index) => (
               <div key={child.id || index} className="relative">
-                <CommentItem comment={child} postId={postId} />
+                <CommentItem comment={child} postId={postId} canReply={canReply} />
               </div>
             ))}
           </div>
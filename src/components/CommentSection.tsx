@@ -1,92 +1,61 @@
 import { useState } from "react";
 import { useAuth } from "../context/AuthContext";
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { supabase } from "../supabase-client";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { authorName, fetchComments, type Comment, type CommentInput, type Post } from "../api";
 import { CommentItem } from "./CommentItem";
+import { useCurrentProfile } from "../hooks/useCurrentProfile";
+import { usePermissions } from "../hooks/usePermissions";
+import { useRestrictions } from "../hooks/useRestrictions";
+import { useCommentsRealtime } from "../hooks/useRealtime";
+import { mutationKeys } from "../queryClient";
 
 interface Props {
-  postId: number;
+  post: Post;
 }
 
-interface NewComment {
-  content: string;
-  parent_comment_id?: number | null;
-}
-
-export interface Comment {
-  id: number;
-  post_id: number;
-  parent_comment_id: number | null;
-  content: string;
-  user_id: string;
-  created_at: string;
-  author: string;
-}
-
-const createComment = async (
-  newComment: NewComment,
-  postId: number,
-  userId?: string,
-  author?: string
-) => {
-  if (!userId || !author) {
-    throw new Error("You must be logged in to comment.");
-  }
-
-  const { error } = await supabase.from("comments").insert({
-    post_id: postId,
-    content: newComment.content,
-    parent_comment_id: newComment.parent_comment_id || null,
-    user_id: userId,
-    author: author,
-  });
-
-  if (error) throw new Error(error.message);
-};
-
-const fetchComments = async (postId: number): Promise<Comment[]> => {
-  const { data, error } = await supabase
-    .from("comments")
-    .select("*")
-    .eq("post_id", postId)
-    .order("created_at", { ascending: true });
-
-  if (error) throw new Error(error.message);
-  return data as Comment[];
-};
-
-export const CommentSection = ({ postId }: Props) => {
+export const CommentSection = ({ post }: Props) => {
+  const postId = post.id;
   const [newCommentText, setNewCommentText] = useState<string>("");
   const { user } = useAuth();
-  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canComment = can("post.comment", post);
+  const { data: profile } = useCurrentProfile();
+  const authorLabel = profile?.username ?? user?.user_metadata?.user_name;
 
   const {
-    data: comments,
+    data: allComments,
     isLoading,
     error,
   } = useQuery<Comment[], Error>({
     queryKey: ["comments", postId],
     queryFn: () => fetchComments(postId),
-    refetchInterval: 5000,
   });
 
-  const { mutate, isPending, isError, isSuccess } = useMutation({
-    mutationFn: (newComment: NewComment) =>
-      createComment(
-        newComment,
-        postId,
-        user?.id,
-        user?.user_metadata?.user_name
-      ),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["comments", postId] });
-    },
+  // Comments by muted and blocked users are dropped together with the replies under them
+  const { isHidden } = useRestrictions();
+  const comments = allComments?.filter((c) => !isHidden(c.user_id));
+
+  const { pendingComments, revealPending } = useCommentsRealtime(postId, user?.id);
+  // A refetch may already have brought some of the held-back comments in
+  const newComments = pendingComments.filter(
+    (p) => !isHidden(p.user_id) && !comments?.some((c) => c.id === p.id)
+  );
+
+  // Queued while offline; invalidation lives in the mutation defaults
+  const { mutate, isPending, isPaused } = useMutation<void, Error, CommentInput>({
+    mutationKey: mutationKeys.createComment,
   });
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newCommentText.trim()) return;
-    mutate({ content: newCommentText, parent_comment_id: null });
+    if (!newCommentText.trim() || !user || !authorLabel || !canComment) return;
+    mutate({
+      post_id: postId,
+      content: newCommentText,
+      parent_comment_id: null,
+      user_id: user.id,
+      author: authorLabel,
+    });
     setNewCommentText("");
   };
 
@@ -196,7 +165,18 @@ export const CommentSection = ({ postId }: Props) => {
       </div>
 
       {/* Comment Form */}
-      {user ? (
+      {user && !canComment ? (
+        <div className="flex items-center gap-3 rounded-2xl bg-orange-500/10 border border-orange-500/20 p-6">
+          <svg className="w-5 h-5 text-orange-400 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+          </svg>
+          <p className="font-mono text-sm text-orange-400">
+            {post.is_locked
+              ? "This post is locked. New comments are turned off."
+              : "You are banned from this community and cannot comment."}
+          </p>
+        </div>
+      ) : user ? (
         <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-tcream/5 via-mint/10 to-sage/5 dark:from-deepteal/20 dark:via-mediumteal/10 dark:to-sage/5 backdrop-blur-lg border border-mint/20 dark:border-sage/10 shadow-2xl">
           {/* Background gradient */}
           <div className="absolute inset-0 bg-gradient-to-r from-mediumteal/0 via-sage/5 to-mint/0 opacity-50"></div>
@@ -209,9 +189,9 @@ export const CommentSection = ({ postId }: Props) => {
             <div className="flex items-center space-x-3 mb-4">
               {/* User avatar */}
               <div className="relative">
-                {user?.user_metadata?.avatar_url ? (
+                {profile?.avatar_url ? (
                   <img
-                    src={user.user_metadata.avatar_url}
+                    src={profile.avatar_url}
                     alt="Your avatar"
                     className="w-10 h-10 rounded-full object-cover border-2 border-teal/30 shadow-md"
                   />
@@ -227,7 +207,7 @@ export const CommentSection = ({ postId }: Props) => {
 
               <div>
                 <p className="font-mono font-medium text-deepteal dark:text-tcream">
-                  {user.user_metadata?.user_name || 'Anonymous'}
+                  {profile ? authorName(profile) : authorLabel || 'Anonymous'}
                 </p>
                 <p className="text-xs font-mono text-mediumteal dark:text-sage">
                   Share your thoughts on this post
@@ -267,7 +247,7 @@ export const CommentSection = ({ postId }: Props) => {
                 {isPending && (
                   <div className="w-4 h-4 border-2 border-tcream/30 border-t-tcream rounded-full animate-spin"></div>
                 )}
-                {isPending ? "Posting..." : "Post Comment"}
+                {isPaused ? "Queued..." : isPending ? "Posting..." : "Post Comment"}
                 {!isPending && (
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
@@ -276,23 +256,11 @@ export const CommentSection = ({ postId }: Props) => {
               </button>
             </div>
 
-            {/* Success message */}
-            {isSuccess && (
-              <div className="flex items-center gap-2 text-teal text-sm font-mono">
-                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
-                  <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                </svg>
-                <span>Comment posted!</span>
-              </div>
-            )}
-
-            {/* Error message */}
-            {isError && (
-              <div className="flex items-center gap-2 bg-red-500/10 border border-red-500/20 rounded-lg p-3">
-                <div className="w-5 h-5 border-2 border-red-500 rounded-full flex items-center justify-center">
-                  <span className="text-red-500 text-xs font-bold">!</span>
-                </div>
-                <p className="font-mono text-red-400 text-sm">Failed to post comment. Please try again.</p>
+            {/* Queued message */}
+            {isPaused && (
+              <div className="flex items-center gap-2 text-mediumteal dark:text-mint text-sm font-mono">
+                <div className="w-4 h-4 border-2 border-mediumteal/30 border-t-mediumteal rounded-full animate-spin"></div>
+                <span>You're offline. Your comment will be posted once you reconnect.</span>
               </div>
             )}
           </form>
@@ -319,6 +287,23 @@ export const CommentSection = ({ postId }: Props) => {
         </div>
       )}
 
+      {/* New comments banner */}
+      {newComments.length > 0 && (
+        <div className="sticky top-24 z-20 flex justify-center">
+          <button
+            type="button"
+            onClick={revealPending}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-gradient-to-r from-teal to-mediumteal text-tcream font-mono text-sm shadow-lg hover:shadow-xl transition-all duration-200 hover:-translate-y-0.5"
+          >
+            <div className="w-2 h-2 bg-tcream rounded-full animate-pulse"></div>
+            {newComments.length} new {newComments.length === 1 ? "comment" : "comments"}
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 14l-7 7m0 0l-7-7m7 7V3" />
+            </svg>
+          </button>
+        </div>
+      )}
+
       {/* Comments List */}
       {commentTree.length > 0 ? (
         <div className="space-y-6">
@@ -344,7 +329,7 @@ export const CommentSection = ({ postId }: Props) => {
                 className="relative"
                 style={{ animationDelay: `${index * 100}ms` }}
               >
-                <CommentItem comment={comment} postId={postId} />
+                <CommentItem comment={comment} postId={postId} canReply={canComment} />
               </div>
             ))}
           </div>
@@ -1,80 +1,37 @@
 import { useQuery } from "@tanstack/react-query";
-import { useMemo, useState } from "react";
-import type { Post } from "./PostList";
-import { supabase } from "../supabase-client";
+import { useState } from "react";
+import { fetchCommunityById, type Community } from "../api";
 import { PostItem } from "./PostItem";
+import { useFeed } from "../hooks/useFeed";
+import { FeedLoadMore } from "./FeedLoadMore";
+import { CommunityModeration } from "./CommunityModeration";
 
 interface Props {
   communityId: number;
 }
 
-interface PostWithCommunity extends Post {
-  communities: {
-    name: string;
-  };
-}
-
-const fetchCommunityPost = async (
-  communityId: number
-): Promise<PostWithCommunity[]> => {
-  const [{ data: countsData, error: countsErr }, { data: baseData, error: baseErr }] = await Promise.all([
-    supabase.rpc("get_posts_with_counts"),
-    supabase
-      .from("posts")
-      .select("id,title,content,created_at,image_url,avatar_url,is_announcement,author,community_id,communities(name)")
-      .eq("community_id", communityId)
-      .order("created_at", { ascending: false }),
-  ]);
-  if (countsErr) throw new Error(countsErr.message);
-  if (baseErr) throw new Error(baseErr.message);
-  const countsById = new Map<number, any>(
-    ((countsData as any[]) || []).map((p) => [p.id as number, p])
-  );
-  const merged: PostWithCommunity[] = ((baseData as any[]) || []).map((p: any) => {
-    const c = countsById.get(p.id) || {};
-    return {
-      ...p,
-      like_count: c.like_count ?? 0,
-      comment_count: c.comment_count ?? 0,
-    } as PostWithCommunity;
-  });
-  return merged;
-};
-
-const fetchCommunityInfo = async (
-  communityId: number
-): Promise<{ name: string } | null> => {
-  const { data, error } = await supabase
-    .from("communities")
-    .select("name")
-    .eq("id", communityId)
-    .single();
-  if (error) return null;
-  return data as { name: string };
-};
-
 export const CommunityDisplay = ({ communityId }: Props) => {
   const [sortOrder, setSortOrder] = useState<"newest" | "oldest">("newest");
-  const { data, error, isLoading } = useQuery<PostWithCommunity[], Error>({
-    queryKey: ["communityPost", communityId],
-    queryFn: () => fetchCommunityPost(communityId),
-  });
+  // Pinned announcements are paged apart from the other posts, so older ones
+  // stay pinned instead of waiting for the page they would fall on
+  const pinned = useFeed(sortOrder, { communityId, announcements: true });
+  const {
+    posts: regularPosts,
+    total,
+    error,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useFeed(sortOrder, { communityId, announcements: false });
+  const announcements = pinned.posts;
 
-  const { data: communityInfo } = useQuery<{ name: string } | null, Error>({
+  const { data: communityInfo } = useQuery<Community | null, Error>({
     queryKey: ["communityInfo", communityId],
-    queryFn: () => fetchCommunityInfo(communityId),
+    queryFn: () => fetchCommunityById(communityId).catch(() => null),
   });
 
-  const sorted = useMemo(() => {
-    const list = [...(data || [])];
-    return list.sort((a, b) => {
-      const aTime = new Date(a.created_at).getTime();
-      const bTime = new Date(b.created_at).getTime();
-      return sortOrder === "newest" ? bTime - aTime : aTime - bTime;
-    });
-  }, [data, sortOrder]);
-
-  if (isLoading) {
+  if (isLoading || pinned.isLoading) {
     return (
       <div className="flex items-center justify-center py-16">
         <div className="relative">
@@ -88,7 +45,7 @@ export const CommunityDisplay = ({ communityId }: Props) => {
     );
   }
 
-  if (error) {
+  if (error || pinned.error) {
     return (
       <div className="flex items-center justify-center py-16">
         <div className="bg-red-500/10 border border-red-500/20 backdrop-blur-lg rounded-xl p-8 max-w-lg">
@@ -98,7 +55,7 @@ export const CommunityDisplay = ({ communityId }: Props) => {
             </div>
             <div>
               <h3 className="text-red-400 font-semibold font-mono">Community Load Error</h3>
-              <p className="text-red-300 text-sm font-mono mt-1">{error.message}</p>
+              <p className="text-red-300 text-sm font-mono mt-1">{(error ?? pinned.error)?.message}</p>
             </div>
           </div>
         </div>
@@ -106,11 +63,8 @@ export const CommunityDisplay = ({ communityId }: Props) => {
     );
   }
 
-  const communityName = communityInfo?.name || (data && data.length > 0 && data[0]?.communities?.name) || "Community";
-  
-  // Separate announcements from regular posts
-  const announcements = sorted?.filter(post => post.is_announcement) || [];
-  const regularPosts = sorted?.filter(post => !post.is_announcement) || [];
+  const communityName =
+    communityInfo?.name || (announcements[0] ?? regularPosts[0])?.communities?.name || "Community";
 
   return (
     <div className="max-w-7xl mx-auto space-y-10">
@@ -157,12 +111,12 @@ export const CommunityDisplay = ({ communityId }: Props) => {
               {/* Stats */}
               <div className="flex items-center space-x-4">
                 <div className="px-4 py-2 bg-mediumteal/10 border border-mediumteal/20 rounded-full">
-                  <span className="text-mediumteal text-sm font-mono">{sorted?.length || 0} posts</span>
+                  <span className="text-mediumteal text-sm font-mono">{total + pinned.total} posts</span>
                 </div>
                 
-                {announcements.length > 0 && (
+                {pinned.total > 0 && (
                   <div className="px-4 py-2 bg-orange-500/10 border border-orange-500/20 rounded-full">
-                    <span className="text-orange-400 text-sm font-mono">{announcements.length} pinned</span>
+                    <span className="text-orange-400 text-sm font-mono">{pinned.total} pinned</span>
                   </div>
                 )}
               </div>
@@ -174,6 +128,8 @@ export const CommunityDisplay = ({ communityId }: Props) => {
         <div className="absolute bottom-0 left-0 right-0 h-px bg-gradient-to-r from-transparent via-mediumteal/60 to-transparent"></div>
       </div>
 
+      {communityInfo && <CommunityModeration community={communityInfo} />}
+
       {/* Controls Section */}
       <div className="flex items-center justify-between">
         <div className="flex items-center space-x-4">
@@ -189,7 +145,7 @@ export const CommunityDisplay = ({ communityId }: Props) => {
           </label>
           <select
             value={sortOrder}
-            onChange={(e) => setSortOrder(e.target.value as any)}
+            onChange={(e) => setSortOrder(e.target.value as "newest" | "oldest")}
             className="appearance-none bg-tcream/10 dark:bg-deepteal/30 backdrop-blur-md border border-mint/30 dark:border-sage/20 rounded-xl px-4 py-2 pr-10 text-deepteal dark:text-tcream text-sm font-mono focus:outline-none focus:ring-2 focus:ring-mediumteal/50 focus:border-transparent shadow-lg hover:shadow-xl transition-all duration-200"
           >
             <option value="newest">Newest first</option>
@@ -233,6 +189,13 @@ export const CommunityDisplay = ({ communityId }: Props) => {
               </div>
             ))}
           </div>
+          {pinned.hasNextPage && (
+            <FeedLoadMore
+              hasNextPage={pinned.hasNextPage}
+              isFetchingNextPage={pinned.isFetchingNextPage}
+              fetchNextPage={pinned.fetchNextPage}
+            />
+          )}
         </div>
       )}
 
@@ -267,7 +230,7 @@ export const CommunityDisplay = ({ communityId }: Props) => {
       )}
 
       {/* Empty state */}
-      {sorted && sorted.length === 0 && (
+      {announcements.length === 0 && regularPosts.length === 0 && (
         <div className="text-center py-20">
           <div className="w-32 h-32 mx-auto mb-8 bg-gradient-to-br from-mint/20 via-sage/20 to-mediumteal/20 rounded-full flex items-center justify-center relative overflow-hidden">
             <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent animate-pulse"></div>
@@ -290,6 +253,12 @@ export const CommunityDisplay = ({ communityId }: Props) => {
           </div>
         </div>
       )}
+
+      <FeedLoadMore
+        hasNextPage={hasNextPage}
+        isFetchingNextPage={isFetchingNextPage}
+        fetchNextPage={fetchNextPage}
+      />
     </div>
   );
 };
\ No newline at end of file
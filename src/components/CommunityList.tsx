@@ -1,25 +1,8 @@
 import { useQuery } from "@tanstack/react-query";
 import { useMemo, useState } from "react";
-import { supabase } from "../supabase-client";
+import { fetchCommunities, type Community } from "../api";
 import { Link } from "react-router";
 
-export interface Community {
-  id: number;
-  name: string;
-  description: string;
-  created_at: string;
-}
-
-export const fetchCommunities = async (): Promise<Community[]> => {
-  const { data, error } = await supabase
-    .from("communities")
-    .select("*")
-    .order("created_at", { ascending: false });
-
-  if (error) throw new Error(error.message);
-  return data as Community[];
-};
-
 export const CommunityList = () => {
   const [sortBy, setSortBy] = useState<"alphabetical" | "newest" | "oldest">("alphabetical");
   const { data, error, isLoading } = useQuery<Community[], Error>({
@@ -90,7 +73,7 @@ export const CommunityList = () => {
         <div className="relative">
           <select
             value={sortBy}
-            onChange={(e) => setSortBy(e.target.value as any)}
+            onChange={(e) => setSortBy(e.target.value as "alphabetical" | "newest" | "oldest")}
             className="appearance-none bg-tcream/10 dark:bg-deepteal/30 backdrop-blur-md border border-mint/30 dark:border-sage/20 rounded-xl px-4 py-2 pr-10 text-deepteal dark:text-tcream text-sm font-mono focus:outline-none focus:ring-2 focus:ring-teal/50 focus:border-transparent shadow-lg hover:shadow-xl transition-all duration-200"
           >
             <option value="alphabetical">A → Z</option>
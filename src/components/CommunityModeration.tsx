@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  addModerator,
+  banUser,
+  fetchBans,
+  fetchModerators,
+  fetchProfileByUsername,
+  removeModerator,
+  unbanUser,
+  updateCommunity,
+  type Community,
+  type CommunityBan,
+  type CommunityModerator,
+  type CommunityUpdate,
+} from "../api";
+import { useAuth } from "../context/AuthContext";
+import { usePermissions } from "../hooks/usePermissions";
+import { confirmDialog } from "../notifications";
+import { AuthorLink } from "./AuthorLink";
+
+interface Props {
+  community: Community;
+}
+
+const inputClassName =
+  "w-full px-4 py-2.5 rounded-xl bg-tcream/10 dark:bg-deepteal/30 backdrop-blur-md border border-mint/30 dark:border-sage/20 text-deepteal dark:text-tcream placeholder-mediumteal dark:placeholder-sage font-mono text-sm focus:outline-none focus:ring-2 focus:ring-teal/50 focus:border-transparent transition-all duration-200";
+
+const buttonClassName =
+  "px-4 py-2.5 rounded-xl font-mono text-sm font-medium bg-gradient-to-r from-teal to-mediumteal text-tcream hover:from-mediumteal hover:to-teal shadow-lg transition-all duration-200 disabled:opacity-60 disabled:cursor-not-allowed";
+
+// Usernames are typed with or without the leading @
+const findUserId = async (username: string) => {
+  const profile = await fetchProfileByUsername(username.trim().replace(/^@/, ""));
+  if (!profile) throw new Error(`Nobody goes by @${username.trim().replace(/^@/, "")}`);
+  return profile.id;
+};
+
+/** Settings, moderators and bans of a community, for its owners and moderators. */
+export const CommunityModeration = ({ community }: Props) => {
+  const { can } = usePermissions();
+  const [open, setOpen] = useState(false);
+
+  const canEdit = can("community.edit", community);
+  const canBan = can("community.ban", community);
+  const canAppoint = can("community.appoint", community);
+
+  if (!canEdit && !canBan && !canAppoint) return null;
+
+  return (
+    <div className="rounded-2xl bg-gradient-to-br from-tcream/5 via-mint/10 to-sage/5 dark:from-deepteal/20 dark:via-mediumteal/10 dark:to-sage/5 backdrop-blur-lg border border-mint/20 dark:border-sage/10 shadow-xl">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-6 py-4 font-mono text-deepteal dark:text-tcream"
+      >
+        <span className="flex items-center gap-3">
+          <span className="h-5 w-1 bg-gradient-to-b from-mediumteal to-sage rounded-full"></span>
+          Moderation
+        </span>
+        <svg className={`w-5 h-5 transition-transform duration-200 ${open ? "rotate-180" : ""}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="px-6 pb-6 grid gap-8 lg:grid-cols-3">
+          {canEdit && <CommunitySettingsForm key={community.id} community={community} />}
+          <ModeratorList community={community} canAppoint={canAppoint} />
+          {canBan && <BanList community={community} />}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SectionTitle = ({ children }: { children: React.ReactNode }) => (
+  <h3 className="text-sm font-medium font-mono text-deepteal dark:text-mint mb-3">{children}</h3>
+);
+
+const CommunitySettingsForm = ({ community }: Props) => {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(community.name);
+  const [description, setDescription] = useState(community.description);
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: (changes: CommunityUpdate) => updateCommunity(community.id, changes),
+    meta: { successMessage: "Community updated", errorMessage: "Couldn't update the community" },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["communityInfo", community.id] });
+      queryClient.invalidateQueries({ queryKey: ["communities"] });
+      queryClient.invalidateQueries({ queryKey: ["posts"] });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    mutate({ name: name.trim(), description: description.trim() });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <SectionTitle>Community details</SectionTitle>
+      <input value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} placeholder="Name" required />
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        rows={3}
+        className={`${inputClassName} resize-none`}
+        placeholder="Description"
+      />
+      <button type="submit" disabled={isPending} className={buttonClassName}>
+        {isPending ? "Saving..." : "Save"}
+      </button>
+    </form>
+  );
+};
+
+const ModeratorList = ({ community, canAppoint }: Props & { canAppoint: boolean }) => {
+  const queryClient = useQueryClient();
+  const [username, setUsername] = useState("");
+
+  const { data: moderators } = useQuery<CommunityModerator[], Error>({
+    queryKey: ["moderators", community.id],
+    queryFn: () => fetchModerators(community.id),
+    meta: { errorMessage: "Couldn't load moderators" },
+  });
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ["moderators", community.id] });
+    queryClient.invalidateQueries({ queryKey: ["roles"] });
+  };
+
+  const { mutate: appoint, isPending } = useMutation({
+    mutationFn: async (name: string) => addModerator(community.id, await findUserId(name)),
+    meta: { successMessage: "Moderator added", errorMessage: "Couldn't add the moderator" },
+    onSuccess: () => setUsername(""),
+    onSettled,
+  });
+
+  const { mutate: dismiss } = useMutation({
+    mutationFn: (userId: string) => removeModerator(community.id, userId),
+    meta: { successMessage: "Moderator removed", errorMessage: "Couldn't remove the moderator" },
+    onSettled,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (username.trim()) appoint(username);
+  };
+
+  return (
+    <div>
+      <SectionTitle>Moderators</SectionTitle>
+      <ul className="space-y-2 mb-3">
+        {moderators?.map((m) => (
+          <li key={m.user_id} className="flex items-center justify-between gap-2 font-mono text-sm">
+            <AuthorLink profile={m.profile} className="text-deepteal dark:text-tcream truncate" />
+            {m.role === "owner" ? (
+              <span className="px-2 py-0.5 rounded-md bg-teal/10 border border-teal/20 text-teal text-xs">Owner</span>
+            ) : (
+              canAppoint && (
+                <button type="button" onClick={() => dismiss(m.user_id)} className="text-xs text-red-400 hover:underline">
+                  Remove
+                </button>
+              )
+            )}
+          </li>
+        ))}
+      </ul>
+      {canAppoint && (
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <input value={username} onChange={(e) => setUsername(e.target.value)} className={inputClassName} placeholder="@username" />
+          <button type="submit" disabled={isPending} className={buttonClassName}>
+            Add
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+const BanList = ({ community }: Props) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [username, setUsername] = useState("");
+  const [reason, setReason] = useState("");
+
+  const { data: bans } = useQuery<CommunityBan[], Error>({
+    queryKey: ["bans", community.id],
+    queryFn: () => fetchBans(community.id),
+    meta: { errorMessage: "Couldn't load bans" },
+  });
+
+  const onSettled = () => queryClient.invalidateQueries({ queryKey: ["bans", community.id] });
+
+  const { mutate: ban, isPending } = useMutation({
+    mutationFn: async ({ name, reason }: { name: string; reason: string }) =>
+      banUser(community.id, await findUserId(name), user!.id, reason.trim() || null),
+    meta: { successMessage: "User banned", errorMessage: "Couldn't ban the user" },
+    onSuccess: () => {
+      setUsername("");
+      setReason("");
+    },
+    onSettled,
+  });
+
+  const { mutate: unban } = useMutation({
+    mutationFn: (userId: string) => unbanUser(community.id, userId),
+    meta: { successMessage: "Ban lifted", errorMessage: "Couldn't lift the ban" },
+    onSettled,
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim()) return;
+    const confirmed = await confirmDialog({
+      title: `Ban @${username.trim().replace(/^@/, "")}?`,
+      message: `They will no longer be able to post or comment in ${community.name}.`,
+      confirmLabel: "Ban",
+      destructive: true,
+    });
+    if (confirmed) ban({ name: username, reason });
+  };
+
+  return (
+    <div>
+      <SectionTitle>Banned users</SectionTitle>
+      {bans && bans.length === 0 && <p className="mb-3 text-sm font-mono text-sage dark:text-mint">Nobody is banned.</p>}
+      <ul className="space-y-2 mb-3">
+        {bans?.map((b) => (
+          <li key={b.user_id} className="flex items-start justify-between gap-2 font-mono text-sm">
+            <div className="min-w-0">
+              <AuthorLink profile={b.profile} className="text-deepteal dark:text-tcream" />
+              {b.reason && <p className="text-xs text-sage dark:text-mint truncate">{b.reason}</p>}
+            </div>
+            <button type="button" onClick={() => unban(b.user_id)} className="text-xs text-teal hover:underline">
+              Unban
+            </button>
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <input value={username} onChange={(e) => setUsername(e.target.value)} className={inputClassName} placeholder="@username" />
+        <input value={reason} onChange={(e) => setReason(e.target.value)} className={inputClassName} placeholder="Reason (optional)" maxLength={500} />
+        <button type="submit" disabled={isPending || !user} className={buttonClassName}>
+          Ban
+        </button>
+      </form>
+    </div>
+  );
+};
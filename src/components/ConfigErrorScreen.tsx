@@ -0,0 +1,44 @@
+import { config } from "../config";
+
+interface Props {
+  issues: string[];
+}
+
+/** Shown instead of the app when the environment configuration is invalid. */
+export const ConfigErrorScreen = ({ issues }: Props) => {
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6 bg-tcream dark:bg-deepteal text-deepteal dark:text-tcream">
+      <div className="w-full max-w-2xl rounded-2xl bg-gradient-to-br from-tcream/5 via-mint/10 to-sage/5 dark:from-deepteal/20 dark:via-mediumteal/10 dark:to-sage/5 backdrop-blur-lg border border-red-500/30 shadow-2xl p-8 space-y-6">
+        <div className="flex items-center gap-4">
+          <div className="w-10 h-10 border-2 border-red-500 rounded-full flex items-center justify-center flex-shrink-0">
+            <span className="text-red-500 font-bold">!</span>
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold font-mono">Configuration error</h1>
+            <p className="text-sm font-mono text-mediumteal dark:text-mint">
+              The app cannot start in the <span className="font-semibold">{config.environment}</span> environment.
+            </p>
+          </div>
+        </div>
+
+        <ul className="space-y-2">
+          {issues.map((issue) => (
+            <li
+              key={issue}
+              className="flex items-start gap-3 bg-red-500/10 border border-red-500/20 rounded-xl px-4 py-3 font-mono text-sm text-red-500 dark:text-red-400"
+            >
+              <span aria-hidden="true">•</span>
+              <span>{issue}</span>
+            </li>
+          ))}
+        </ul>
+
+        <p className="text-sm text-sage dark:text-mint/80">
+          Set the missing variables in <code className="font-mono">.env.local</code> (see{" "}
+          <code className="font-mono">.env.example</code>) or in your deployment's environment, then rebuild or
+          restart the dev server.
+        </p>
+      </div>
+    </div>
+  );
+};
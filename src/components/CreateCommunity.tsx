@@ -1,33 +1,26 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { supabase } from "../supabase-client";
+import { createCommunity } from "../api";
 import { useAuth } from "../context/AuthContext";
-
-interface CommunityInput {
-  name: string;
-  description: string;
-  author: string;
-}
-
-const createCommunity = async (community: CommunityInput) => {
-  const { error, data } = await supabase.from("communities").insert(community);
-
-  if (error) throw new Error(error.message);
-  return data;
-};
+import { useSessionState } from "../hooks/useSessionState";
 
 export const CreateCommunity = () => {
-  const [name, setName] = useState<string>("");
-  const [description, setDescription] = useState<string>("");
+  // Kept for the session so nothing is lost if the user has to sign in again
+  const [name, setName, resetName] = useSessionState<string>("create-community:name", "");
+  const [description, setDescription, resetDescription] = useSessionState<string>("create-community:description", "");
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const { user } = useAuth();
 
-  const { mutate, isPending, isError, isSuccess } = useMutation({
+  const { mutate, isPending } = useMutation({
     mutationFn: createCommunity,
+    meta: { successMessage: "Community created", errorMessage: "Failed to create community" },
     onSuccess: () => {
+      resetName();
+      resetDescription();
       queryClient.invalidateQueries({ queryKey: ["communities"] });
+      // The creator becomes the community's owner
+      queryClient.invalidateQueries({ queryKey: ["roles"] });
       setTimeout(() => navigate("/communities"), 1000);
     },
   });
@@ -186,31 +179,6 @@ export const CreateCommunity = () => {
             )}
           </div>
 
-          {/* Success Message */}
-          {isSuccess && (
-            <div className="flex items-center gap-3 bg-sage/10 border border-sage/30 rounded-xl p-4 mt-4">
-              <div className="w-6 h-6 bg-sage rounded-full flex items-center justify-center">
-                <svg className="w-4 h-4 text-tcream" fill="currentColor" viewBox="0 0 20 20">
-                  <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                </svg>
-              </div>
-              <div>
-                <p className="font-mono font-medium text-deepteal dark:text-tcream">Community Created!</p>
-                <p className="text-sm text-mediumteal dark:text-mint">Redirecting to communities page...</p>
-              </div>
-            </div>
-          )}
-
-          {/* Error Message */}
-          {isError && (
-            <div className="flex items-center gap-3 bg-red-500/10 border border-red-500/20 rounded-xl p-4 mt-4">
-              <div className="w-6 h-6 border-2 border-red-500 rounded-full flex items-center justify-center">
-                <span className="text-red-500 text-xs font-bold">!</span>
-              </div>
-              <p className="font-mono text-red-400">Failed to create community. Please try again.</p>
-            </div>
-          )}
-
           {/* Community Stats */}
           <div className="pt-6 border-t border-mint/10 dark:border-sage/10">
             <div className="grid grid-cols-3 gap-4 text-center">
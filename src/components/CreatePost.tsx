@@ -1,100 +1,180 @@
-import type { ChangeEvent } from "react";
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { supabase } from "../supabase-client";
+import { createPost, fetchCommunities, fetchCommunityById, type Community, type Draft } from "../api";
 import { useAuth } from "../context/AuthContext";
-import type { Community } from "./CommunityList";
-import {fetchCommunities} from "./CommunityList";
-import { useNavigate } from "react-router-dom";
-
-interface PostInput {
-  title: string;
-  content: string;
-  avatar_url: string | null;
-  community_id?: number | null;
-  author: string;
-  is_announcement?: boolean;
-}
+import { useDrafts } from "../hooks/useDrafts";
+import { moveItem } from "../images";
+import { usePermissions } from "../hooks/usePermissions";
+import { useSessionState } from "../hooks/useSessionState";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { ImagePicker } from "./ImagePicker";
+import { PublishAtInput } from "./PublishAtInput";
+import { toast } from "../notifications";
+import { mutationKeys, type CreatePostVariables } from "../queryClient";
 
-const createPost = async (post: PostInput, imageFile: File | null) => {
-  let imageUrl: string | null = null;
-  if (imageFile) {
-    const filePath = `${post.title}-${Date.now()}-${imageFile.name}`;
-    const { error: uploadError } = await supabase.storage
-      .from("post-images")
-      .upload(filePath, imageFile);
-    if (uploadError) throw new Error(uploadError.message);
-    const { data: publicURLData } = supabase.storage
-      .from("post-images")
-      .getPublicUrl(filePath);
-    imageUrl = publicURLData.publicUrl;
-  }
-
-  const { data, error } = await supabase
-    .from("posts")
-    .insert({ ...post, image_url: imageUrl });
-
-  if (error) throw new Error(error.message);
-
-  return data;
-};
+// Saves once the user pauses typing for this long
+const AUTOSAVE_DELAY_MS = 1000;
+
+const formatSavedAt = (date: string) => new Date(date).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
 
 export const CreatePost = () => {
-  const [title, setTitle] = useState<string>("");
-  const [content, setContent] = useState<string>("");
-  const [communityId, setCommunityId] = useState<number | null>(null);
-  const [isAnnouncement, setIsAnnouncement] = useState<boolean>(false);
+  // Kept for the session so nothing is lost if the user has to sign in again
+  const [title, setTitle, resetTitle] = useSessionState<string>("create-post:title", "");
+  const [content, setContent, resetContent] = useSessionState<string>("create-post:content", "");
+  const [communityId, setCommunityId, resetCommunityId] = useSessionState<number | null>("create-post:community", null);
+  const [isAnnouncement, setIsAnnouncement, resetIsAnnouncement] = useSessionState<boolean>(
+    "create-post:announcement",
+    false
+  );
+  const [scheduledFor, setScheduledFor, resetScheduledFor] = useSessionState<string | null>("create-post:schedule", null);
+  // The draft being written; autosave creates one on the first change
+  const [draftId, setDraftId, resetDraftId] = useSessionState<string | null>("create-post:draft", null);
   const [isCommunityOpen, setIsCommunityOpen] = useState<boolean>(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [images, setImages] = useState<File[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<number[]>([]);
+  const [isRestoreDismissed, setRestoreDismissed] = useState<boolean>(false);
 
   const { user } = useAuth();
+  const { can } = usePermissions();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requestedDraftId = searchParams.get("draft");
+  const {
+    drafts,
+    isLoading: isDraftsLoading,
+    save: saveDraft,
+    lastSaved,
+    discard: discardDraft,
+    isSyncEnabled,
+    setSyncEnabled,
+  } = useDrafts();
 
   const { data: communities } = useQuery<Community[], Error>({
     queryKey: ["communities"],
     queryFn: fetchCommunities,
   });
 
-  const { mutate, isPending, isError, isSuccess } = useMutation({
-    mutationFn: (data: { post: PostInput; imageFile: File | null }) => {
-      return createPost(data.post, data.imageFile);
-    },
+  const selectedCommunity = communities?.find((c) => c.id === communityId);
+  const isBanned = !!selectedCommunity && !can("community.post", selectedCommunity);
+
+  // A post queued offline is replayed with the mutationFn from the defaults;
+  // this one also reports the progress of each upload
+  const { mutate, isPending, isPaused, isSuccess, variables } = useMutation<void, Error, CreatePostVariables>({
+    mutationKey: mutationKeys.createPost,
+    mutationFn: ({ post, imageFiles }) =>
+      createPost(post, imageFiles, (index, fraction) =>
+        setUploadProgress((progress) => Object.assign([...progress], { [index]: fraction }))
+      ),
   });
 
+  const applyDraft = useCallback(
+    (draft: Draft) => {
+      setDraftId(draft.id);
+      setTitle(draft.title);
+      setContent(draft.content);
+      setCommunityId(draft.community_id);
+      setIsAnnouncement(draft.is_announcement);
+      setImages(draft.images);
+    },
+    [setDraftId, setTitle, setContent, setCommunityId, setIsAnnouncement]
+  );
+
+  // Resuming a draft from the dashboard
+  useEffect(() => {
+    if (!requestedDraftId || isDraftsLoading) return;
+    const draft = drafts.find((d) => d.id === requestedDraftId);
+    if (draft) applyDraft(draft);
+    else toast.error("That draft no longer exists");
+    setSearchParams({}, { replace: true });
+  }, [requestedDraftId, isDraftsLoading, drafts, applyDraft, setSearchParams]);
+
+  const isEmpty = !title.trim() && !content.trim() && images.length === 0;
+
+  useEffect(() => {
+    if (!user || isEmpty || isPending || isSuccess) return;
+    if (!draftId) {
+      setDraftId(crypto.randomUUID());
+      return;
+    }
+    const timer = setTimeout(
+      () =>
+        saveDraft({
+          id: draftId,
+          title,
+          content,
+          community_id: communityId,
+          is_announcement: isAnnouncement,
+          images,
+        }),
+      AUTOSAVE_DELAY_MS
+    );
+    return () => clearTimeout(timer);
+  }, [user, isEmpty, isPending, isSuccess, draftId, setDraftId, saveDraft, title, content, communityId, isAnnouncement, images]);
+
+  // Offered when the user comes back to an empty form
+  const restorableDraft =
+    !draftId && !requestedDraftId && isEmpty && !isRestoreDismissed ? drafts[0] : undefined;
+
+  const wasScheduled = !!variables?.post.scheduled_for;
+
   useEffect(() => {
     if (isSuccess) {
-      const timer = setTimeout(() => navigate("/"), 1200);
+      resetDraftId();
+      resetTitle();
+      resetContent();
+      resetCommunityId();
+      resetIsAnnouncement();
+      resetScheduledFor();
+      // Scheduled posts are not in the feed yet, but are listed on the dashboard
+      const destination = wasScheduled ? "/dashboard" : "/";
+      const timer = setTimeout(() => navigate(destination), 1200);
       return () => clearTimeout(timer);
     }
-  }, [isSuccess, navigate]);
+  }, [
+    isSuccess,
+    wasScheduled,
+    navigate,
+    resetDraftId,
+    resetTitle,
+    resetContent,
+    resetCommunityId,
+    resetIsAnnouncement,
+    resetScheduledFor,
+  ]);
 
   const handleSubmit = (event: React.FormEvent) => {
     event.preventDefault();
-    if (!user) return;
-    mutate({
-      post: {
-        title,
-        content,
-        avatar_url: user?.user_metadata.avatar_url || null,
-        community_id: communityId,
-        author: user!.id,
-        is_announcement: isAnnouncement && !!communityId,
+    if (!user || isBanned) return;
+    if (scheduledFor && new Date(scheduledFor) <= new Date()) {
+      toast.error("Pick a publish time in the future");
+      return;
+    }
+    setUploadProgress([]);
+    mutate(
+      {
+        post: {
+          title,
+          content,
+          community_id: communityId,
+          author: user!.id,
+          // The toggle only shows the box unchecked for non-moderators; the state may still be set
+          is_announcement: isAnnouncement && can("community.announce", selectedCommunity),
+          scheduled_for: scheduledFor,
+        },
+        imageFiles: images,
       },
-      imageFile: selectedFile,
-    });
+      // The published post replaces its draft
+      { onSuccess: () => draftId && discardDraft(draftId, { quiet: true }) }
+    );
   };
 
   const handleCommunitySelect = (id: number | null) => {
+    // Announcing is a per-community right, so it is chosen again for each community
+    if (id !== communityId) setIsAnnouncement(false);
     setCommunityId(id);
     setIsCommunityOpen(false);
   };
 
-  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setSelectedFile(e.target.files[0]);
-    }
-  };
-
   return (
     <div className="max-w-4xl mx-auto space-y-8">
       {/* Header */}
@@ -109,6 +189,34 @@ export const CreatePost = () => {
         </div>
       </div>
 
+      {restorableDraft && (
+        <div className="flex flex-wrap items-center justify-between gap-4 rounded-xl bg-teal/10 border border-teal/30 p-4">
+          <div className="min-w-0">
+            <p className="font-mono font-medium text-deepteal dark:text-tcream">Restore draft?</p>
+            <p className="text-sm text-mediumteal dark:text-mint truncate">
+              "{restorableDraft.title.trim() || "Untitled"}", saved{" "}
+              {new Date(restorableDraft.updated_at).toLocaleString()}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={() => applyDraft(restorableDraft)}
+              className="px-4 py-2 rounded-xl font-mono text-sm font-medium text-tcream bg-gradient-to-r from-teal to-mediumteal hover:from-mediumteal hover:to-teal shadow-lg transition-all duration-200"
+            >
+              Restore
+            </button>
+            <button
+              type="button"
+              onClick={() => setRestoreDismissed(true)}
+              className="px-4 py-2 rounded-xl font-mono text-sm font-medium bg-sage/20 hover:bg-sage/30 text-deepteal dark:text-tcream transition-colors duration-200"
+            >
+              Start fresh
+            </button>
+          </div>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-tcream/5 via-mint/10 to-sage/5 dark:from-deepteal/20 dark:via-mediumteal/10 dark:to-sage/5 backdrop-blur-lg border border-mint/20 dark:border-sage/10 shadow-2xl">
         {/* Animated background gradient */}
         <div className="absolute inset-0 bg-gradient-to-r from-mediumteal/0 via-sage/5 to-mint/0 opacity-50"></div>
@@ -205,30 +313,19 @@ export const CreatePost = () => {
 
             {/* Image Upload */}
             <div className="space-y-3">
-              <label htmlFor="image" className="flex items-center space-x-2 text-sm font-medium font-mono text-deepteal dark:text-mint">
+              <label htmlFor="images" className="flex items-center space-x-2 text-sm font-medium font-mono text-deepteal dark:text-mint">
                 <div className="w-1.5 h-1.5 bg-sage rounded-full"></div>
-                <span>Attach Image</span>
+                <span>Attach Images</span>
               </label>
-              <div className="relative">
-                <input
-                  type="file"
-                  id="image"
-                  accept="image/*"
-                  onChange={handleFileChange}
-                  className="hidden"
-                />
-                <label 
-                  htmlFor="image"
-                  className="w-full px-4 py-3 rounded-xl bg-tcream/10 dark:bg-deepteal/30 backdrop-blur-md border border-mint/30 dark:border-sage/20 text-deepteal dark:text-tcream font-mono cursor-pointer flex items-center justify-center space-x-3 hover:border-mediumteal/40 transition-all duration-200 shadow-lg hover:shadow-xl group"
-                >
-                  <svg className="w-5 h-5 text-teal group-hover:text-mediumteal transition-colors" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-                  </svg>
-                  <span className="text-sm">
-                    {selectedFile ? selectedFile.name : "Choose file..."}
-                  </span>
-                </label>
-              </div>
+              <ImagePicker
+                id="images"
+                images={images}
+                onAdd={(files) => setImages((current) => [...current, ...files])}
+                onMove={(from, to) => setImages((current) => moveItem(current, from, to))}
+                onRemove={(index) => setImages((current) => current.filter((_, i) => i !== index))}
+                progress={isPending ? uploadProgress : undefined}
+                disabled={isPending}
+              />
             </div>
           </div>
 
@@ -239,13 +336,40 @@ export const CreatePost = () => {
             </div>
           )}
 
+          {/* Publish At */}
+          <div className="space-y-3">
+            <label htmlFor="publish-at" className="flex items-center space-x-2 text-sm font-medium font-mono text-deepteal dark:text-mint">
+              <div className="w-1.5 h-1.5 bg-mediumteal rounded-full"></div>
+              <span>Publish At</span>
+            </label>
+            <div className="flex flex-wrap items-center gap-4">
+              <PublishAtInput
+                id="publish-at"
+                value={scheduledFor}
+                onChange={setScheduledFor}
+                className="px-4 py-3 rounded-xl bg-tcream/10 dark:bg-deepteal/30 backdrop-blur-md border border-mint/30 dark:border-sage/20 text-deepteal dark:text-tcream font-mono focus:outline-none focus:ring-2 focus:ring-teal/50 focus:border-transparent shadow-lg transition-all duration-200 hover:shadow-xl"
+              />
+              {scheduledFor ? (
+                <button
+                  type="button"
+                  onClick={() => setScheduledFor(null)}
+                  className="text-sm font-mono text-teal hover:underline"
+                >
+                  Publish now instead
+                </button>
+              ) : (
+                <span className="text-sm font-mono text-mediumteal dark:text-sage">Leave empty to publish straight away</span>
+              )}
+            </div>
+          </div>
+
           {/* Submit Section */}
           <div className="flex items-center justify-between pt-6 border-t border-mint/20 dark:border-sage/20">
             <button
               type="submit"
-              disabled={!user || isPending}
+              disabled={!user || isBanned || isPending}
               className={`px-8 py-3 rounded-xl font-mono font-medium transition-all duration-200 inline-flex items-center gap-3 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 ${
-                !user || isPending 
+                !user || isBanned || isPending 
                   ? "opacity-60 bg-sage/50 text-tcream cursor-not-allowed" 
                   : "bg-gradient-to-r from-teal to-mediumteal text-tcream hover:from-mediumteal hover:to-teal"
               }`}
@@ -254,7 +378,7 @@ export const CreatePost = () => {
               {isPending && (
                 <div className="w-5 h-5 border-2 border-tcream/30 border-t-tcream rounded-full animate-spin"></div>
               )}
-              {isPending ? "Creating..." : "Create Post"}
+              {isPaused ? "Queued..." : isPending ? "Creating..." : scheduledFor ? "Schedule Post" : "Create Post"}
               {!isPending && (
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
@@ -270,30 +394,42 @@ export const CreatePost = () => {
                 <span className="text-sm font-mono text-mediumteal">Login required to post</span>
               </div>
             )}
-          </div>
 
-          {/* Success Message */}
-          {isSuccess && (
-            <div className="flex items-center gap-3 bg-teal/10 border border-teal/30 rounded-xl p-4 mt-4">
-              <div className="w-6 h-6 bg-teal rounded-full flex items-center justify-center">
-                <svg className="w-4 h-4 text-tcream" fill="currentColor" viewBox="0 0 20 20">
-                  <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                </svg>
-              </div>
-              <div>
-                <p className="font-mono font-medium text-deepteal dark:text-tcream">Post Created!</p>
-                <p className="text-sm text-mediumteal dark:text-mint">Redirecting to home...</p>
+            {isBanned && (
+              <div className="flex items-center space-x-2 bg-orange-500/10 border border-orange-500/20 rounded-lg px-4 py-2">
+                <span className="text-sm font-mono text-orange-400">You are banned from {selectedCommunity.name}</span>
               </div>
-            </div>
-          )}
+            )}
+          </div>
 
-          {/* Error Message */}
-          {isError && (
-            <div className="flex items-center gap-3 bg-red-500/10 border border-red-500/20 rounded-xl p-4 mt-4">
-              <div className="w-6 h-6 border-2 border-red-500 rounded-full flex items-center justify-center">
-                <span className="text-red-500 text-xs font-bold">!</span>
+          {/* Draft status */}
+          <div className="flex flex-wrap items-center justify-between gap-4 text-xs font-mono text-mediumteal dark:text-sage">
+            <span>
+              {lastSaved
+                ? `Draft saved at ${formatSavedAt(lastSaved.updated_at)}${
+                    lastSaved.synced ? " and synced" : isSyncEnabled ? " on this device (sync failed)" : ""
+                  }`
+                : "Drafts are saved as you type"}
+            </span>
+            <label className="inline-flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isSyncEnabled}
+                onChange={(e) => setSyncEnabled(e.target.checked)}
+                className="accent-teal"
+              />
+              Sync drafts to my account (images stay on this device)
+            </label>
+          </div>
+
+          {/* Queued Message */}
+          {isPaused && (
+            <div className="flex items-center gap-3 bg-mint/10 border border-mint/30 rounded-xl p-4 mt-4">
+              <div className="w-6 h-6 border-2 border-mediumteal/30 border-t-mediumteal rounded-full animate-spin"></div>
+              <div>
+                <p className="font-mono font-medium text-deepteal dark:text-tcream">You're offline</p>
+                <p className="text-sm text-mediumteal dark:text-mint">Your post is queued and will be published once you reconnect.</p>
               </div>
-              <p className="font-mono text-red-400">Failed to create post. Please try again.</p>
             </div>
           )}
         </div>
@@ -309,23 +445,15 @@ interface AdminAnnouncementToggleProps {
 }
 
 const AdminAnnouncementToggle = ({ communityId, value, onChange }: AdminAnnouncementToggleProps) => {
-  const { user } = useAuth();
+  const { can } = usePermissions();
 
   const { data: community, isLoading } = useQuery<Community | null, Error>({
     queryKey: ["community", communityId],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("communities")
-        .select("*")
-        .eq("id", communityId)
-        .single();
-      if (error) throw new Error(error.message);
-      return data as Community;
-    },
+    queryFn: () => fetchCommunityById(communityId),
     enabled: !!communityId,
   });
 
-  const isAdmin = !!user && !!community && (community as any).author === user.id;
+  const isAdmin = can("community.announce", community);
 
   return (
     <div className="flex items-center space-x-4 p-4 rounded-xl bg-mint/5 dark:bg-sage/5 border border-mint/20 dark:border-sage/20">
@@ -376,12 +504,12 @@ const AdminAnnouncementToggle = ({ communityId, value, onChange }: AdminAnnounce
         )}
         {!isLoading && !isAdmin && (
           <span className="px-2 py-1 bg-mint/10 border border-mint/20 rounded-md text-mediumteal">
-            Admin Only
+            Moderators Only
           </span>
         )}
         {!isLoading && isAdmin && (
           <span className="px-2 py-1 bg-teal/10 border border-teal/20 rounded-md text-teal">
-            Admin Access
+            Moderator Access
           </span>
         )}
       </div>
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { editPost, type Post, type PostEdit } from "../api";
+import { useAuth } from "../context/AuthContext";
+import { moveItem, postImages } from "../images";
+import { ImagePicker } from "./ImagePicker";
+
+const inputClassName =
+  "w-full px-4 py-3 rounded-xl bg-tcream/10 dark:bg-deepteal/30 backdrop-blur-md border border-mint/30 dark:border-sage/20 text-deepteal dark:text-tcream placeholder-mediumteal dark:placeholder-sage font-mono focus:outline-none focus:ring-2 focus:ring-teal/50 focus:border-transparent shadow-lg transition-all duration-200";
+
+interface Props {
+  post: Post;
+  onDone: () => void;
+}
+
+/** The author's form for changing a post's title, content and images. */
+export const EditPost = ({ post, onDone }: Props) => {
+  const [title, setTitle] = useState<string>(post.title);
+  const [content, setContent] = useState<string>(post.content);
+  // Images the post keeps, as URLs, and new files, in gallery order
+  const [images, setImages] = useState<(string | File)[]>(() => postImages(post));
+  const [uploadProgress, setUploadProgress] = useState<number[]>([]);
+
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const { mutate, isPending } = useMutation({
+    // Only the author gets this form, so new images go under their id
+    mutationFn: (changes: Omit<PostEdit, "image_urls">) =>
+      editPost(post.id, user!.id, changes, images, (index, fraction) =>
+        setUploadProgress((progress) => Object.assign([...progress], { [index]: fraction }))
+      ),
+    meta: { successMessage: "Post updated", errorMessage: "Couldn't save your changes" },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["post", post.id] });
+      queryClient.invalidateQueries({ queryKey: ["post-details", post.id] });
+      queryClient.invalidateQueries({ queryKey: ["postRevisions", post.id] });
+      queryClient.invalidateQueries({ queryKey: ["posts"] });
+      onDone();
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setUploadProgress([]);
+    mutate({ title: title.trim(), content });
+  };
+
+  const original = postImages(post);
+  const isUnchanged =
+    title.trim() === post.title &&
+    content === post.content &&
+    images.length === original.length &&
+    images.every((image, i) => image === original[i]);
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="space-y-2">
+        <label htmlFor="edit-title" className="block text-sm font-medium font-mono text-deepteal dark:text-mint">
+          Post Title
+        </label>
+        <input
+          id="edit-title"
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          className={inputClassName}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor="edit-content" className="block text-sm font-medium font-mono text-deepteal dark:text-mint">
+          Content
+        </label>
+        <textarea
+          id="edit-content"
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          rows={12}
+          className={`${inputClassName} resize-y`}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor="edit-images" className="block text-sm font-medium font-mono text-deepteal dark:text-mint">
+          Images
+        </label>
+        <ImagePicker
+          id="edit-images"
+          images={images}
+          onAdd={(files) => setImages((current) => [...current, ...files])}
+          onMove={(from, to) => setImages((current) => moveItem(current, from, to))}
+          onRemove={(index) => setImages((current) => current.filter((_, i) => i !== index))}
+          progress={isPending ? uploadProgress : undefined}
+          disabled={isPending}
+        />
+      </div>
+
+      <div className="flex items-center justify-end gap-3 pt-6 border-t border-mint/20 dark:border-sage/20">
+        <button
+          type="button"
+          onClick={onDone}
+          disabled={isPending}
+          className="px-5 py-2.5 rounded-xl font-mono text-sm font-medium bg-sage/20 hover:bg-sage/30 text-deepteal dark:text-tcream transition-colors duration-200"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isPending || isUnchanged}
+          className="px-6 py-2.5 rounded-xl font-mono text-sm font-medium text-tcream shadow-lg bg-gradient-to-r from-teal to-mediumteal hover:from-mediumteal hover:to-teal transition-all duration-200 inline-flex items-center gap-3 disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          {isPending && <div className="w-4 h-4 border-2 border-tcream/30 border-t-tcream rounded-full animate-spin"></div>}
+          {isPending ? "Saving..." : "Save Changes"}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,21 @@
+import { Link } from "react-router-dom";
+import type { Post } from "../api";
+
+interface Props {
+  post: Post;
+  className?: string;
+}
+
+/** "edited", linking to the post's revision history. Renders nothing for unedited posts. */
+export const EditedMarker = ({ post, className = "" }: Props) => {
+  if (!post.edited_at) return null;
+  return (
+    <Link
+      to={`/post/${post.id}/history`}
+      title={`Edited ${new Date(post.edited_at).toLocaleString()}`}
+      className={`italic hover:underline hover:text-teal transition-colors duration-200 ${className}`}
+    >
+      edited
+    </Link>
+  );
+};
@@ -0,0 +1,43 @@
+import { useEffect, useRef } from "react";
+
+interface Props {
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  fetchNextPage: () => void;
+}
+
+export const FeedLoadMore = ({ hasNextPage, isFetchingNextPage, fetchNextPage }: Props) => {
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  // Request the next page a little before the sentinel scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting) && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center pt-8">
+      {isFetchingNextPage ? (
+        <div className="flex items-center space-x-3">
+          <div className="w-6 h-6 border-2 border-mint/20 border-t-mediumteal rounded-full animate-spin"></div>
+          <span className="text-sm font-mono text-sage dark:text-mint">
+            Loading more<span className="animate-pulse">...</span>
+          </span>
+        </div>
+      ) : (
+        <div className="h-px bg-gradient-to-r from-transparent via-sage/30 to-transparent w-full max-w-xs"></div>
+      )}
+    </div>
+  );
+};
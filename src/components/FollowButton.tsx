@@ -0,0 +1,40 @@
+import { useAuth } from "../context/AuthContext";
+import { useFollowing } from "../hooks/useFollows";
+
+interface Props {
+  /** The user to follow. */
+  userId: string;
+  /** Compact variant for author chips. */
+  size?: "sm" | "md";
+}
+
+/** Follow/unfollow toggle; renders nothing for signed-out users and on their own content. */
+export const FollowButton = ({ userId, size = "md" }: Props) => {
+  const { user } = useAuth();
+  const { isFollowing, toggleFollow, isPending } = useFollowing();
+
+  if (!user || user.id === userId) return null;
+
+  const following = isFollowing(userId);
+  const sizeClassName = size === "sm" ? "px-2.5 py-0.5 text-xs rounded-lg" : "px-5 py-2 text-sm rounded-xl";
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        toggleFollow(userId);
+      }}
+      disabled={isPending}
+      aria-pressed={following}
+      className={`${sizeClassName} font-mono font-medium border transition-all duration-200 disabled:opacity-60 disabled:cursor-not-allowed ${
+        following
+          ? "bg-mint/10 dark:bg-sage/10 border-mint/30 dark:border-sage/20 text-mediumteal dark:text-mint hover:border-red-400/40 hover:text-red-400"
+          : "bg-gradient-to-r from-teal to-mediumteal border-transparent text-tcream hover:from-mediumteal hover:to-teal shadow-lg"
+      }`}
+    >
+      {following ? "Following" : "Follow"}
+    </button>
+  );
+};
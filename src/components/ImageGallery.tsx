@@ -0,0 +1,96 @@
+import { useRef, useState, type KeyboardEvent } from "react";
+
+const arrowClassName =
+  "absolute top-1/2 -translate-y-1/2 w-9 h-9 rounded-full bg-deepteal/60 backdrop-blur-sm text-tcream font-mono flex items-center justify-center hover:bg-deepteal/80 transition-colors duration-200";
+
+interface Props {
+  images: string[];
+  alt: string;
+  imageClassName?: string;
+}
+
+/**
+ * A post's images, one at a time. The track scrolls with CSS scroll
+ * snapping, so it swipes natively on touch screens; arrows, dots and the
+ * arrow keys move between images elsewhere. A single image is shown as is.
+ */
+export const ImageGallery = ({ images, alt, imageClassName = "" }: Props) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [index, setIndex] = useState<number>(0);
+
+  if (images.length === 0) return null;
+  if (images.length === 1) return <img src={images[0]} alt={alt} className={imageClassName} />;
+
+  const scrollTo = (target: number) => {
+    const track = trackRef.current;
+    if (!track) return;
+    const clamped = Math.max(0, Math.min(images.length - 1, target));
+    track.scrollTo({ left: clamped * track.clientWidth, behavior: "smooth" });
+  };
+
+  const handleScroll = () => {
+    const track = trackRef.current;
+    if (track) setIndex(Math.round(track.scrollLeft / track.clientWidth));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === "ArrowLeft") scrollTo(index - 1);
+    else if (e.key === "ArrowRight") scrollTo(index + 1);
+    else return;
+    e.preventDefault();
+  };
+
+  return (
+    <div className="relative" role="region" aria-roledescription="carousel" aria-label={`${alt}, ${images.length} images`}>
+      <div
+        ref={trackRef}
+        onScroll={handleScroll}
+        onKeyDown={handleKeyDown}
+        tabIndex={0}
+        className="flex overflow-x-auto snap-x snap-mandatory [scrollbar-width:none] [&::-webkit-scrollbar]:hidden focus:outline-none focus-visible:ring-2 focus-visible:ring-teal/50 rounded-xl"
+      >
+        {images.map((src, i) => (
+          <div key={src} className="w-full shrink-0 snap-center flex justify-center">
+            <img
+              src={src}
+              alt={`${alt} (${i + 1} of ${images.length})`}
+              loading={i === 0 ? undefined : "lazy"}
+              draggable={false}
+              className={imageClassName}
+            />
+          </div>
+        ))}
+      </div>
+
+      {index > 0 && (
+        <button type="button" onClick={() => scrollTo(index - 1)} className={`${arrowClassName} left-3`} aria-label="Previous image">
+          ←
+        </button>
+      )}
+      {index < images.length - 1 && (
+        <button type="button" onClick={() => scrollTo(index + 1)} className={`${arrowClassName} right-3`} aria-label="Next image">
+          →
+        </button>
+      )}
+
+      <span className="absolute top-3 right-3 px-2 py-1 rounded-md bg-black/40 backdrop-blur-sm text-xs font-mono text-white/80">
+        {index + 1} / {images.length}
+      </span>
+
+      <div className="flex justify-center gap-2 mt-3">
+        {images.map((src, i) => (
+          <button
+            key={src}
+            type="button"
+            onClick={() => scrollTo(i)}
+            className={`h-2 rounded-full transition-all duration-200 ${
+              i === index ? "w-6 bg-teal" : "w-2 bg-mint/40 dark:bg-sage/40 hover:bg-mediumteal/60"
+            }`}
+            aria-label={`Show image ${i + 1}`}
+            aria-current={i === index}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
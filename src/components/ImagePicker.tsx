@@ -0,0 +1,191 @@
+import { useEffect, useState, type ChangeEvent } from "react";
+import { IMAGE_ACCEPT, MAX_POST_IMAGES, assertImageType, assertValidImage, resizeImage } from "../images";
+import { toast } from "../notifications";
+
+// Resizing comes before the size check, so large photos only count at the size they are uploaded
+const prepareImage = async (file: File) => {
+  assertImageType(file);
+  const resized = await resizeImage(file);
+  assertValidImage(resized);
+  return resized;
+};
+
+// Files have no identity of their own to key list items by while they are reordered
+const fileKeys = new WeakMap<File, number>();
+let nextFileKey = 0;
+
+const keyOf = (image: string | File) => {
+  if (typeof image === "string") return image;
+  if (!fileKeys.has(image)) fileKeys.set(image, ++nextFileKey);
+  return `file-${fileKeys.get(image)}`;
+};
+
+const Thumbnail = ({ image, alt }: { image: string | File; alt: string }) => {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+
+  // Created and revoked together, so StrictMode's extra cleanup never leaves a revoked URL behind
+  useEffect(() => {
+    if (typeof image === "string") return;
+    const url = URL.createObjectURL(image);
+    setObjectUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [image]);
+
+  const src = typeof image === "string" ? image : objectUrl;
+  if (!src) return null;
+  return <img src={src} alt={alt} className="w-full h-full object-cover" />;
+};
+
+const moveButtonClassName =
+  "w-7 h-7 rounded-lg bg-deepteal/70 text-tcream text-sm font-mono hover:bg-deepteal disabled:opacity-30 disabled:cursor-not-allowed transition-colors duration-200";
+
+interface Props {
+  id: string;
+  /** URLs of images already uploaded and files still to upload, in gallery order. */
+  images: readonly (string | File)[];
+  /** Receives new files, already resized and validated for upload. */
+  onAdd: (files: File[]) => void;
+  onMove: (from: number, to: number) => void;
+  onRemove: (index: number) => void;
+  /** Upload progress per image, from 0 to 1, while the post is being saved. */
+  progress?: readonly (number | undefined)[];
+  disabled?: boolean;
+}
+
+/** Picks, orders and previews the images of a post. The first image is its cover. */
+export const ImagePicker = ({ id, images, onAdd, onMove, onRemove, progress = [], disabled = false }: Props) => {
+  const [processingCount, setProcessingCount] = useState<number>(0);
+  const remaining = MAX_POST_IMAGES - images.length;
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    // Lets the same file be picked again after it was removed
+    e.target.value = "";
+    if (selected.length === 0) return;
+
+    if (selected.length > remaining) {
+      toast.error(`A post can have up to ${MAX_POST_IMAGES} images`, {
+        description: remaining > 0 ? `Only the first ${remaining} were added.` : undefined,
+      });
+    }
+    const files = selected.slice(0, Math.max(remaining, 0));
+    if (files.length === 0) return;
+
+    setProcessingCount(files.length);
+    const results = await Promise.allSettled(files.map(prepareImage));
+    setProcessingCount(0);
+
+    results.forEach((result) => {
+      if (result.status === "rejected") {
+        toast.error("Image not added", { description: (result.reason as Error).message });
+      }
+    });
+    const accepted = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+    if (accepted.length > 0) onAdd(accepted);
+  };
+
+  const isBusy = disabled || processingCount > 0;
+
+  return (
+    <div className="space-y-3">
+      <input
+        type="file"
+        id={id}
+        accept={IMAGE_ACCEPT}
+        multiple
+        onChange={handleFileChange}
+        disabled={isBusy || remaining <= 0}
+        className="hidden"
+      />
+      <label
+        htmlFor={id}
+        className={`w-full px-4 py-3 rounded-xl bg-tcream/10 dark:bg-deepteal/30 backdrop-blur-md border border-mint/30 dark:border-sage/20 text-deepteal dark:text-tcream font-mono flex items-center justify-center space-x-3 transition-all duration-200 shadow-lg group ${
+          isBusy || remaining <= 0
+            ? "opacity-60 cursor-not-allowed"
+            : "cursor-pointer hover:border-mediumteal/40 hover:shadow-xl"
+        }`}
+      >
+        {processingCount > 0 ? (
+          <div className="w-5 h-5 border-2 border-teal/30 border-t-teal rounded-full animate-spin"></div>
+        ) : (
+          <svg className="w-5 h-5 text-teal group-hover:text-mediumteal transition-colors" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+          </svg>
+        )}
+        <span className="text-sm">
+          {processingCount > 0
+            ? `Optimizing ${processingCount} image${processingCount === 1 ? "" : "s"}...`
+            : images.length === 0
+              ? "Choose images..."
+              : `Add images (${images.length}/${MAX_POST_IMAGES})`}
+        </span>
+      </label>
+
+      {images.length > 0 && (
+        <ul className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {images.map((image, index) => {
+            const fraction = progress[index];
+            return (
+              <li
+                key={keyOf(image)}
+                className="relative aspect-[4/3] rounded-xl overflow-hidden border border-mint/30 dark:border-sage/30 shadow-lg"
+              >
+                <Thumbnail image={image} alt={`Image ${index + 1}`} />
+
+                {index === 0 && (
+                  <span className="absolute top-2 left-2 px-2 py-0.5 rounded-md bg-teal/90 text-tcream text-xs font-mono">
+                    Cover
+                  </span>
+                )}
+
+                {!disabled && (
+                  <div className="absolute top-2 right-2 flex items-center gap-1">
+                    <button
+                      type="button"
+                      onClick={() => onMove(index, index - 1)}
+                      disabled={index === 0}
+                      className={moveButtonClassName}
+                      aria-label="Move image earlier"
+                    >
+                      ←
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onMove(index, index + 1)}
+                      disabled={index === images.length - 1}
+                      className={moveButtonClassName}
+                      aria-label="Move image later"
+                    >
+                      →
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onRemove(index)}
+                      className="w-7 h-7 rounded-lg bg-red-500/80 text-tcream text-sm font-mono hover:bg-red-500 transition-colors duration-200"
+                      aria-label="Remove image"
+                    >
+                      ×
+                    </button>
+                  </div>
+                )}
+
+                {fraction !== undefined && (
+                  <div className="absolute inset-x-0 bottom-0 h-1.5 bg-deepteal/40">
+                    <div
+                      className="h-full bg-gradient-to-r from-teal to-mint transition-all duration-200"
+                      style={{ width: `${Math.round(fraction * 100)}%` }}
+                      role="progressbar"
+                      aria-valuenow={Math.round(fraction * 100)}
+                      aria-valuemin={0}
+                      aria-valuemax={100}
+                    />
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
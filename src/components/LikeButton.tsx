@@ -1,101 +1,68 @@
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { supabase } from "../supabase-client";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { adjustVoteSummary, type VoteSummary } from "../api";
 import { useAuth } from "../context/AuthContext";
+import { useVotesRealtime } from "../hooks/useRealtime";
+import { useVoteSummary, voteSummaryKey } from "../hooks/useVoteSummary";
+import { mutationKeys, type CastVoteVariables } from "../queryClient";
 
 interface Props {
   postId: number;
 }
 
-interface Vote {
-  id: number;
-  post_id: number;
-  user_id: string;
-  vote: number;
-}
-
-const vote = async (voteValue: number, postId: number, userId: string) => {
-  const { data: existingVote } = await supabase
-    .from("votes")
-    .select("*")
-    .eq("post_id", postId)
-    .eq("user_id", userId)
-    .maybeSingle();
-
-  if (existingVote) {
-    if (existingVote.vote === voteValue) {
-      const { error } = await supabase
-        .from("votes")
-        .delete()
-        .eq("id", existingVote.id);
-
-      if (error) throw new Error(error.message);
-    } else {
-      const { error } = await supabase
-        .from("votes")
-        .update({ vote: voteValue })
-        .eq("id", existingVote.id);
-
-      if (error) throw new Error(error.message);
-    }
-  } else {
-    const { error } = await supabase
-      .from("votes")
-      .insert({ post_id: postId, user_id: userId, vote: voteValue });
-    if (error) throw new Error(error.message);
-  }
-};
-
-const fetchVotes = async (postId: number): Promise<Vote[]> => {
-  const { data, error } = await supabase
-    .from("votes")
-    .select("*")
-    .eq("post_id", postId);
-
-  if (error) throw new Error(error.message);
-  return data as Vote[];
+// Mirrors toggle_vote on the cached summary so the counts update before the server answers
+const toggleSummaryVote = (summary: VoteSummary, voteValue: number): VoteSummary => {
+  const nextVote = summary.user_vote === voteValue ? null : voteValue;
+  return { ...adjustVoteSummary(summary, summary.user_vote, nextVote), user_vote: nextVote };
 };
 
 export const LikeButton = ({ postId }: Props) => {
   const { user } = useAuth();
+  const userId = user?.id ?? null;
   const queryClient = useQueryClient();
-
-  const {
-    data: votes,
-    isLoading,
-    error,
-  } = useQuery<Vote[], Error>({
-    queryKey: ["votes", postId],
-    queryFn: () => fetchVotes(postId),
-    refetchInterval: 5000,
-  });
-
-  const { mutate } = useMutation({
-    mutationFn: (voteValue: number) => {
-      if (!user) throw new Error("You must be logged in to Vote!");
-      return vote(voteValue, postId, user.id);
+  const summaryKey = voteSummaryKey(postId, userId);
+
+  const { data: summary, isLoading } = useVoteSummary(postId);
+
+  useVotesRealtime(postId, userId);
+
+  // The optimistic update also covers votes queued while offline
+  const { mutate } = useMutation<void, Error, CastVoteVariables, { previous?: VoteSummary }>({
+    mutationKey: mutationKeys.castVote,
+    // Votes toggle, so queued votes on a post must replay one after another and in order
+    scope: { id: `vote-${postId}` },
+    onMutate: async ({ voteValue }) => {
+      await queryClient.cancelQueries({ queryKey: summaryKey });
+      const previous = queryClient.getQueryData<VoteSummary>(summaryKey);
+      if (previous) {
+        queryClient.setQueryData<VoteSummary>(summaryKey, toggleSummaryVote(previous, voteValue));
+      }
+      return { previous };
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["votes", postId] });
+    onError: (_error, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(summaryKey, context.previous);
+      }
     },
   });
 
+  const vote = (voteValue: number) => {
+    if (!user) return;
+    mutate({ voteValue, postId, userId: user.id });
+  };
+
   if (isLoading) {
     return <div>Loading votes...</div>;
   }
 
-  if (error) {
-    return <div>Error: {error.message}</div>;
-  }
-
-  const likes = votes?.filter((v) => v.vote === 1).length || 0;
-  const dislikes = votes?.filter((v) => v.vote === -1).length || 0;
-  const userVote = votes?.find((v) => v.user_id === user?.id)?.vote;
+  const likes = summary?.likes ?? 0;
+  const dislikes = summary?.dislikes ?? 0;
+  const userVote = summary?.user_vote;
 
   return (
     <div className="flex items-center space-x-4 my-4">
       {/* 👍 Like */}
       <button
-        onClick={() => mutate(1)}
+        onClick={() => vote(1)}
         className={`px-4 py-2 rounded-full font-medium transition-all duration-200 
           backdrop-blur-md border shadow-lg
           ${
@@ -109,7 +76,7 @@ export const LikeButton = ({ postId }: Props) => {
 
       {/* 👎 Dislike */}
       <button
-        onClick={() => mutate(-1)}
+        onClick={() => vote(-1)}
         className={`px-4 py-2 rounded-full font-medium transition-all duration-200 
           backdrop-blur-md border shadow-lg
           ${
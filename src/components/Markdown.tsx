@@ -0,0 +1,115 @@
+import ReactMarkdown, { type Components, type ExtraProps } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeSanitize from "rehype-sanitize";
+import { CodeBlock } from "./CodeBlock";
+
+type HastNode = NonNullable<ExtraProps["node"]>;
+
+// The raw text of a hast subtree; fenced code arrives as <pre><code>text</code></pre>
+const textOf = (node: HastNode | HastNode["children"][number]): string => {
+  if (node.type === "text") return node.value;
+  if ("children" in node) return node.children.map(textOf).join("");
+  return "";
+};
+
+// react-markdown hands every component its hast node, which must not reach the DOM
+const withoutNode = <P extends ExtraProps>(props: P): Omit<P, "node"> => {
+  const rest = { ...props };
+  delete rest.node;
+  return rest;
+};
+
+const isExternal = (href?: string) => !!href && /^https?:\/\//i.test(href);
+
+const components: Components = {
+  h1: (props) => <h1 className="text-2xl font-bold mt-6 mb-3" {...withoutNode(props)} />,
+  h2: (props) => <h2 className="text-xl font-bold mt-5 mb-3" {...withoutNode(props)} />,
+  h3: (props) => <h3 className="text-lg font-semibold mt-4 mb-2" {...withoutNode(props)} />,
+  h4: (props) => <h4 className="font-semibold mt-4 mb-2" {...withoutNode(props)} />,
+  h5: (props) => <h5 className="font-semibold mt-3 mb-2" {...withoutNode(props)} />,
+  h6: (props) => <h6 className="font-semibold mt-3 mb-2 opacity-80" {...withoutNode(props)} />,
+  p: (props) => <p className="mb-3" {...withoutNode(props)} />,
+  a: ({ href, ...props }) => (
+    <a
+      href={href}
+      className="text-teal hover:underline break-words"
+      {...(isExternal(href) ? { target: "_blank", rel: "noopener noreferrer nofollow" } : {})}
+      {...withoutNode(props)}
+    />
+  ),
+  ul: ({ className, ...props }) => (
+    // remark-gfm marks task lists with "contains-task-list"; those drop the bullets
+    <ul
+      className={className?.includes("contains-task-list") ? "mb-3 space-y-1" : "list-disc pl-6 mb-3 space-y-1"}
+      {...withoutNode(props)}
+    />
+  ),
+  ol: (props) => <ol className="list-decimal pl-6 mb-3 space-y-1" {...withoutNode(props)} />,
+  input: (props) => <input className="mr-2 align-middle accent-teal" {...withoutNode(props)} />,
+  blockquote: (props) => (
+    <blockquote className="border-l-4 border-mint/60 dark:border-sage/40 pl-4 italic opacity-90 mb-3" {...withoutNode(props)} />
+  ),
+  hr: (props) => <hr className="my-6 border-mint/30 dark:border-sage/20" {...withoutNode(props)} />,
+  img: ({ alt, ...props }) => (
+    <img alt={alt ?? ""} loading="lazy" className="max-w-full rounded-lg shadow-md my-3" {...withoutNode(props)} />
+  ),
+  table: (props) => (
+    <div className="overflow-x-auto mb-3">
+      <table className="min-w-full border-collapse text-sm" {...withoutNode(props)} />
+    </div>
+  ),
+  th: (props) => (
+    <th className="border border-mint/30 dark:border-sage/20 px-3 py-2 text-left font-semibold bg-mint/10" {...withoutNode(props)} />
+  ),
+  td: (props) => <td className="border border-mint/30 dark:border-sage/20 px-3 py-2" {...withoutNode(props)} />,
+  code: (props) => (
+    <code className="font-mono text-[0.9em] px-1.5 py-0.5 rounded bg-mint/20 dark:bg-deepteal/50" {...withoutNode(props)} />
+  ),
+  pre: ({ node }) => {
+    const code = node?.children.find((child) => child.type === "element" && child.tagName === "code");
+    const classNames = code?.type === "element" ? code.properties.className : undefined;
+    const language = Array.isArray(classNames)
+      ? classNames
+          .map(String)
+          .find((name) => name.startsWith("language-"))
+          ?.slice("language-".length)
+      : undefined;
+    return (
+      <div className="mb-4">
+        <CodeBlock
+          code={code ? textOf(code).replace(/\n$/, "") : ""}
+          language={language}
+          meta={code?.type === "element" ? code.data?.meta : undefined}
+        />
+      </div>
+    );
+  },
+};
+
+interface Props {
+  content: string;
+  /** Render as bare text, for excerpts inside links and cards */
+  plain?: boolean;
+}
+
+/**
+ * Post content as GitHub-flavoured Markdown. Raw HTML is sanitized with
+ * GitHub's own allow-list, so authors can't inject scripts or styles.
+ */
+export const Markdown = ({ content, plain = false }: Props) => {
+  if (plain) {
+    return (
+      <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeSanitize]} allowedElements={[]} unwrapDisallowed>
+        {content}
+      </ReactMarkdown>
+    );
+  }
+
+  return (
+    <div className="break-words">
+      <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeSanitize]} components={components}>
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
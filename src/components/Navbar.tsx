@@ -1,19 +1,25 @@
 import { useEffect, useRef, useState } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "../context/AuthContext";
-import { supabase } from "../supabase-client";
+import { authorName, searchCommunities, searchPosts, type SearchResult } from "../api";
+import { useCurrentProfile } from "../hooks/useCurrentProfile";
+import { SyncStatus } from "./SyncStatus";
+import type { SignInLocationState } from "./RequireAuth";
+import { toast } from "../notifications";
 
 export const Navbar = () => {
   const [menuOpen, setMenuOpen] = useState(false);
-  const { signInWithGitHub, signOut, user } = useAuth();
+  const { signOut, user } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Signing in from the navbar returns to the current page
+  const signInState: SignInLocationState | undefined =
+    location.pathname === "/signin" ? undefined : { from: location.pathname + location.search };
 
   // Search state
   const [query, setQuery] = useState("");
   const [isSearching, setIsSearching] = useState(false);
-  const [results, setResults] = useState<
-    Array<{ id: number; type: "post" | "community"; label: string }>
-  >([]);
+  const [results, setResults] = useState<SearchResult[]>([]);
   const [showResults, setShowResults] = useState(false);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
@@ -62,33 +68,15 @@ export const Navbar = () => {
 
     const handle = setTimeout(async () => {
       try {
-        const searchTerm = `%${query.trim()}%`;
-
-        const [postRes, commRes] = await Promise.all([
-          supabase.from("posts").select("id, title").ilike("title", searchTerm).limit(5),
-          supabase.from("communities").select("id, name").ilike("name", searchTerm).limit(5),
-        ]);
-
-        if (postRes.error || commRes.error) {
-          throw new Error(postRes.error?.message || commRes.error?.message || "Search failed");
-        }
-
-        const mapped = [
-          ...(postRes.data || []).map((p: any) => ({
-            id: p.id,
-            type: "post" as const,
-            label: p.title,
-          })),
-          ...(commRes.data || []).map((c: any) => ({
-            id: c.id,
-            type: "community" as const,
-            label: c.name,
-          })),
+        const term = query.trim();
+        const [posts, communities] = await Promise.all([searchPosts(term), searchCommunities(term)]);
+        const mapped: SearchResult[] = [
+          ...posts.map((p) => ({ id: p.id, type: "post" as const, label: p.title })),
+          ...communities.map((c) => ({ id: c.id, type: "community" as const, label: c.name })),
         ];
-
         setResults(mapped);
       } catch (err) {
-        console.error("Search failed:", err);
+        toast.error("Search failed", { description: err instanceof Error ? err.message : undefined });
         setResults([]);
       } finally {
         setIsSearching(false);
@@ -98,7 +86,7 @@ export const Navbar = () => {
     return () => clearTimeout(handle);
   }, [query]);
 
-  const handleSelect = (item: { id: number; type: "post" | "community" }) => {
+  const handleSelect = (item: SearchResult) => {
     setShowResults(false);
     setQuery("");
     setMenuOpen(false);
@@ -106,7 +94,11 @@ export const Navbar = () => {
     else navigate(`/community/${item.id}`);
   };
 
-  const displayName = user?.user_metadata?.user_name || user?.email?.split("@")[0] || "User";
+  const { data: profile } = useCurrentProfile();
+  const displayName = profile
+    ? authorName(profile)
+    : user?.user_metadata?.user_name || user?.email?.split("@")[0] || "User";
+  const avatarUrl = profile ? profile.avatar_url : user?.user_metadata?.avatar_url;
 
   return (
     <nav className="fixed top-0 w-full z-50 bg-deepteal/25 dark:bg-deepteal/35 backdrop-blur-2xl 
@@ -188,7 +180,7 @@ export const Navbar = () => {
                   
                   {!isSearching && results.length > 0 && (
                     <div className="max-h-80 overflow-auto">
-                      {results.map((r, index) => (
+                      {results.map((r) => (
                         <div
                           key={`${r.type}-${r.id}`}
                           className="group px-6 py-3.5 hover:bg-mint/10 cursor-pointer transition-all duration-200
@@ -221,13 +213,18 @@ export const Navbar = () => {
 
           {/* Desktop Auth with modern buttons */}
           <div className="hidden lg:flex items-center gap-4">
+            <SyncStatus />
             {user ? (
               <div className="flex items-center gap-4">
-                <div className="flex items-center gap-3 px-4 py-2 rounded-xl bg-deepteal/30 backdrop-blur-lg border border-mint/20">
-                  {user.user_metadata?.avatar_url && (
+                <Link
+                  to="/settings"
+                  title="Profile settings"
+                  className="flex items-center gap-3 px-4 py-2 rounded-xl bg-deepteal/30 backdrop-blur-lg border border-mint/20 hover:border-mint/40 transition-all duration-300"
+                >
+                  {avatarUrl && (
                     <div className="relative">
                       <img
-                        src={user.user_metadata.avatar_url}
+                        src={avatarUrl}
                         alt="Avatar"
                         className="w-8 h-8 rounded-full object-cover ring-2 ring-mint/40"
                       />
@@ -237,7 +234,7 @@ export const Navbar = () => {
                   <span className="text-tcream font-mono text-sm font-medium truncate max-w-32">
                     {displayName}
                   </span>
-                </div>
+                </Link>
                 <button
                   onClick={signOut}
                   className="relative px-5 py-2.5 bg-gradient-to-r from-red-500/90 to-red-600/90 hover:from-red-600 hover:to-red-700 
@@ -251,8 +248,9 @@ export const Navbar = () => {
                 </button>
               </div>
             ) : (
-              <button
-                onClick={signInWithGitHub}
+              <Link
+                to="/signin"
+                state={signInState}
                 className="relative px-6 py-3 bg-gradient-to-r from-mint/80 via-teal/80 to-mint/90 
                          hover:from-mint hover:via-teal hover:to-mint text-deepteal font-mono font-semibold 
                          rounded-xl transition-all duration-300 shadow-lg hover:shadow-xl hover:scale-105 
@@ -261,18 +259,20 @@ export const Navbar = () => {
                          hover:before:opacity-100 before:transition-opacity before:duration-300"
               >
                 <span className="relative flex items-center gap-2">
-                  <svg className="w-5 h-5 group-hover:rotate-12 transition-transform duration-300" 
-                       fill="currentColor" viewBox="0 0 24 24">
-                    <path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z"/>
+                  <svg className="w-5 h-5 group-hover:translate-x-0.5 transition-transform duration-300"
+                       fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                          d="M11 16l-4-4m0 0l4-4m-4 4h14m-5 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h7a3 3 0 013 3v1" />
                   </svg>
-                  Sign in with GitHub
+                  Sign In
                 </span>
-              </button>
+              </Link>
             )}
           </div>
 
           {/* Modern Mobile Menu Button */}
-          <div className="lg:hidden">
+          <div className="lg:hidden flex items-center gap-3">
+            <SyncStatus />
             <button
               onClick={() => setMenuOpen(!menuOpen)}
               className="relative p-3 text-tcream rounded-xl bg-deepteal/30 backdrop-blur-lg border border-mint/20 
@@ -359,12 +359,16 @@ export const Navbar = () => {
             <div className="space-y-4">
               {user ? (
                 <>
-                  <div className="flex items-center space-x-3 p-4 bg-deepteal/40 backdrop-blur-lg 
-                                rounded-2xl border border-mint/20">
-                    {user.user_metadata?.avatar_url && (
+                  <Link
+                    to="/settings"
+                    onClick={() => setMenuOpen(false)}
+                    className="flex items-center space-x-3 p-4 bg-deepteal/40 backdrop-blur-lg 
+                                rounded-2xl border border-mint/20"
+                  >
+                    {avatarUrl && (
                       <div className="relative">
                         <img
-                          src={user.user_metadata.avatar_url}
+                          src={avatarUrl}
                           alt="Avatar"
                           className="w-10 h-10 rounded-full object-cover ring-2 ring-mint/40"
                         />
@@ -372,7 +376,7 @@ export const Navbar = () => {
                       </div>
                     )}
                     <span className="text-tcream font-mono font-medium">{displayName}</span>
-                  </div>
+                  </Link>
                   <button
                     onClick={signOut}
                     className="w-full px-6 py-4 bg-gradient-to-r from-red-500/90 to-red-600/90 
@@ -384,18 +388,17 @@ export const Navbar = () => {
                   </button>
                 </>
               ) : (
-                <button
-                  onClick={signInWithGitHub}
+                <Link
+                  to="/signin"
+                  state={signInState}
+                  onClick={() => setMenuOpen(false)}
                   className="w-full px-6 py-4 bg-gradient-to-r from-mint/80 via-teal/80 to-mint/90 
                            hover:from-mint hover:via-teal hover:to-mint text-deepteal font-mono font-semibold 
                            rounded-2xl transition-all duration-300 shadow-lg hover:shadow-xl 
                            hover:scale-[1.02] active:scale-95 flex items-center justify-center gap-3"
                 >
-                  <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
-                    <path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z"/>
-                  </svg>
-                  Sign in with GitHub
-                </button>
+                  Sign In
+                </Link>
               )}
             </div>
           </div>
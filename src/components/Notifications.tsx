@@ -0,0 +1,126 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { getNotifications, subscribeNotifications, toast, type ConfirmRequest, type Toast, type ToastKind } from "../notifications";
+
+const kindStyles: Record<ToastKind, { accent: string; icon: string }> = {
+  success: { accent: "border-teal/40 from-teal/25 to-mediumteal/20", icon: "bg-teal text-tcream" },
+  error: { accent: "border-red-500/40 from-red-500/20 to-red-600/10", icon: "bg-red-500 text-white" },
+  info: { accent: "border-mint/30 from-mint/20 to-sage/15", icon: "bg-mint text-deepteal" },
+};
+
+const kindIcon: Record<ToastKind, string> = {
+  success: "✓",
+  error: "!",
+  info: "i",
+};
+
+const ToastCard = ({ item }: { item: Toast }) => {
+  const style = kindStyles[item.kind];
+
+  return (
+    <div
+      role={item.kind === "error" ? "alert" : "status"}
+      className={`pointer-events-auto flex items-start gap-3 w-80 max-w-[calc(100vw-2rem)] p-4 rounded-2xl
+                  bg-deepteal/85 bg-gradient-to-br ${style.accent} backdrop-blur-2xl border shadow-2xl
+                  animate-in fade-in-0 slide-in-from-bottom-2 duration-200`}
+    >
+      <div className={`w-6 h-6 flex-shrink-0 rounded-full flex items-center justify-center text-xs font-bold ${style.icon}`}>
+        {kindIcon[item.kind]}
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <p className="font-mono font-medium text-sm text-tcream">{item.title}</p>
+        {item.description && <p className="mt-1 text-xs text-mint/90 break-words">{item.description}</p>}
+      </div>
+
+      {item.action && (
+        <button
+          onClick={() => {
+            item.action?.onClick();
+            toast.dismiss(item.id);
+          }}
+          className="px-3 py-1 rounded-lg bg-mint/20 hover:bg-mint/30 text-mint font-mono text-xs font-semibold transition-colors duration-200"
+        >
+          {item.action.label}
+        </button>
+      )}
+
+      <button
+        onClick={() => toast.dismiss(item.id)}
+        aria-label="Dismiss notification"
+        className="text-sage hover:text-tcream transition-colors duration-200"
+      >
+        <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+};
+
+const ConfirmDialog = ({ request }: { request: ConfirmRequest }) => {
+  // Escape cancels, like clicking outside
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") request.resolve(false);
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [request]);
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-deepteal/60 backdrop-blur-sm"
+      onClick={() => request.resolve(false)}
+    >
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="confirm-dialog-title"
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md rounded-2xl bg-gradient-to-br from-tcream via-tcream to-mint/20 dark:from-deepteal dark:via-deepteal dark:to-mediumteal/30
+                   border border-mint/30 dark:border-sage/20 shadow-2xl p-6 space-y-4"
+      >
+        <h2 id="confirm-dialog-title" className="text-lg font-bold font-mono text-deepteal dark:text-tcream">
+          {request.title}
+        </h2>
+        <p className="text-sm text-mediumteal dark:text-mint">{request.message}</p>
+
+        <div className="flex justify-end gap-3 pt-2">
+          <button
+            onClick={() => request.resolve(false)}
+            className="px-5 py-2.5 rounded-xl font-mono text-sm font-medium bg-sage/20 hover:bg-sage/30 text-deepteal dark:text-tcream transition-colors duration-200"
+          >
+            {request.cancelLabel ?? "Cancel"}
+          </button>
+          <button
+            autoFocus
+            onClick={() => request.resolve(true)}
+            className={`px-5 py-2.5 rounded-xl font-mono text-sm font-medium text-tcream shadow-lg transition-all duration-200 ${
+              request.destructive
+                ? "bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700"
+                : "bg-gradient-to-r from-teal to-mediumteal hover:from-mediumteal hover:to-teal"
+            }`}
+          >
+            {request.confirmLabel ?? "Confirm"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/** Renders the app-wide toasts and confirm dialog from the notification store. */
+export const Notifications = () => {
+  const { toasts, confirm } = useSyncExternalStore(subscribeNotifications, getNotifications);
+
+  return (
+    <>
+      <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-[60] flex flex-col items-center gap-3 pointer-events-none">
+        {toasts.map((item) => (
+          <ToastCard key={item.id} item={item} />
+        ))}
+      </div>
+      {confirm && <ConfirmDialog request={confirm} />}
+    </>
+  );
+};
@@ -1,34 +1,26 @@
+import { useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import type { Post } from "./PostList";
-import { supabase } from "../supabase-client";
+import { deletePost as deletePostById, fetchCommunityById, fetchPostById, type Community, type Post } from "../api";
 import { LikeButton } from "./LikeButton";
 import { CommentSection } from "./CommentSection";
-import { useAuth } from "../context/AuthContext";
+import { usePermissions } from "../hooks/usePermissions";
+import { postImages } from "../images";
+import { toast } from "../notifications";
+import { AuthorLink } from "./AuthorLink";
+import { EditedMarker } from "./EditedMarker";
+import { EditPost } from "./EditPost";
+import { FollowButton } from "./FollowButton";
+import { ImageGallery } from "./ImageGallery";
+import { Markdown } from "./Markdown";
+import { PostModerationActions } from "./PostModerationActions";
 
 interface Props {
   postId: number;
 }
 
-interface Community {
-  id: number;
-  name: string;
-  author: string;
-}
-
-const fetchPostById = async (id: number): Promise<Post> => {
-  const { data, error } = await supabase
-    .from("posts")
-    .select("*")
-    .eq("id", id)
-    .single();
-
-  if (error) throw new Error(error.message);
-  return data as Post;
-};
-
 export const PostDetail = ({ postId }: Props) => {
   const queryClient = useQueryClient();
-  const { user } = useAuth();
+  const { can } = usePermissions();
 
   // Fetch post
   const {
@@ -47,44 +39,41 @@ export const PostDetail = ({ postId }: Props) => {
     error: communityError,
   } = useQuery<Community | null, Error>({
     queryKey: ["community_for_post", post?.community_id],
-    queryFn: async () => {
-      if (!post?.community_id) return null;
-      const { data: communityRow, error: communityErr } = await supabase
-        .from("communities")
-        .select("*")
-        .eq("id", post.community_id)
-        .single();
-      if (communityErr) throw new Error(communityErr.message);
-      return communityRow;
-    },
+    queryFn: () => (post?.community_id ? fetchCommunityById(post.community_id) : null),
     enabled: !!post?.community_id,
   });
 
-  const canDelete =
-    !!user &&
-    !!post &&
-    (post.author === user.id || (!!community && community.author === user.id));
+  const canDelete = can("post.delete", post);
+  const canEdit = can("post.edit", post);
+
+  const [isDeleteScheduled, setDeleteScheduled] = useState(false);
+  const [isEditing, setEditing] = useState(false);
 
   // Mutation for deleting post
   const {
     mutate: deletePost,
     isPending: isDeleting,
-    error: deleteError,
     isSuccess: isDeleted,
   } = useMutation({
-    mutationFn: async () => {
-      const { error: delErr } = await supabase
-        .from("posts")
-        .delete()
-        .eq("id", postId);
-      if (delErr) throw new Error(delErr.message);
-    },
+    mutationFn: () => deletePostById(postId),
+    meta: { errorMessage: "Failed to delete post" },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["posts"] });
       queryClient.removeQueries({ queryKey: ["post", postId] });
     },
+    onError: () => setDeleteScheduled(false),
   });
 
+  // The delete only runs once the undo toast closes or the page is left
+  const scheduleDelete = () => {
+    setDeleteScheduled(true);
+    toast.undoable("Deleting post", {
+      description: post?.title,
+      onCommit: () => deletePost(),
+      onUndo: () => setDeleteScheduled(false),
+    });
+  };
+
   // Handle loading states
   if (isPostLoading || isCommunityLoading) {
     return (
@@ -202,6 +191,14 @@ export const PostDetail = ({ postId }: Props) => {
               <span className="text-xs font-mono text-teal">Announcement</span>
             </div>
           )}
+          {post.is_locked && (
+            <div className="px-3 py-1.5 bg-orange-500/10 border border-orange-500/20 rounded-lg flex items-center space-x-2">
+              <svg className="w-4 h-4 text-orange-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+              </svg>
+              <span className="text-xs font-mono text-orange-400">Locked</span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -213,117 +210,135 @@ export const PostDetail = ({ postId }: Props) => {
         {/* Corner accent */}
         <div className="absolute top-0 right-0 w-32 h-32 bg-gradient-to-bl from-teal/20 to-transparent rounded-bl-3xl opacity-60"></div>
         
-        <div className="relative p-8 space-y-8">
-          {/* Post Title */}
-          <div className="text-center space-y-4">
-            <h1 className="text-3xl md:text-4xl font-bold font-mono text-deepteal dark:text-tcream leading-tight">
-              {post.title}
-            </h1>
-            
-            {/* Post Meta */}
-            <div className="flex items-center justify-center space-x-4 text-sm font-mono">
-              <div className="flex items-center space-x-2 px-3 py-1.5 bg-sage/10 dark:bg-mint/10 border border-sage/20 dark:border-mint/20 rounded-lg">
-                <svg className="w-4 h-4 text-sage dark:text-mint" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                </svg>
-                <span className="text-mediumteal dark:text-sage">
-                  {new Date(post.created_at).toLocaleDateString('en-US', {
-                    month: 'short',
-                    day: '2-digit',
-                    year: 'numeric',
-                    hour: '2-digit',
-                    minute: '2-digit'
-                  })}
-                </span>
-              </div>
+        {isEditing ? (
+          <div className="relative p-8">
+            <EditPost post={post} onDone={() => setEditing(false)} />
+          </div>
+        ) : (
+          <div className="relative p-8 space-y-8">
+            {/* Post Title */}
+            <div className="text-center space-y-4">
+              <h1 className="text-3xl md:text-4xl font-bold font-mono text-deepteal dark:text-tcream leading-tight">
+                {post.title}
+              </h1>
               
-              {community && (
-                <div className="flex items-center space-x-2 px-3 py-1.5 bg-mint/10 dark:bg-sage/10 border border-mint/20 dark:border-sage/20 rounded-lg">
-                  <svg className="w-4 h-4 text-mint dark:text-sage" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+              {/* Post Meta */}
+              <div className="flex items-center justify-center space-x-4 text-sm font-mono">
+                {post.author_profile && (
+                  <div className="flex items-center space-x-2 px-3 py-1.5 bg-teal/10 border border-teal/20 rounded-lg">
+                    {post.author_profile.avatar_url ? (
+                      <img src={post.author_profile.avatar_url} alt="" className="w-5 h-5 rounded-full object-cover" />
+                    ) : (
+                      <div className="w-5 h-5 rounded-full bg-gradient-to-br from-mediumteal to-sage" />
+                    )}
+                    <AuthorLink profile={post.author_profile} className="text-mediumteal dark:text-sage" />
+                    <FollowButton userId={post.author_profile.id} size="sm" />
+                  </div>
+                )}
+
+                <div className="flex items-center space-x-2 px-3 py-1.5 bg-sage/10 dark:bg-mint/10 border border-sage/20 dark:border-mint/20 rounded-lg">
+                  <svg className="w-4 h-4 text-sage dark:text-mint" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
                   </svg>
-                  <span className="text-mediumteal dark:text-sage">{community.name}</span>
+                  <span className="text-mediumteal dark:text-sage">
+                    {new Date(post.created_at).toLocaleDateString('en-US', {
+                      month: 'short',
+                      day: '2-digit',
+                      year: 'numeric',
+                      hour: '2-digit',
+                      minute: '2-digit'
+                    })}
+                  </span>
+                  <EditedMarker post={post} className="text-mediumteal dark:text-sage" />
                 </div>
-              )}
-            </div>
-          </div>
-
-          {/* Post Image */}
-          {post.image_url && (
-            <div className="flex justify-center">
-              <div className="relative group max-w-2xl">
-                <img
-                  src={post.image_url}
-                  alt={post.title}
-                  className="w-full rounded-xl object-cover shadow-2xl border border-mint/30 dark:border-sage/30 transition-all duration-300 group-hover:shadow-3xl max-h-96"
-                />
-                {/* Image overlay on hover */}
-                <div className="absolute inset-0 bg-gradient-to-t from-deepteal/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 rounded-xl"></div>
+                
+                {community && (
+                  <div className="flex items-center space-x-2 px-3 py-1.5 bg-mint/10 dark:bg-sage/10 border border-mint/20 dark:border-sage/20 rounded-lg">
+                    <svg className="w-4 h-4 text-mint dark:text-sage" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                    </svg>
+                    <span className="text-mediumteal dark:text-sage">{community.name}</span>
+                  </div>
+                )}
               </div>
             </div>
-          )}
 
-          {/* Post Content */}
-          <div className="prose prose-lg max-w-none">
-            <p className="text-deepteal dark:text-tcream leading-relaxed font-light text-lg">
-              {post.content}
-            </p>
-          </div>
+            {/* Post Images */}
+            {post.image_url && (
+              <div className="flex justify-center">
+                <div className="relative w-full max-w-2xl">
+                  <ImageGallery
+                    images={postImages(post)}
+                    alt={post.title}
+                    imageClassName="w-full rounded-xl object-cover shadow-2xl border border-mint/30 dark:border-sage/30 max-h-96"
+                  />
+                </div>
+              </div>
+            )}
 
-          {/* Action Bar */}
-          <div className="flex items-center justify-between pt-6 border-t border-mint/20 dark:border-sage/20">
-            <div className="flex items-center space-x-4">
-              <LikeButton postId={postId} />
+            {/* Post Content */}
+            <div className="text-deepteal dark:text-tcream leading-relaxed font-light text-lg">
+              <Markdown content={post.content} />
             </div>
 
-            {/* Delete Button */}
-            {canDelete && (
-              <div className="flex items-center space-x-3">
-                {isDeleted && (
-                  <div className="flex items-center space-x-2 text-sage">
-                    <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                    </svg>
-                    <span className="text-sm font-mono">Deleted!</span>
-                  </div>
-                )}
-                
-                <button
-                  onClick={() => deletePost()}
-                  disabled={isDeleting}
-                  className={`px-4 py-2.5 rounded-xl font-mono font-medium transition-all duration-200 inline-flex items-center gap-2 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 ${
-                    isDeleting
-                      ? "opacity-60 bg-red-500/50 text-tcream cursor-not-allowed" 
-                      : "bg-gradient-to-r from-red-500 to-red-600 text-tcream hover:from-red-600 hover:to-red-700"
-                  }`}
-                >
-                  {isDeleting && (
-                    <div className="w-4 h-4 border-2 border-tcream/30 border-t-tcream rounded-full animate-spin"></div>
-                  )}
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                  </svg>
-                  {isDeleting ? "Deleting..." : "Delete Post"}
-                </button>
+            {/* Action Bar */}
+            <div className="flex items-center justify-between pt-6 border-t border-mint/20 dark:border-sage/20">
+              <div className="flex items-center space-x-4">
+                <LikeButton postId={postId} />
+                <PostModerationActions post={post} />
               </div>
-            )}
-          </div>
 
-          {/* Delete Error */}
-          {deleteError && (
-            <div className="flex items-center gap-3 bg-red-500/10 border border-red-500/20 rounded-xl p-4">
-              <div className="w-6 h-6 border-2 border-red-500 rounded-full flex items-center justify-center">
-                <span className="text-red-500 text-xs font-bold">!</span>
-              </div>
-              <p className="font-mono text-red-400">{deleteError.message}</p>
+              {(canEdit || canDelete) && (
+                <div className="flex items-center space-x-3">
+                  {canEdit && (
+                    <button
+                      onClick={() => setEditing(true)}
+                      className="px-4 py-2.5 rounded-xl font-mono font-medium transition-all duration-200 inline-flex items-center gap-2 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 bg-mint/10 dark:bg-sage/10 border border-mint/20 dark:border-sage/20 text-mediumteal dark:text-mint hover:bg-mint/20"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                      </svg>
+                      Edit Post
+                    </button>
+                  )}
+                  {isDeleted && (
+                    <div className="flex items-center space-x-2 text-sage">
+                      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                        <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                      </svg>
+                      <span className="text-sm font-mono">Deleted!</span>
+                    </div>
+                  )}
+                  
+                  {canDelete && (
+                    <button
+                      onClick={scheduleDelete}
+                      disabled={isDeleting || isDeleteScheduled}
+                      className={`px-4 py-2.5 rounded-xl font-mono font-medium transition-all duration-200 inline-flex items-center gap-2 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 ${
+                        isDeleting || isDeleteScheduled
+                          ? "opacity-60 bg-red-500/50 text-tcream cursor-not-allowed" 
+                          : "bg-gradient-to-r from-red-500 to-red-600 text-tcream hover:from-red-600 hover:to-red-700"
+                      }`}
+                    >
+                      {(isDeleting || isDeleteScheduled) && (
+                        <div className="w-4 h-4 border-2 border-tcream/30 border-t-tcream rounded-full animate-spin"></div>
+                      )}
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                      {isDeleting || isDeleteScheduled ? "Deleting..." : "Delete Post"}
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
-          )}
-        </div>
+          </div>
+        )}
       </div>
 
       {/* Comments Section */}
       <div className="mx-8">
-        <CommentSection postId={postId} />
+        <CommentSection post={post} />
       </div>
     </div>
   );
@@ -0,0 +1,286 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import { diffLines, diffWordsWithSpace } from "diff";
+import { fetchPostById, fetchPostRevisions, type Post, type PostRevision } from "../api";
+import { postImages } from "../images";
+
+interface Line {
+  number: number;
+  text: string;
+}
+
+// One row of the side-by-side view. A side is missing where the other one
+// added or removed lines; both sides are set and differ where a line changed.
+interface Row {
+  before?: Line;
+  after?: Line;
+  changed: boolean;
+}
+
+const splitLines = (value: string) => value.replace(/\n$/, "").split("\n");
+
+const toRows = (before: string, after: string): Row[] => {
+  const rows: Row[] = [];
+  let beforeNumber = 1;
+  let afterNumber = 1;
+  let removed: string[] = [];
+
+  // Removed lines are held back so they can be paired with the lines that replaced them
+  const flush = (added: string[]) => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({
+        before: i < removed.length ? { number: beforeNumber++, text: removed[i] } : undefined,
+        after: i < added.length ? { number: afterNumber++, text: added[i] } : undefined,
+        changed: true,
+      });
+    }
+    removed = [];
+  };
+
+  for (const change of diffLines(before, after)) {
+    const lines = splitLines(change.value);
+    if (change.removed) {
+      removed.push(...lines);
+    } else if (change.added) {
+      flush(lines);
+    } else {
+      flush([]);
+      lines.forEach((text) =>
+        rows.push({
+          before: { number: beforeNumber++, text },
+          after: { number: afterNumber++, text },
+          changed: false,
+        })
+      );
+    }
+  }
+  flush([]);
+  return rows;
+};
+
+const revisionFromPost = (post: Post): PostRevision => ({
+  id: 0,
+  post_id: post.id,
+  title: post.title,
+  content: post.content,
+  image_url: post.image_url,
+  image_urls: post.image_urls,
+  created_at: post.edited_at ?? post.created_at,
+});
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString("en-US", {
+    month: "short",
+    day: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+/** Words that differ between a changed pair of lines, marked on one side. */
+const LineText = ({ line, other, side }: { line: Line; other?: Line; side: "before" | "after" }) => {
+  if (!other) return <>{line.text}</>;
+  const parts = side === "before" ? diffWordsWithSpace(line.text, other.text) : diffWordsWithSpace(other.text, line.text);
+  return (
+    <>
+      {parts.map((part, i) => {
+        if (side === "before" ? part.added : part.removed) return null;
+        const marked = side === "before" ? part.removed : part.added;
+        return (
+          <span key={i} className={marked ? (side === "before" ? "bg-red-500/30 rounded" : "bg-teal/40 rounded") : undefined}>
+            {part.value}
+          </span>
+        );
+      })}
+    </>
+  );
+};
+
+const DiffCell = ({ row, side }: { row: Row; side: "before" | "after" }) => {
+  const line = row[side];
+  const other = row[side === "before" ? "after" : "before"];
+  const tint = !row.changed ? "" : side === "before" ? "bg-red-500/10" : "bg-teal/15";
+  return (
+    <td className={`align-top w-1/2 ${line ? tint : "bg-sage/5"}`}>
+      {line && (
+        <div className="flex">
+          <span className="select-none w-10 shrink-0 pr-3 text-right text-sage/70">{line.number}</span>
+          <span className="flex-1 whitespace-pre-wrap break-words pr-3">
+            {row.changed ? <LineText line={line} other={other} side={side} /> : line.text}
+          </span>
+        </div>
+      )}
+    </td>
+  );
+};
+
+const RevisionDiff = ({ before, after }: { before: PostRevision; after: PostRevision }) => {
+  const rows = toRows(before.content ?? "", after.content ?? "");
+  const titleChanged = before.title !== after.title;
+  const imageChanged = postImages(before).join("\n") !== postImages(after).join("\n");
+
+  return (
+    <div className="space-y-6">
+      {/* Title */}
+      <div className="grid grid-cols-2 gap-4 font-mono">
+        {[before, after].map((revision, i) => (
+          <h2
+            key={i}
+            className={`text-xl font-bold px-3 py-2 rounded-lg text-deepteal dark:text-tcream ${
+              titleChanged ? (i === 0 ? "bg-red-500/10" : "bg-teal/15") : ""
+            }`}
+          >
+            {revision.title}
+          </h2>
+        ))}
+      </div>
+
+      {/* Images */}
+      {imageChanged && (
+        <div className="grid grid-cols-2 gap-4">
+          {[before, after].map((revision, i) => {
+            const images = postImages(revision);
+            return images.length > 0 ? (
+              <div key={i} className="flex flex-wrap gap-2">
+                {images.map((src, j) => (
+                  <img
+                    key={j}
+                    src={src}
+                    alt={`${revision.title} (${j + 1} of ${images.length})`}
+                    className="h-24 w-32 rounded-xl object-cover border border-mint/30 dark:border-sage/30"
+                  />
+                ))}
+              </div>
+            ) : (
+              <div key={i} className="text-sm font-mono text-mediumteal dark:text-sage italic">
+                No images
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Content */}
+      <div className="overflow-x-auto rounded-xl border border-mint/20 dark:border-sage/20">
+        <table className="w-full table-fixed border-collapse font-mono text-sm text-deepteal dark:text-tcream">
+          <tbody>
+            {rows.map((row, i) => (
+              <tr key={i} className="border-b border-mint/10 dark:border-sage/10 last:border-0">
+                <DiffCell row={row} side="before" />
+                <DiffCell row={row} side="after" />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+interface Props {
+  postId: number;
+}
+
+/** Every saved version of a post, with a side-by-side diff between any two of them. */
+export const PostHistory = ({ postId }: Props) => {
+  const { data: post, error: postError, isLoading: isPostLoading } = useQuery<Post, Error>({
+    queryKey: ["post", postId],
+    queryFn: () => fetchPostById(postId),
+  });
+
+  const {
+    data: revisions,
+    error: revisionsError,
+    isLoading: isRevisionsLoading,
+  } = useQuery<PostRevision[], Error>({
+    queryKey: ["postRevisions", postId],
+    queryFn: () => fetchPostRevisions(postId),
+  });
+
+  // Indexes into `versions`; null compares the latest version with the one before it
+  const [beforeIndex, setBeforeIndex] = useState<number | null>(null);
+  const [afterIndex, setAfterIndex] = useState<number | null>(null);
+
+  if (isPostLoading || isRevisionsLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="w-12 h-12 border-4 border-mint/20 border-t-mediumteal rounded-full animate-spin"></div>
+        <span className="ml-4 text-deepteal dark:text-tcream font-mono">Loading history...</span>
+      </div>
+    );
+  }
+
+  const error = postError ?? revisionsError;
+  if (error || !post) {
+    return (
+      <div className="max-w-lg mx-auto bg-red-500/10 border border-red-500/20 rounded-xl p-6 font-mono text-red-400">
+        {error?.message ?? "This post may have been deleted or doesn't exist."}
+      </div>
+    );
+  }
+
+  // Posts from before revisions were recorded have none yet
+  const versions = revisions?.length ? revisions : [revisionFromPost(post)];
+  const latest = versions.length - 1;
+  const before = beforeIndex ?? Math.max(latest - 1, 0);
+  const after = afterIndex ?? latest;
+
+  const versionLabel = (index: number) =>
+    `Version ${index + 1} · ${formatDate(versions[index].created_at)}${index === latest ? " (current)" : ""}`;
+
+  const selectClassName =
+    "px-3 py-2 rounded-xl bg-tcream/10 dark:bg-deepteal/30 border border-mint/30 dark:border-sage/20 text-deepteal dark:text-tcream font-mono text-sm focus:outline-none focus:ring-2 focus:ring-teal/50";
+
+  return (
+    <div className="w-full max-w-6xl mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center space-x-4 min-w-0">
+          <div className="h-8 w-1 bg-gradient-to-b from-deepteal to-sage rounded-full"></div>
+          <h1 className="text-3xl font-bold font-mono text-deepteal dark:text-tcream truncate">Revision History</h1>
+        </div>
+        <Link to={`/post/${post.id}`} className="shrink-0 text-sm font-mono text-teal hover:underline">
+          Back to post
+        </Link>
+      </div>
+
+      <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-tcream/5 via-mint/10 to-sage/5 dark:from-deepteal/20 dark:via-mediumteal/10 dark:to-sage/5 backdrop-blur-lg border border-mint/20 dark:border-sage/10 shadow-2xl p-8 space-y-6">
+        {versions.length === 1 ? (
+          <p className="text-sm font-mono text-mediumteal dark:text-sage">
+            This post has not been edited since it was published on {formatDate(versions[0].created_at)}.
+          </p>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            <select
+              value={before}
+              onChange={(e) => setBeforeIndex(Number(e.target.value))}
+              className={selectClassName}
+              aria-label="Compare from"
+            >
+              {versions.map((_, i) => (
+                <option key={i} value={i}>
+                  {versionLabel(i)}
+                </option>
+              ))}
+            </select>
+            <select
+              value={after}
+              onChange={(e) => setAfterIndex(Number(e.target.value))}
+              className={selectClassName}
+              aria-label="Compare to"
+            >
+              {versions.map((_, i) => (
+                <option key={i} value={i}>
+                  {versionLabel(i)}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <RevisionDiff before={versions[before]} after={versions[after]} />
+      </div>
+    </div>
+  );
+};
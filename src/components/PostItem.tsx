@@ -1,11 +1,22 @@
 import { Link } from "react-router";
-import type { Post } from "./PostList";
+import type { Post } from "../api";
+import { postImages } from "../images";
+import { useVoteSummary } from "../hooks/useVoteSummary";
+import { AuthorLink } from "./AuthorLink";
+import { FollowButton } from "./FollowButton";
+import { Markdown } from "./Markdown";
 
 interface Props {
   post: Post;
 }
 
 export const PostItem = ({ post }: Props) => {
+  // Seeded by the feed's batch request; never fetched per card.
+  const { data: summary } = useVoteSummary(post.id, { fetch: false });
+  const avatarUrl = post.author_profile?.avatar_url ?? post.avatar_url;
+  // The cover image stands for the whole gallery
+  const extraImages = postImages(post).length - 1;
+
   return (
     <div className="group relative overflow-hidden rounded-2xl bg-gradient-to-br from-tcream/5 via-mint/10 to-sage/5 dark:from-deepteal/20 dark:via-mediumteal/10 dark:to-sage/5 backdrop-blur-lg border border-mint/20 dark:border-sage/10 hover:border-mediumteal/40 dark:hover:border-mint/30 transition-all duration-300 hover:shadow-2xl hover:-translate-y-1">
       
@@ -26,9 +37,9 @@ export const PostItem = ({ post }: Props) => {
               <div className="w-1 h-1 bg-sage rounded-full animate-pulse" style={{ animationDelay: '0.5s' }}></div>
             </div>
             
-            {post.avatar_url ? (
+            {avatarUrl ? (
               <img 
-                src={post.avatar_url} 
+                src={avatarUrl} 
                 alt="User Avatar" 
                 className="w-9 h-9 rounded-full object-cover ring-2 ring-mint/30 dark:ring-sage/20" 
               />
@@ -40,7 +51,15 @@ export const PostItem = ({ post }: Props) => {
               <h3 className="text-sm font-bold font-mono text-deepteal dark:text-tcream truncate group-hover:text-mediumteal dark:group-hover:text-sage transition-colors duration-200">
                 {post.title}
               </h3>
-              <div className="text-xs font-mono text-sage dark:text-mint">
+              <div className="text-xs font-mono text-sage dark:text-mint truncate">
+                {post.author_profile && (
+                  <>
+                    <AuthorLink profile={post.author_profile} insideLink />
+                    {" "}
+                    <FollowButton userId={post.author_profile.id} size="sm" />
+                    <span className="mx-1">·</span>
+                  </>
+                )}
                 {new Date(post.created_at).toLocaleDateString('en-US', {
                   month: 'short',
                   day: '2-digit',
@@ -77,6 +96,13 @@ export const PostItem = ({ post }: Props) => {
                 {/* Image overlay with scan line effect */}
                 <div className="absolute inset-0 bg-gradient-to-t from-black/20 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
                 <div className="absolute bottom-0 left-0 right-0 h-px bg-gradient-to-r from-transparent via-mediumteal/60 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
+                {extraImages > 0 && (
+                  <div className="absolute bottom-2 right-2 px-2 py-1 bg-black/50 backdrop-blur-sm rounded-md">
+                    <span className="text-xs font-mono font-medium text-white" title={`${extraImages} more images`}>
+                      +{extraImages}
+                    </span>
+                  </div>
+                )}
               </>
             ) : (
               <div className="w-full h-full flex items-center justify-center">
@@ -97,7 +123,7 @@ export const PostItem = ({ post }: Props) => {
           {/* Content preview */}
           <div className="px-4 py-2 flex-1 min-h-0">
             <p className="text-xs text-mediumteal dark:text-mint leading-relaxed line-clamp-1 font-light">
-              {post.content ? post.content.substring(0, 100) + (post.content.length > 100 ? '...' : '') : 'No content preview available'}
+              {post.content ? <Markdown content={post.content} plain /> : 'No content preview available'}
             </p>
           </div>
 
@@ -109,7 +135,7 @@ export const PostItem = ({ post }: Props) => {
                   <div className="w-5 h-5 rounded-full bg-gradient-to-br from-red-500/20 to-pink-500/20 flex items-center justify-center group-hover/btn:from-red-500/40 group-hover/btn:to-pink-500/40 transition-all duration-200">
                     <span className="text-xs">❤️</span>
                   </div>
-                  <span className="font-mono text-xs">{post.like_count ?? 0}</span>
+                  <span className="font-mono text-xs">{summary?.likes ?? post.like_count ?? 0}</span>
                 </button>
                 
                 <button className="group/btn inline-flex items-center gap-2 text-sage dark:text-mint hover:text-teal dark:hover:text-sage transition-all duration-200 text-sm">
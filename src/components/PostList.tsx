@@ -1,72 +1,32 @@
-import { useQuery } from "@tanstack/react-query";
-import { supabase } from "../supabase-client";
 import { PostItem } from "./PostItem";
-import { useMemo, useState } from "react";
+import { useState } from "react";
+import { useFeed } from "../hooks/useFeed";
+import { FeedLoadMore } from "./FeedLoadMore";
+import { useAuth } from "../context/AuthContext";
 
-export interface Post {
-  id: number;
-  title: string;
-  content: string;
-  created_at: string;
-  image_url: string;
-  avatar_url?: string;
-  like_count?: number;
-  comment_count?: number;
-  is_announcement?: boolean;
-  author?: string;
-  community_id?: number;
-}
-
-const fetchPosts = async (): Promise<Post[]> => {
-  // Fetch counts (like_count/comment_count) via RPC
-  const [{ data: countsData, error: countsErr }, { data: baseData, error: baseErr }] = await Promise.all([
-    supabase.rpc("get_posts_with_counts"),
-    supabase
-      .from("posts")
-      .select("id,title,content,created_at,image_url,avatar_url,is_announcement,author,community_id")
-      .order("created_at", { ascending: false }),
-  ]);
-  if (countsErr) throw new Error(countsErr.message);
-  if (baseErr) throw new Error(baseErr.message);
-  const countsById = new Map<number, any>(
-    ((countsData as any[]) || []).map((p) => [p.id as number, p])
-  );
-  const merged: Post[] = ((baseData as any[]) || []).map((p) => {
-    const c = countsById.get(p.id) || {};
-    return {
-      id: p.id,
-      title: p.title,
-      content: p.content,
-      created_at: p.created_at,
-      image_url: p.image_url,
-      avatar_url: p.avatar_url ?? undefined,
-      like_count: c.like_count ?? 0,
-      comment_count: c.comment_count ?? 0,
-      is_announcement: p.is_announcement ?? false,
-      author: p.author ?? undefined,
-      community_id: p.community_id ?? undefined,
-    } as Post;
-  });
-  return merged;
-};
+type FeedTab = "all" | "following";
 
 export const PostList = () => {
   const [sortOrder, setSortOrder] = useState<"newest" | "oldest">("newest");
-  const { data, error, isLoading } = useQuery<Post[], Error>({
-    queryKey: ["posts"],
-    queryFn: fetchPosts,
-  });
-
-  const sorted = useMemo(() => {
-    const list = [...(data || [])];
-    return list.sort((a, b) => {
-      const aTime = new Date(a.created_at).getTime();
-      const bTime = new Date(b.created_at).getTime();
-      return sortOrder === "newest" ? bTime - aTime : aTime - bTime;
-    });
-  }, [data, sortOrder]);
+  const [tab, setTab] = useState<FeedTab>("all");
+  const { user } = useAuth();
+  // Signed-out users follow nobody, so they only get the full feed
+  const following = !!user && tab === "following";
+  // Pinned announcements are paged apart from the other posts, so older ones
+  // stay pinned instead of waiting for the page they would fall on
+  const pinned = useFeed(sortOrder, { following, announcements: true });
+  const {
+    posts: regularPosts,
+    total,
+    error,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useFeed(sortOrder, { following, announcements: false });
+  const announcements = pinned.posts;
 
-  if (isLoading) {
+  if (isLoading || pinned.isLoading) {
     return (
       <div className="flex items-center justify-center py-12">
         <div className="relative">
@@ -80,7 +40,7 @@ export const PostList = () => {
     );
   }
 
-  if (error) {
+  if (error || pinned.error) {
     return (
       <div className="flex items-center justify-center py-12">
         <div className="bg-red-500/10 border border-red-500/20 backdrop-blur-lg rounded-xl p-6 max-w-md">
@@ -90,7 +50,7 @@ export const PostList = () => {
             </div>
             <div>
               <h3 className="text-red-400 font-semibold">System Error</h3>
-              <p className="text-red-300 text-sm font-mono">{error.message}</p>
+              <p className="text-red-300 text-sm font-mono">{(error ?? pinned.error)?.message}</p>
             </div>
           </div>
         </div>
@@ -98,9 +58,6 @@ export const PostList = () => {
     );
   }
 
-  // Separate announcements from regular posts
-  const announcements = sorted?.filter(post => post.is_announcement) || [];
-  const regularPosts = sorted?.filter(post => !post.is_announcement) || [];
 
   return (
     <div className="max-w-7xl mx-auto space-y-8">
@@ -113,15 +70,31 @@ export const PostList = () => {
           </h1>
           <div className="flex items-center space-x-2">
             <div className="px-3 py-1 bg-mediumteal/10 border border-deepteal/20 rounded-full">
-              <span className="text-mediumteal text-sm font-mono">{sorted?.length || 0} posts</span>
+              <span className="text-mediumteal text-sm font-mono">{total + pinned.total} posts</span>
             </div>
-            {announcements.length > 0 && (
+            {pinned.total > 0 && (
               <div className="px-3 py-1 bg-orange-500/10 border border-orange-500/20 rounded-full">
-                <span className="text-orange-400 text-sm font-mono">{announcements.length} pinned</span>
+                <span className="text-orange-400 text-sm font-mono">{pinned.total} pinned</span>
               </div>
             )}
           </div>
         </div>
+
+        {user && (
+          <div className="flex gap-2 p-1 rounded-xl bg-mint/10 dark:bg-sage/10">
+            {(["all", "following"] as const).map((t) => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`px-4 py-2 rounded-lg font-mono text-sm transition-all duration-200 ${
+                  tab === t ? "bg-teal text-tcream shadow-lg" : "text-mediumteal dark:text-mint hover:bg-mint/20"
+                }`}
+              >
+                {t === "all" ? "All" : "Following"}
+              </button>
+            ))}
+          </div>
+        )}
         
         <div className="relative">
           <label className="mr-3 text-sm font-mono text-sage dark:text-mint">
@@ -129,7 +102,7 @@ export const PostList = () => {
           </label>
           <select
             value={sortOrder}
-            onChange={(e) => setSortOrder(e.target.value as any)}
+            onChange={(e) => setSortOrder(e.target.value as "newest" | "oldest")}
             className="appearance-none bg-tcream/10 dark:bg-deepteal/30 backdrop-blur-md border border-mint/30 dark:border-sage/20 rounded-xl px-4 py-2 pr-10 text-deepteal dark:text-tcream text-sm font-mono focus:outline-none focus:ring-2 focus:ring-mediumteal/50 focus:border-transparent shadow-lg hover:shadow-xl transition-all duration-200"
           >
             <option value="newest">Newest first</option>
@@ -172,6 +145,13 @@ export const PostList = () => {
               </div>
             ))}
           </div>
+          {pinned.hasNextPage && (
+            <FeedLoadMore
+              hasNextPage={pinned.hasNextPage}
+              isFetchingNextPage={pinned.isFetchingNextPage}
+              fetchNextPage={pinned.fetchNextPage}
+            />
+          )}
         </div>
       )}
 
@@ -206,7 +186,7 @@ export const PostList = () => {
       )}
 
       {/* Empty state */}
-      {sorted?.length === 0 && (
+      {announcements.length === 0 && regularPosts.length === 0 && (
         <div className="text-center py-20">
           <div className="w-32 h-32 mx-auto mb-8 bg-gradient-to-br from-mint/20 via-sage/20 to-mediumteal/20 rounded-full flex items-center justify-center relative overflow-hidden">
             <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent animate-pulse"></div>
@@ -218,7 +198,9 @@ export const PostList = () => {
             No Posts Yet
           </h3>
           <p className="text-sage dark:text-mint text-base max-w-md mx-auto leading-relaxed">
-            The community is waiting for fresh content. Be the first to share something amazing!
+            {following
+              ? "Posts from people you follow show up here. Follow someone from their profile or one of their posts."
+              : "The community is waiting for fresh content. Be the first to share something amazing!"}
           </p>
           <div className="mt-6 flex items-center justify-center space-x-2">
             <div className="w-2 h-2 bg-teal rounded-full animate-bounce"></div>
@@ -228,10 +210,11 @@ export const PostList = () => {
         </div>
       )}
 
-      {/* Load more indicator (if you implement pagination later) */}
-      <div className="flex justify-center pt-8">
-        <div className="h-px bg-gradient-to-r from-transparent via-sage/30 to-transparent w-full max-w-xs"></div>
-      </div>
+      <FeedLoadMore
+        hasNextPage={hasNextPage}
+        isFetchingNextPage={isFetchingNextPage}
+        fetchNextPage={fetchNextPage}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { updatePost, type Post, type PostUpdate } from "../api";
+import { usePermissions } from "../hooks/usePermissions";
+
+interface Props {
+  post: Post;
+}
+
+/** Pin and lock toggles, rendered only for users allowed to use them. */
+export const PostModerationActions = ({ post }: Props) => {
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canPin = can("post.pin", post);
+  const canLock = can("post.lock", post);
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: (changes: PostUpdate) => updatePost(post.id, changes),
+    meta: { errorMessage: "Couldn't update the post" },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["post", post.id] });
+      queryClient.invalidateQueries({ queryKey: ["post-details", post.id] });
+      queryClient.invalidateQueries({ queryKey: ["posts"] });
+    },
+  });
+
+  if (!canPin && !canLock) return null;
+
+  const buttonClassName =
+    "px-3 py-2 rounded-xl font-mono text-sm inline-flex items-center gap-2 border transition-all duration-200 disabled:opacity-60 disabled:cursor-not-allowed";
+
+  return (
+    <div className="flex items-center gap-2">
+      {canPin && (
+        <button
+          type="button"
+          onClick={() => mutate({ is_announcement: !post.is_announcement })}
+          disabled={isPending}
+          className={`${buttonClassName} ${
+            post.is_announcement
+              ? "bg-orange-500/15 border-orange-500/30 text-orange-400 hover:bg-orange-500/25"
+              : "bg-mint/10 dark:bg-sage/10 border-mint/20 dark:border-sage/20 text-mediumteal dark:text-mint hover:bg-mint/20"
+          }`}
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+          </svg>
+          {post.is_announcement ? "Unpin" : "Pin"}
+        </button>
+      )}
+      {canLock && (
+        <button
+          type="button"
+          onClick={() => mutate({ is_locked: !post.is_locked })}
+          disabled={isPending}
+          className={`${buttonClassName} ${
+            post.is_locked
+              ? "bg-orange-500/15 border-orange-500/30 text-orange-400 hover:bg-orange-500/25"
+              : "bg-mint/10 dark:bg-sage/10 border-mint/20 dark:border-sage/20 text-mediumteal dark:text-mint hover:bg-mint/20"
+          }`}
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+          </svg>
+          {post.is_locked ? "Unlock" : "Lock"}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import { useEffect, useMemo, useState, type ChangeEvent } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import { authorName, profilePath, updateProfile, type Profile, type ProfileUpdate } from "../api";
+import { profileByIdKey, useCurrentProfile } from "../hooks/useCurrentProfile";
+import { IMAGE_ACCEPT } from "../images";
+
+const DISPLAY_NAME_MAX = 50;
+const BIO_MAX = 280;
+
+const inputClassName =
+  "w-full px-4 py-3 rounded-xl bg-tcream/10 dark:bg-deepteal/30 backdrop-blur-md border border-mint/30 dark:border-sage/20 text-deepteal dark:text-tcream placeholder-mediumteal dark:placeholder-sage font-mono focus:outline-none focus:ring-2 focus:ring-teal/50 focus:border-transparent shadow-lg transition-all duration-200";
+
+export const ProfileSettings = () => {
+  const { data: profile, isLoading, error } = useCurrentProfile();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="w-12 h-12 border-4 border-mint/20 border-t-mediumteal rounded-full animate-spin"></div>
+        <span className="ml-4 text-deepteal dark:text-tcream font-mono">Loading profile...</span>
+      </div>
+    );
+  }
+
+  if (error || !profile) {
+    return (
+      <div className="max-w-lg mx-auto bg-red-500/10 border border-red-500/20 rounded-xl p-6 font-mono text-red-400">
+        {error?.message ?? "Your profile could not be found."}
+      </div>
+    );
+  }
+
+  // Keyed so the form starts over from the saved values when the profile changes
+  return <ProfileForm key={profile.id} profile={profile} />;
+};
+
+const ProfileForm = ({ profile }: { profile: Profile }) => {
+  const [displayName, setDisplayName] = useState<string>(profile.display_name ?? "");
+  const [bio, setBio] = useState<string>(profile.bio ?? "");
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  const [removeAvatar, setRemoveAvatar] = useState<boolean>(false);
+
+  const queryClient = useQueryClient();
+
+  const previewUrl = useMemo(() => (avatarFile ? URL.createObjectURL(avatarFile) : null), [avatarFile]);
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: ({ changes, file }: { changes: ProfileUpdate; file: File | null }) =>
+      updateProfile(profile.id, changes, file),
+    meta: { successMessage: "Profile saved", errorMessage: "Couldn't save your profile" },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(profileByIdKey(saved.id), saved);
+      setAvatarFile(null);
+      setRemoveAvatar(false);
+      // Posts and comments embed the author profile
+      queryClient.invalidateQueries({ queryKey: ["profile"] });
+      queryClient.invalidateQueries({ queryKey: ["posts"] });
+      queryClient.invalidateQueries({ queryKey: ["post"] });
+      queryClient.invalidateQueries({ queryKey: ["post-details"] });
+      queryClient.invalidateQueries({ queryKey: ["comments"] });
+    },
+  });
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setAvatarFile(file);
+    setRemoveAvatar(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const changes: ProfileUpdate = {
+      display_name: displayName.trim() || null,
+      bio: bio.trim() || null,
+    };
+    if (removeAvatar) changes.avatar_url = null;
+    mutate({ changes, file: avatarFile });
+  };
+
+  const shownAvatar = previewUrl ?? (removeAvatar ? null : profile.avatar_url);
+  const previewName = displayName.trim() || profile.username;
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex items-center space-x-4">
+        <div className="h-8 w-1 bg-gradient-to-b from-deepteal to-sage rounded-full"></div>
+        <h1 className="text-3xl font-bold font-mono text-deepteal dark:text-tcream">Profile Settings</h1>
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-tcream/5 via-mint/10 to-sage/5 dark:from-deepteal/20 dark:via-mediumteal/10 dark:to-sage/5 backdrop-blur-lg border border-mint/20 dark:border-sage/10 shadow-2xl p-8 space-y-6"
+      >
+        {/* Corner accent */}
+        <div className="absolute top-0 right-0 w-32 h-32 bg-gradient-to-bl from-sage/20 to-transparent rounded-bl-3xl opacity-60 pointer-events-none"></div>
+
+        {/* Avatar */}
+        <div className="relative flex items-center gap-6">
+          {shownAvatar ? (
+            <img
+              src={shownAvatar}
+              alt="Avatar preview"
+              className="w-24 h-24 rounded-full object-cover ring-4 ring-mint/30 dark:ring-sage/20 shadow-lg"
+            />
+          ) : (
+            <div className="w-24 h-24 rounded-full bg-gradient-to-br from-mediumteal to-sage shadow-lg flex items-center justify-center">
+              <span className="text-3xl font-bold text-white">{previewName.charAt(0).toUpperCase()}</span>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="inline-block px-4 py-2 rounded-xl bg-teal/80 hover:bg-teal text-tcream font-mono text-sm cursor-pointer transition-all duration-200 shadow-lg">
+              {shownAvatar ? "Change avatar" : "Upload avatar"}
+              <input type="file" accept={IMAGE_ACCEPT} onChange={handleFileChange} className="hidden" />
+            </label>
+            {(avatarFile || (profile.avatar_url && !removeAvatar)) && (
+              <button
+                type="button"
+                onClick={() => {
+                  setAvatarFile(null);
+                  setRemoveAvatar(!!profile.avatar_url && !avatarFile);
+                }}
+                className="block text-sm font-mono text-red-400 hover:underline"
+              >
+                {avatarFile ? "Discard new image" : "Remove avatar"}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Display name */}
+        <div className="relative space-y-2">
+          <label htmlFor="display-name" className="block text-sm font-medium font-mono text-deepteal dark:text-mint">
+            Display name
+          </label>
+          <input
+            id="display-name"
+            type="text"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            placeholder={profile.username}
+            maxLength={DISPLAY_NAME_MAX}
+            className={inputClassName}
+          />
+          <p className="text-xs font-mono text-sage dark:text-mint/70">
+            Shown on your posts and comments. Your username stays{" "}
+            <Link to={profilePath(profile.username)} className="text-teal hover:underline">
+              @{profile.username}
+            </Link>
+            .
+          </p>
+        </div>
+
+        {/* Bio */}
+        <div className="relative space-y-2">
+          <label htmlFor="bio" className="block text-sm font-medium font-mono text-deepteal dark:text-mint">
+            Bio
+          </label>
+          <textarea
+            id="bio"
+            value={bio}
+            onChange={(e) => setBio(e.target.value)}
+            rows={4}
+            maxLength={BIO_MAX}
+            placeholder="A few words about yourself"
+            className={`${inputClassName} resize-none`}
+          />
+          <div className="text-right text-xs font-mono text-sage dark:text-mint/70">
+            {bio.length}/{BIO_MAX}
+          </div>
+        </div>
+
+        <div className="relative flex items-center justify-between gap-4">
+          <span className="text-sm font-mono text-mediumteal dark:text-sage truncate">
+            Appears as <span className="font-semibold">{authorName({ ...profile, display_name: displayName.trim() || null })}</span>
+          </span>
+          <button
+            type="submit"
+            disabled={isPending}
+            className={`px-6 py-3 rounded-xl font-mono font-medium transition-all duration-200 inline-flex items-center gap-3 shadow-lg hover:shadow-xl ${
+              isPending
+                ? "opacity-60 bg-sage/50 text-tcream cursor-not-allowed"
+                : "bg-gradient-to-r from-teal to-mediumteal text-tcream hover:from-mediumteal hover:to-teal"
+            }`}
+          >
+            {isPending && (
+              <div className="w-4 h-4 border-2 border-tcream/30 border-t-tcream rounded-full animate-spin"></div>
+            )}
+            {isPending ? "Saving..." : "Save Profile"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
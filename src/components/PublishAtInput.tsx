@@ -0,0 +1,27 @@
+// datetime-local inputs work in local time without a zone, posts store ISO timestamps
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+interface Props {
+  id?: string;
+  /** ISO timestamp, or null for "now". */
+  value: string | null;
+  onChange: (value: string | null) => void;
+  className?: string;
+}
+
+/** A date and time in the future to publish a post at. */
+export const PublishAtInput = ({ id, value, onChange, className = "" }: Props) => (
+  <input
+    id={id}
+    type="datetime-local"
+    value={value ? toLocalInput(value) : ""}
+    min={toLocalInput(new Date().toISOString())}
+    onChange={(e) => onChange(fromLocalInput(e.target.value))}
+    className={className}
+  />
+);
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "react-router-dom";
+import { rememberReturnTo } from "../authRedirect";
+import type { OAuthProvider } from "../backend";
+import { config, providerLabel } from "../config";
+import { useAuth } from "../context/AuthContext";
+import { toast } from "../notifications";
+
+const inputClassName =
+  "w-full px-4 py-3 rounded-xl bg-tcream/10 dark:bg-deepteal/30 backdrop-blur-md border border-mint/30 dark:border-sage/20 text-deepteal dark:text-tcream placeholder-mediumteal dark:placeholder-sage font-mono focus:outline-none focus:ring-2 focus:ring-teal/50 focus:border-transparent shadow-lg transition-all duration-200";
+
+/**
+ * Asks the user to sign back in once their session has expired. The page
+ * stays mounted underneath, so unsaved input survives the round trip.
+ */
+export const ReauthPrompt = () => {
+  const { status, user } = useAuth();
+  if (status !== "expired" || !user) return null;
+  // Keyed so a different user's prompt starts empty
+  return <ReauthDialog key={user.id} email={user.email ?? ""} provider={user.app_metadata.provider} />;
+};
+
+const ReauthDialog = ({ email, provider }: { email: string; provider?: string }) => {
+  const [password, setPassword] = useState<string>("");
+  const { signInWithPassword, signInWithOAuth, signOut } = useAuth();
+  const location = useLocation();
+  const queryClient = useQueryClient();
+
+  // Offer the way the user signed in originally, falling back to a password
+  const oauthProvider = config.auth.oauthProviders.find((p) => p === provider);
+
+  const { mutate: reauthenticate, isPending } = useMutation({
+    mutationFn: () => signInWithPassword(email, password),
+    meta: { errorMessage: "Sign-in failed" },
+    onSuccess: () => {
+      toast.success("Signed in again");
+      // Whatever failed while the session was gone can load now
+      queryClient.invalidateQueries();
+    },
+  });
+
+  const { mutate: startOAuth, isPending: isRedirecting } = useMutation({
+    mutationFn: (provider: OAuthProvider) => {
+      rememberReturnTo(location.pathname + location.search);
+      return signInWithOAuth(provider);
+    },
+    meta: { errorMessage: "Sign-in failed" },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    reauthenticate();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-deepteal/60 backdrop-blur-sm">
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="reauth-dialog-title"
+        className="w-full max-w-md rounded-2xl bg-gradient-to-br from-tcream via-tcream to-mint/20 dark:from-deepteal dark:via-deepteal dark:to-mediumteal/30
+                   border border-mint/30 dark:border-sage/20 shadow-2xl p-6 space-y-4"
+      >
+        <h2 id="reauth-dialog-title" className="text-lg font-bold font-mono text-deepteal dark:text-tcream">
+          Your session has expired
+        </h2>
+        <p className="text-sm text-mediumteal dark:text-mint">
+          Sign in again as <span className="font-mono">{email}</span> to carry on. Nothing you were working on has been
+          lost.
+        </p>
+
+        {oauthProvider ? (
+          <button
+            type="button"
+            onClick={() => startOAuth(oauthProvider)}
+            disabled={isRedirecting}
+            className="w-full px-6 py-3 bg-gradient-to-r from-mint/80 via-teal/80 to-mint/90 hover:from-mint hover:via-teal hover:to-mint text-deepteal font-mono font-semibold rounded-xl transition-all duration-300 shadow-lg hover:shadow-xl active:scale-95 disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            Continue with {providerLabel(oauthProvider)}
+          </button>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              autoComplete="current-password"
+              autoFocus
+              className={inputClassName}
+              required
+            />
+            <button
+              type="submit"
+              disabled={isPending}
+              className="w-full px-5 py-2.5 rounded-xl font-mono text-sm font-medium text-tcream shadow-lg bg-gradient-to-r from-teal to-mediumteal hover:from-mediumteal hover:to-teal transition-all duration-200 disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {isPending ? "Signing in..." : "Sign in"}
+            </button>
+          </form>
+        )}
+
+        <div className="flex justify-end pt-2">
+          <button
+            type="button"
+            onClick={signOut}
+            className="px-5 py-2.5 rounded-xl font-mono text-sm font-medium bg-sage/20 hover:bg-sage/30 text-deepteal dark:text-tcream transition-colors duration-200"
+          >
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,28 @@
+import { Navigate, useLocation } from "react-router-dom";
+import { useAuth } from "../context/AuthContext";
+
+/** Location state passed to /signin so it can send the user back afterwards. */
+export interface SignInLocationState {
+  from?: string;
+}
+
+/** Renders `children` for signed-in users and sends everyone else to sign in. */
+export const RequireAuth = ({ children }: { children: React.ReactNode }) => {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="w-12 h-12 border-4 border-mint/20 border-t-mediumteal rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    const state: SignInLocationState = { from: location.pathname + location.search + location.hash };
+    return <Navigate to="/signin" replace state={state} />;
+  }
+
+  return <>{children}</>;
+};
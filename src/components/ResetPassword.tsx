@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link, useNavigate } from "react-router-dom";
+import { useAuth } from "../context/AuthContext";
+
+const inputClassName =
+  "w-full px-4 py-3 rounded-xl bg-tcream/10 dark:bg-deepteal/30 backdrop-blur-md border border-mint/30 dark:border-sage/20 text-deepteal dark:text-tcream placeholder-mediumteal dark:placeholder-sage font-mono focus:outline-none focus:ring-2 focus:ring-teal/50 focus:border-transparent shadow-lg transition-all duration-200";
+
+/** Target of the password reset email; the link has already signed the user in. */
+export const ResetPassword = () => {
+  const [password, setPassword] = useState<string>("");
+  const [confirmation, setConfirmation] = useState<string>("");
+  const { user, updatePassword } = useAuth();
+  const navigate = useNavigate();
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: updatePassword,
+    meta: { successMessage: "Password updated", errorMessage: "Couldn't update your password" },
+    onSuccess: () => navigate("/"),
+  });
+
+  const mismatch = confirmation.length > 0 && password !== confirmation;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmation) return;
+    mutate(password);
+  };
+
+  if (!user) {
+    return (
+      <div className="max-w-md mx-auto text-center space-y-4 py-10">
+        <h1 className="text-2xl font-bold font-mono text-deepteal dark:text-tcream">Reset link expired</h1>
+        <p className="text-sage dark:text-mint">
+          Open the link from your latest reset email, or{" "}
+          <Link to="/signin" className="text-teal hover:underline">
+            request a new one
+          </Link>
+          .
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto space-y-8">
+      <div className="flex items-center space-x-4">
+        <div className="h-8 w-1 bg-gradient-to-b from-deepteal to-sage rounded-full"></div>
+        <h1 className="text-3xl font-bold font-mono text-deepteal dark:text-tcream">New Password</h1>
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-tcream/5 via-mint/10 to-sage/5 dark:from-deepteal/20 dark:via-mediumteal/10 dark:to-sage/5 backdrop-blur-lg border border-mint/20 dark:border-sage/10 shadow-2xl p-8 space-y-4"
+      >
+        <p className="text-sm font-mono text-mediumteal dark:text-mint">
+          Choose a new password for <span className="font-semibold">{user.email}</span>.
+        </p>
+
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="New password"
+          autoComplete="new-password"
+          minLength={8}
+          className={inputClassName}
+          required
+        />
+        <input
+          type="password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          placeholder="Repeat new password"
+          autoComplete="new-password"
+          className={inputClassName}
+          required
+        />
+        {mismatch && <p className="text-sm font-mono text-red-400">Passwords do not match.</p>}
+
+        <button
+          type="submit"
+          disabled={isPending || mismatch}
+          className={`w-full px-6 py-3 rounded-xl font-mono font-medium transition-all duration-200 shadow-lg hover:shadow-xl ${
+            isPending || mismatch
+              ? "opacity-60 bg-sage/50 text-tcream cursor-not-allowed"
+              : "bg-gradient-to-r from-teal to-mediumteal text-tcream hover:from-mediumteal hover:to-teal"
+          }`}
+        >
+          {isPending ? "Saving..." : "Update Password"}
+        </button>
+      </form>
+    </div>
+  );
+};
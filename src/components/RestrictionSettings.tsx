@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { fetchProfileByUsername, restrictUser, type RestrictionKind } from "../api";
+import { useAuth } from "../context/AuthContext";
+import { restrictionsKey, useRestrictions } from "../hooks/useRestrictions";
+import { AuthorLink } from "./AuthorLink";
+
+const inputClassName =
+  "w-full px-4 py-2.5 rounded-xl bg-tcream/10 dark:bg-deepteal/30 backdrop-blur-md border border-mint/30 dark:border-sage/20 text-deepteal dark:text-tcream placeholder-mediumteal dark:placeholder-sage font-mono text-sm focus:outline-none focus:ring-2 focus:ring-teal/50 focus:border-transparent transition-all duration-200";
+
+const kindLabels: Record<RestrictionKind, string> = {
+  mute: "Muted",
+  block: "Blocked",
+};
+
+// Usernames are typed with or without the leading @
+const findUserId = async (username: string) => {
+  const profile = await fetchProfileByUsername(username.trim().replace(/^@/, ""));
+  if (!profile) throw new Error(`Nobody goes by @${username.trim().replace(/^@/, "")}`);
+  return profile.id;
+};
+
+/** Lists the users the signed-in user has muted or blocked, and adds more by username. */
+export const RestrictionSettings = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { restrictions, restrict, unrestrict, isPending } = useRestrictions();
+  const [username, setUsername] = useState("");
+  const [kind, setKind] = useState<RestrictionKind>("mute");
+
+  const { mutate: add, isPending: isAdding } = useMutation({
+    mutationFn: async ({ name, kind }: { name: string; kind: RestrictionKind }) =>
+      restrictUser(user!.id, await findUserId(name), kind),
+    meta: { errorMessage: "Couldn't update the user" },
+    onSuccess: () => setUsername(""),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: restrictionsKey(user?.id ?? null) }),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (username.trim()) add({ name: username, kind });
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div className="flex items-center space-x-4">
+        <div className="h-8 w-1 bg-gradient-to-b from-deepteal to-sage rounded-full"></div>
+        <h2 className="text-2xl font-bold font-mono text-deepteal dark:text-tcream">Muted and Blocked Users</h2>
+      </div>
+
+      <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-tcream/5 via-mint/10 to-sage/5 dark:from-deepteal/20 dark:via-mediumteal/10 dark:to-sage/5 backdrop-blur-lg border border-mint/20 dark:border-sage/10 shadow-2xl p-8 space-y-6">
+        <p className="text-sm font-mono text-mediumteal dark:text-sage">
+          Muting hides someone's posts and comments from you. Blocking also stops them from commenting on your posts
+          and replying to your comments. Nobody is told when you mute or block them.
+        </p>
+
+        <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
+          <input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            className={inputClassName}
+            placeholder="@username"
+          />
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as RestrictionKind)}
+            className={`${inputClassName} sm:w-36`}
+          >
+            <option value="mute">Mute</option>
+            <option value="block">Block</option>
+          </select>
+          <button
+            type="submit"
+            disabled={isPending || isAdding || !user}
+            className="px-5 py-2.5 rounded-xl font-mono text-sm font-medium bg-gradient-to-r from-teal to-mediumteal text-tcream hover:from-mediumteal hover:to-teal shadow-lg transition-all duration-200 disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            Add
+          </button>
+        </form>
+
+        {restrictions.length === 0 ? (
+          <p className="text-sm font-mono text-sage dark:text-mint">You haven't muted or blocked anyone.</p>
+        ) : (
+          <ul className="divide-y divide-mint/20 dark:divide-sage/10">
+            {restrictions.map((r) => (
+              <li key={r.target_id} className="flex items-center justify-between gap-4 py-3 font-mono text-sm">
+                <div className="flex items-center gap-3 min-w-0">
+                  <AuthorLink profile={r.profile} fallback="Deleted user" className="text-deepteal dark:text-tcream truncate" />
+                  <span
+                    className={`px-2 py-0.5 rounded-md text-xs border ${
+                      r.kind === "block"
+                        ? "bg-red-500/10 border-red-500/20 text-red-400"
+                        : "bg-teal/10 border-teal/20 text-teal"
+                    }`}
+                  >
+                    {kindLabels[r.kind]}
+                  </span>
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  {r.kind === "mute" && (
+                    <button type="button" onClick={() => restrict(r.target_id, "block")} className="text-xs text-red-400 hover:underline">
+                      Block
+                    </button>
+                  )}
+                  <button type="button" onClick={() => unrestrict(r.target_id)} className="text-xs text-teal hover:underline">
+                    {r.kind === "block" ? "Unblock" : "Unmute"}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
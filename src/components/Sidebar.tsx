@@ -152,6 +152,17 @@ export const Sidebar = () => {
                 </svg>
               }
             />
+
+            <NavItem
+              to="/settings"
+              label="Settings"
+              icon={
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" className="w-5 h-5">
+                  <circle cx="12" cy="8" r="4" strokeWidth="2" />
+                  <path strokeWidth="2" strokeLinecap="round" d="M4 21v-1a6 6 0 0112 0v1M19 11v6m-3-3h6" />
+                </svg>
+              }
+            />
           </div>
           
           
@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation, useNavigate } from "react-router-dom";
+import { forgetReturnTo, rememberReturnTo } from "../authRedirect";
+import type { OAuthProvider } from "../backend";
+import { config, providerLabel } from "../config";
+import { useAuth } from "../context/AuthContext";
+import { toast } from "../notifications";
+import type { SignInLocationState } from "./RequireAuth";
+
+type Mode = "password" | "signup" | "magic" | "reset";
+
+const modeTitles: Record<Mode, string> = {
+  password: "Sign in with email",
+  signup: "Create an account",
+  magic: "Email me a sign-in link",
+  reset: "Reset your password",
+};
+
+const inputClassName =
+  "w-full px-4 py-3 rounded-xl bg-tcream/10 dark:bg-deepteal/30 backdrop-blur-md border border-mint/30 dark:border-sage/20 text-deepteal dark:text-tcream placeholder-mediumteal dark:placeholder-sage font-mono focus:outline-none focus:ring-2 focus:ring-teal/50 focus:border-transparent shadow-lg transition-all duration-200";
+
+export const SignIn = () => {
+  const [mode, setMode] = useState<Mode>("password");
+  const [email, setEmail] = useState<string>("");
+  const [password, setPassword] = useState<string>("");
+  const [userName, setUserName] = useState<string>("");
+  // Set once a link has been emailed, replacing the form with a notice
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const { signInWithOAuth, signInWithMagicLink, signInWithPassword, signUpWithPassword, sendPasswordReset } =
+    useAuth();
+  const navigate = useNavigate();
+  const returnTo = (useLocation().state as SignInLocationState | null)?.from;
+
+  // Survives the trip to the OAuth provider or the inbox; AuthRedirect follows it
+  const rememberDestination = () => {
+    if (returnTo && mode !== "reset") rememberReturnTo(returnTo);
+    else forgetReturnTo();
+  };
+
+  const { mutate: submit, isPending } = useMutation({
+    mutationFn: async (): Promise<"signedIn" | "emailSent"> => {
+      switch (mode) {
+        case "password":
+          await signInWithPassword(email, password);
+          return "signedIn";
+        case "signup": {
+          const { confirmationRequired } = await signUpWithPassword(email, password, userName.trim());
+          return confirmationRequired ? "emailSent" : "signedIn";
+        }
+        case "magic":
+          await signInWithMagicLink(email);
+          // The memory backend signs in straight away
+          return config.backend === "memory" ? "signedIn" : "emailSent";
+        case "reset":
+          await sendPasswordReset(email);
+          return config.backend === "memory" ? "signedIn" : "emailSent";
+      }
+    },
+    meta: { errorMessage: "Sign-in failed" },
+    onSuccess: (result) => {
+      if (result === "emailSent") {
+        setSentTo(email);
+        return;
+      }
+      toast.success(mode === "signup" ? "Welcome aboard!" : "Signed in");
+      // Otherwise SignInPage moves on once the session arrives
+      if (mode === "reset") navigate("/reset-password");
+    },
+  });
+
+  const { mutate: startOAuth, isPending: isRedirecting } = useMutation({
+    mutationFn: (provider: OAuthProvider) => {
+      rememberDestination();
+      return signInWithOAuth(provider);
+    },
+    meta: { errorMessage: "Sign-in failed" },
+  });
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setSentTo(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    rememberDestination();
+    submit();
+  };
+
+  const needsPassword = mode === "password" || mode === "signup";
+
+  return (
+    <div className="max-w-md mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex items-center space-x-4">
+        <div className="h-8 w-1 bg-gradient-to-b from-deepteal to-sage rounded-full"></div>
+        <h1 className="text-3xl font-bold font-mono text-deepteal dark:text-tcream">Sign In</h1>
+        <div className="flex items-center space-x-1">
+          <div className="w-2 h-2 bg-sage rounded-full animate-pulse"></div>
+          <div className="w-1 h-1 bg-mint rounded-full animate-pulse" style={{ animationDelay: "0.5s" }}></div>
+        </div>
+      </div>
+
+      <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-tcream/5 via-mint/10 to-sage/5 dark:from-deepteal/20 dark:via-mediumteal/10 dark:to-sage/5 backdrop-blur-lg border border-mint/20 dark:border-sage/10 shadow-2xl">
+        {/* Corner accent */}
+        <div className="absolute top-0 right-0 w-32 h-32 bg-gradient-to-bl from-sage/20 to-transparent rounded-bl-3xl opacity-60"></div>
+
+        <div className="relative p-8 space-y-6">
+          {/* OAuth providers */}
+          {config.auth.oauthProviders.length > 0 && (
+            <>
+              <div className="space-y-3">
+                {config.auth.oauthProviders.map((provider) => (
+                  <button
+                    key={provider}
+                    type="button"
+                    onClick={() => startOAuth(provider)}
+                    disabled={isRedirecting}
+                    className="w-full px-6 py-3 bg-gradient-to-r from-mint/80 via-teal/80 to-mint/90 hover:from-mint hover:via-teal hover:to-mint text-deepteal font-mono font-semibold rounded-xl transition-all duration-300 shadow-lg hover:shadow-xl active:scale-95 disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    Continue with {providerLabel(provider)}
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex items-center gap-3 text-xs font-mono text-sage">
+                <div className="flex-1 h-px bg-mint/20"></div>
+                <span>or use email</span>
+                <div className="flex-1 h-px bg-mint/20"></div>
+              </div>
+            </>
+          )}
+
+          {/* Email method tabs */}
+          <div className="grid grid-cols-2 gap-2 p-1 rounded-xl bg-mint/10 dark:bg-sage/10">
+            {(["password", "magic"] as const).map((tab) => (
+              <button
+                key={tab}
+                type="button"
+                onClick={() => switchMode(tab)}
+                className={`py-2 rounded-lg font-mono text-sm transition-all duration-200 ${
+                  mode === tab || (tab === "password" && (mode === "signup" || mode === "reset"))
+                    ? "bg-teal text-tcream shadow-lg"
+                    : "text-mediumteal dark:text-mint hover:bg-mint/20"
+                }`}
+              >
+                {tab === "password" ? "Password" : "Magic link"}
+              </button>
+            ))}
+          </div>
+
+          {sentTo ? (
+            <div className="flex items-start gap-3 bg-teal/10 border border-teal/30 rounded-xl p-4">
+              <div className="w-6 h-6 bg-teal rounded-full flex items-center justify-center flex-shrink-0 text-tcream text-xs">
+                ✓
+              </div>
+              <div>
+                <p className="font-mono font-medium text-deepteal dark:text-tcream">Check your inbox</p>
+                <p className="text-sm text-mediumteal dark:text-mint">
+                  We sent a link to <span className="font-mono">{sentTo}</span>.{" "}
+                  {mode === "reset" ? "Follow it to choose a new password." : "Follow it to finish signing in."}
+                </p>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <h2 className="text-sm font-medium font-mono text-deepteal dark:text-mint">{modeTitles[mode]}</h2>
+
+              {mode === "signup" && (
+                <input
+                  type="text"
+                  value={userName}
+                  onChange={(e) => setUserName(e.target.value)}
+                  placeholder="Username"
+                  autoComplete="username"
+                  className={inputClassName}
+                  required
+                />
+              )}
+
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                autoComplete="email"
+                className={inputClassName}
+                required
+              />
+
+              {needsPassword && (
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Password"
+                  autoComplete={mode === "signup" ? "new-password" : "current-password"}
+                  minLength={mode === "signup" ? 8 : undefined}
+                  className={inputClassName}
+                  required
+                />
+              )}
+
+              <button
+                type="submit"
+                disabled={isPending}
+                className={`w-full px-6 py-3 rounded-xl font-mono font-medium transition-all duration-200 inline-flex items-center justify-center gap-3 shadow-lg hover:shadow-xl ${
+                  isPending
+                    ? "opacity-60 bg-sage/50 text-tcream cursor-not-allowed"
+                    : "bg-gradient-to-r from-teal to-mediumteal text-tcream hover:from-mediumteal hover:to-teal"
+                }`}
+              >
+                {isPending && (
+                  <div className="w-4 h-4 border-2 border-tcream/30 border-t-tcream rounded-full animate-spin"></div>
+                )}
+                {mode === "password" && "Sign In"}
+                {mode === "signup" && "Create Account"}
+                {mode === "magic" && "Send Link"}
+                {mode === "reset" && "Send Reset Link"}
+              </button>
+            </form>
+          )}
+
+          {/* Secondary password actions */}
+          {mode !== "magic" && (
+            <div className="flex justify-between text-sm font-mono">
+              {mode === "password" ? (
+                <>
+                  <button type="button" onClick={() => switchMode("reset")} className="text-mediumteal dark:text-mint hover:underline">
+                    Forgot password?
+                  </button>
+                  <button type="button" onClick={() => switchMode("signup")} className="text-teal hover:underline">
+                    Create account
+                  </button>
+                </>
+              ) : (
+                <button type="button" onClick={() => switchMode("password")} className="text-mediumteal dark:text-mint hover:underline">
+                  Back to sign in
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
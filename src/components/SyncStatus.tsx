@@ -0,0 +1,38 @@
+import { useSyncExternalStore } from "react";
+import { onlineManager, useMutationState } from "@tanstack/react-query";
+
+const subscribeOnline = (callback: () => void) => onlineManager.subscribe(callback);
+const getOnline = () => onlineManager.isOnline();
+
+/** Shows when the app is offline and how many changes are waiting to sync. */
+export const SyncStatus = () => {
+  const isOnline = useSyncExternalStore(subscribeOnline, getOnline);
+  const queued = useMutationState({
+    filters: { predicate: (mutation) => mutation.state.isPaused },
+    select: (mutation) => mutation.mutationId,
+  });
+
+  if (isOnline && queued.length === 0) return null;
+
+  const label = isOnline
+    ? `Syncing ${queued.length}...`
+    : queued.length > 0
+      ? `Offline · ${queued.length} pending`
+      : "Offline";
+
+  return (
+    <div
+      role="status"
+      title={queued.length > 0 ? "Queued changes are sent once the connection is back" : undefined}
+      className="flex items-center gap-2 px-3 py-1.5 rounded-xl bg-deepteal/30 backdrop-blur-lg border border-mint/20
+                 text-xs font-mono text-mint whitespace-nowrap"
+    >
+      {isOnline ? (
+        <div className="w-3 h-3 border-2 border-mint/30 border-t-mint rounded-full animate-spin"></div>
+      ) : (
+        <div className="w-2 h-2 bg-sage rounded-full animate-pulse"></div>
+      )}
+      <span>{label}</span>
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import {
+  authorName,
+  fetchCommentsByUser,
+  fetchCommunitiesByAuthor,
+  fetchPosts,
+  fetchProfileByUsername,
+  type Comment,
+  type Community,
+  type Post,
+  type Profile,
+} from "../api";
+import { useFollowCounts } from "../hooks/useFollows";
+import { useRestrictions } from "../hooks/useRestrictions";
+import { FollowButton } from "./FollowButton";
+import { PostItem } from "./PostItem";
+import { UserRestrictionActions } from "./UserRestrictionActions";
+
+interface Props {
+  username: string;
+}
+
+type Tab = "posts" | "comments" | "communities";
+
+const tabLabels: Record<Tab, string> = {
+  posts: "Posts",
+  comments: "Comments",
+  communities: "Communities",
+};
+
+export const UserProfile = ({ username }: Props) => {
+  const [tab, setTab] = useState<Tab>("posts");
+
+  const {
+    data: profile,
+    isLoading,
+    error,
+  } = useQuery<Profile | null, Error>({
+    queryKey: ["profile", username],
+    queryFn: () => fetchProfileByUsername(username),
+  });
+
+  const userId = profile?.id;
+
+  const { data: posts } = useQuery<Post[], Error>({
+    queryKey: ["posts", { author: userId }],
+    queryFn: () => fetchPosts({ author: userId }),
+    enabled: !!userId,
+  });
+
+  const { data: comments } = useQuery<Comment[], Error>({
+    queryKey: ["comments", "user", userId],
+    queryFn: () => fetchCommentsByUser(userId as string),
+    enabled: !!userId,
+  });
+
+  const { data: communities } = useQuery<Community[], Error>({
+    queryKey: ["communities", { author: userId }],
+    queryFn: () => fetchCommunitiesByAuthor(userId as string),
+    enabled: !!userId,
+  });
+
+  const { data: followCounts } = useFollowCounts(userId);
+  const { kindOf } = useRestrictions();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="w-12 h-12 border-4 border-mint/20 border-t-mediumteal rounded-full animate-spin"></div>
+        <span className="ml-4 text-deepteal dark:text-tcream font-mono">Loading profile...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="max-w-lg mx-auto bg-red-500/10 border border-red-500/20 rounded-xl p-6 font-mono text-red-400">
+        {error.message}
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="text-center py-16 space-y-2">
+        <h3 className="text-xl font-mono text-deepteal dark:text-tcream">User Not Found</h3>
+        <p className="text-mediumteal dark:text-sage text-sm">
+          Nobody goes by <span className="font-mono">@{username}</span>.
+        </p>
+      </div>
+    );
+  }
+
+  const restriction = kindOf(profile.id);
+
+  const counts: Record<Tab, number | undefined> = {
+    posts: posts?.length,
+    comments: comments?.length,
+    communities: communities?.length,
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      {/* Profile header */}
+      <header className="relative overflow-hidden rounded-3xl bg-gradient-to-br from-tcream/10 via-mint/15 to-sage/10 dark:from-deepteal/20 dark:via-mediumteal/15 dark:to-sage/10 backdrop-blur-xl border border-mint/20 dark:border-sage/10 shadow-2xl">
+        <div className="absolute top-0 right-0 w-40 h-40 bg-gradient-to-bl from-mediumteal/20 to-transparent rounded-bl-full"></div>
+
+        <div className="relative p-8 flex flex-col sm:flex-row sm:items-center gap-6">
+          {profile.avatar_url ? (
+            <img
+              src={profile.avatar_url}
+              alt={authorName(profile)}
+              className="w-24 h-24 rounded-full object-cover ring-4 ring-mint/30 dark:ring-sage/20 shadow-lg"
+            />
+          ) : (
+            <div className="w-24 h-24 rounded-full bg-gradient-to-br from-mediumteal to-sage shadow-lg flex items-center justify-center">
+              <span className="text-3xl font-bold text-white">{authorName(profile).charAt(0).toUpperCase()}</span>
+            </div>
+          )}
+
+          <div className="flex-1 min-w-0 space-y-2">
+            <h1 className="text-3xl font-bold font-mono text-deepteal dark:text-tcream truncate">
+              {authorName(profile)}
+            </h1>
+            <div className="text-sm font-mono text-sage dark:text-mint">
+              @{profile.username}
+              <span className="mx-2">·</span>
+              Joined {new Date(profile.created_at).toLocaleDateString("en-US", { month: "short", year: "numeric" })}
+            </div>
+            {followCounts && (
+              <div className="text-sm font-mono text-mediumteal dark:text-sage">
+                <span className="font-bold text-deepteal dark:text-tcream">{followCounts.followers}</span>{" "}
+                {followCounts.followers === 1 ? "follower" : "followers"}
+                <span className="mx-2">·</span>
+                <span className="font-bold text-deepteal dark:text-tcream">{followCounts.following}</span> following
+              </div>
+            )}
+            {profile.bio && (
+              <p className="text-mediumteal dark:text-sage leading-relaxed whitespace-pre-line">{profile.bio}</p>
+            )}
+          </div>
+
+          <div className="flex flex-col items-end gap-2">
+            <FollowButton userId={profile.id} />
+            <UserRestrictionActions userId={profile.id} username={profile.username} />
+          </div>
+        </div>
+      </header>
+
+      {restriction ? (
+        <EmptyState>
+          You {restriction === "block" ? "blocked" : "muted"} @{profile.username}. Their posts and comments are hidden.
+        </EmptyState>
+      ) : (
+        <>
+          {/* Tabs */}
+          <div className="flex gap-2 p-1 rounded-xl bg-mint/10 dark:bg-sage/10 w-fit">
+            {(Object.keys(tabLabels) as Tab[]).map((t) => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`px-4 py-2 rounded-lg font-mono text-sm transition-all duration-200 ${
+                  tab === t ? "bg-teal text-tcream shadow-lg" : "text-mediumteal dark:text-mint hover:bg-mint/20"
+                }`}
+              >
+                {tabLabels[t]}
+                {counts[t] !== undefined && <span className="ml-2 opacity-70">{counts[t]}</span>}
+              </button>
+            ))}
+          </div>
+
+          {tab === "posts" &&
+            (posts && posts.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                {posts.map((post) => (
+                  <PostItem key={post.id} post={post} />
+                ))}
+              </div>
+            ) : (
+              <EmptyState>No posts yet.</EmptyState>
+            ))}
+
+          {tab === "comments" &&
+            (comments && comments.length > 0 ? (
+              <ul className="space-y-3">
+                {comments.map((comment) => (
+                  <li key={comment.id}>
+                    <Link
+                      to={`/post/${comment.post_id}`}
+                      className="block p-4 rounded-xl bg-gradient-to-br from-tcream/5 via-mint/10 to-sage/5 dark:from-deepteal/20 dark:via-mediumteal/10 dark:to-sage/5 border border-mint/20 dark:border-sage/10 hover:border-mediumteal/40 transition-all duration-200"
+                    >
+                      <p className="text-deepteal dark:text-tcream line-clamp-3">{comment.content}</p>
+                      <div className="mt-2 text-xs font-mono text-sage dark:text-mint">
+                        On post #{comment.post_id.toString().padStart(4, "0")} ·{" "}
+                        {new Date(comment.created_at).toLocaleDateString("en-US", {
+                          month: "short",
+                          day: "2-digit",
+                          year: "numeric",
+                        })}
+                      </div>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <EmptyState>No comments yet.</EmptyState>
+            ))}
+
+          {tab === "communities" &&
+            (communities && communities.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {communities.map((community) => (
+                  <Link
+                    key={community.id}
+                    to={`/community/${community.id}`}
+                    className="block p-5 rounded-xl bg-gradient-to-br from-mint/5 via-sage/10 to-mediumteal/5 dark:from-sage/10 dark:via-mint/5 dark:to-mediumteal/10 border border-sage/20 dark:border-mint/10 hover:border-sage/40 transition-all duration-200"
+                  >
+                    <h3 className="font-bold font-mono text-deepteal dark:text-tcream">{community.name}</h3>
+                    {community.description && (
+                      <p className="mt-1 text-sm text-mediumteal dark:text-sage line-clamp-2">{community.description}</p>
+                    )}
+                  </Link>
+                ))}
+              </div>
+            ) : (
+              <EmptyState>No communities yet.</EmptyState>
+            ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+const EmptyState = ({ children }: { children: React.ReactNode }) => (
+  <div className="text-center py-12 font-mono text-sage dark:text-mint">{children}</div>
+);
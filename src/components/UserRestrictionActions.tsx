@@ -0,0 +1,55 @@
+import { useAuth } from "../context/AuthContext";
+import { useRestrictions } from "../hooks/useRestrictions";
+import { confirmDialog } from "../notifications";
+
+interface Props {
+  userId: string;
+  username: string;
+}
+
+const buttonClassName =
+  "px-4 py-2 rounded-xl font-mono text-sm border transition-all duration-200 disabled:opacity-60 disabled:cursor-not-allowed";
+
+/** Mute and block toggles for someone else's profile. */
+export const UserRestrictionActions = ({ userId, username }: Props) => {
+  const { user } = useAuth();
+  const { kindOf, restrict, unrestrict, isPending } = useRestrictions();
+
+  if (!user || user.id === userId) return null;
+
+  const kind = kindOf(userId);
+
+  const block = async () => {
+    const confirmed = await confirmDialog({
+      title: `Block @${username}?`,
+      message:
+        "You won't see their posts or comments anywhere, and they won't be able to comment on your posts or reply to your comments.",
+      confirmLabel: "Block",
+      destructive: true,
+    });
+    if (confirmed) restrict(userId, "block");
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {kind !== "block" && (
+        <button
+          type="button"
+          onClick={() => (kind === "mute" ? unrestrict(userId) : restrict(userId, "mute"))}
+          disabled={isPending}
+          className={`${buttonClassName} bg-mint/10 dark:bg-sage/10 border-mint/30 dark:border-sage/20 text-mediumteal dark:text-mint hover:bg-mint/20`}
+        >
+          {kind === "mute" ? "Unmute" : "Mute"}
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={() => (kind === "block" ? unrestrict(userId) : block())}
+        disabled={isPending}
+        className={`${buttonClassName} bg-red-500/10 border-red-500/20 text-red-400 hover:bg-red-500/20`}
+      >
+        {kind === "block" ? "Unblock" : "Block"}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import type { OAuthProvider } from "./backend/types";
+
+export type AppEnvironment = "development" | "staging" | "production";
+export type BackendKind = "supabase" | "memory";
+
+export interface AppConfig {
+  environment: AppEnvironment;
+  backend: BackendKind;
+  supabase: {
+    url: string;
+    anonKey: string;
+  };
+  storage: {
+    postImagesBucket: string;
+    avatarsBucket: string;
+  };
+  auth: {
+    /** OAuth buttons offered on the sign-in page, in order. */
+    oauthProviders: OAuthProvider[];
+  };
+  features: {
+    /** Live votes and comments; without it they refresh on refetch only. */
+    realtime: boolean;
+    /** Persist the query cache and queued mutations to IndexedDB. */
+    offlineCache: boolean;
+  };
+}
+
+export interface ParsedConfig {
+  config: AppConfig;
+  /** Human-readable problems; the app refuses to start while any exist. */
+  issues: string[];
+}
+
+const ENVIRONMENTS: AppEnvironment[] = ["development", "staging", "production"];
+const BACKENDS: BackendKind[] = ["supabase", "memory"];
+const OAUTH_PROVIDERS: OAuthProvider[] = [
+  "apple", "azure", "bitbucket", "discord", "facebook", "figma", "github", "gitlab", "google",
+  "kakao", "keycloak", "linkedin_oidc", "notion", "slack_oidc", "spotify", "twitch", "twitter",
+  "workos", "zoom",
+];
+
+/** Button label for a provider, e.g. "linkedin_oidc" → "Linkedin". */
+export const providerLabel = (provider: OAuthProvider) =>
+  provider
+    .replace(/_oidc$/, "")
+    .replace(/^./, (c) => c.toUpperCase());
+
+const oneOf = <T extends string>(
+  issues: string[],
+  name: string,
+  value: string | undefined,
+  allowed: T[],
+  fallback: T
+): T => {
+  if (!value) return fallback;
+  if ((allowed as string[]).includes(value)) return value as T;
+  issues.push(`${name} must be one of ${allowed.join(", ")} (got "${value}").`);
+  return fallback;
+};
+
+const flag = (issues: string[], name: string, value: string | undefined, fallback: boolean) => {
+  if (!value) return fallback;
+  if (value === "true" || value === "1") return true;
+  if (value === "false" || value === "0") return false;
+  issues.push(`${name} must be "true" or "false" (got "${value}").`);
+  return fallback;
+};
+
+const list = <T extends string>(
+  issues: string[],
+  name: string,
+  value: string | undefined,
+  allowed: T[],
+  fallback: T[]
+): T[] => {
+  if (value === undefined) return fallback;
+  const items = value.split(",").map((item) => item.trim()).filter(Boolean);
+  const unknown = items.filter((item) => !(allowed as string[]).includes(item));
+  if (unknown.length > 0) issues.push(`${name} contains unsupported values: ${unknown.join(", ")}.`);
+  return items.filter((item): item is T => (allowed as string[]).includes(item));
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/** Reads and validates the VITE_* variables. Never throws; see `issues`. */
+export const parseConfig = (env: ImportMetaEnv): ParsedConfig => {
+  const issues: string[] = [];
+
+  const environment = oneOf(
+    issues,
+    "VITE_APP_ENV",
+    env.VITE_APP_ENV,
+    ENVIRONMENTS,
+    env.PROD ? "production" : "development"
+  );
+  const backend = oneOf(issues, "VITE_BACKEND", env.VITE_BACKEND, BACKENDS, "supabase");
+
+  const url = env.VITE_SUPABASE_URL?.trim() ?? "";
+  const anonKey = env.VITE_SUPABASE_ANON_KEY?.trim() ?? "";
+
+  if (backend === "supabase") {
+    if (!url) {
+      issues.push("VITE_SUPABASE_URL is missing.");
+    } else if (!isHttpUrl(url)) {
+      issues.push(`VITE_SUPABASE_URL is not a valid http(s) URL (got "${url}").`);
+    }
+    if (!anonKey) issues.push("VITE_SUPABASE_ANON_KEY is missing.");
+  } else if (environment === "production") {
+    issues.push("VITE_BACKEND=memory is for local development and cannot be used in production.");
+  }
+
+  const postImagesBucket = env.VITE_POST_IMAGES_BUCKET?.trim() || "post-images";
+  const avatarsBucket = env.VITE_AVATARS_BUCKET?.trim() || "avatars";
+
+  return {
+    config: {
+      environment,
+      backend,
+      supabase: { url, anonKey },
+      storage: { postImagesBucket, avatarsBucket },
+      auth: {
+        oauthProviders: list(
+          issues,
+          "VITE_AUTH_OAUTH_PROVIDERS",
+          env.VITE_AUTH_OAUTH_PROVIDERS,
+          OAUTH_PROVIDERS,
+          ["github"]
+        ),
+      },
+      features: {
+        realtime: flag(issues, "VITE_FEATURE_REALTIME", env.VITE_FEATURE_REALTIME, true),
+        offlineCache: flag(issues, "VITE_FEATURE_OFFLINE_CACHE", env.VITE_FEATURE_OFFLINE_CACHE, true),
+      },
+    },
+    issues,
+  };
+};
+
+const parsed = parseConfig(import.meta.env);
+
+/**
+ * Only modules loaded after main.tsx has checked `configIssues` may rely on
+ * this; until then values may be fallbacks.
+ */
+export const config: AppConfig = parsed.config;
+export const configIssues: string[] = parsed.issues;
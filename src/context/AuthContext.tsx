@@ -1,42 +1,130 @@
-import type { User } from "@supabase/supabase-js";
+import type { Session, User } from "@supabase/supabase-js";
 import { createContext, useContext, useEffect, useState } from "react";
-import { supabase } from "../supabase-client";
+import {
+  broadcastAuth,
+  clearSignedOutMark,
+  markSignedOut,
+  subscribeAuthBroadcast,
+  subscribeSessionExpired,
+  wasSignedOutDeliberately,
+} from "../authEvents";
+import { backend, type OAuthProvider } from "../backend";
+
+/**
+ * - `loading`: the stored session has not been read yet
+ * - `authenticated`: a valid session exists
+ * - `expired`: the session lapsed or could not be refreshed without the user signing out
+ * - `signed-out`: nobody is signed in
+ */
+export type SessionStatus = "loading" | "authenticated" | "expired" | "signed-out";
 
 interface AuthContextType {
+  /** While `expired`, still the user whose session lapsed, so work in progress stays on screen. */
   user: User | null;
+  status: SessionStatus;
+  /** True until the stored session has been read; `user` is not meaningful before that. */
+  loading: boolean;
   signInWithGitHub: () => void;
+  /** Redirects to the provider; the session arrives after the redirect back. */
+  signInWithOAuth: (provider: OAuthProvider) => Promise<void>;
+  signInWithMagicLink: (email: string) => Promise<void>;
+  signInWithPassword: (email: string, password: string) => Promise<void>;
+  signUpWithPassword: (
+    email: string,
+    password: string,
+    userName: string
+  ) => Promise<{ confirmationRequired: boolean }>;
+  sendPasswordReset: (email: string) => Promise<void>;
+  updatePassword: (password: string) => Promise<void>;
   signOut: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const [{ user, status }, setState] = useState<{ user: User | null; status: SessionStatus }>({
+    user: null,
+    status: "loading",
+  });
 
   useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setUser(session?.user ?? null);
+    const applySession = (session: Session | null) => {
+      setState(session ? { user: session.user, status: "authenticated" } : { user: null, status: "signed-out" });
+    };
+
+    const readSession = () => {
+      backend.auth
+        .getSession()
+        .then(applySession)
+        .catch(() => applySession(null));
+    };
+
+    readSession();
+
+    const unsubscribeAuth = backend.auth.onAuthStateChange((event, session) => {
+      if (session) {
+        if (event === "SIGNED_IN") {
+          clearSignedOutMark();
+          broadcastAuth("signed-in");
+        }
+        applySession(session);
+        return;
+      }
+      // Nobody asked to sign out, so the session ran out under the user
+      setState((current) =>
+        current.user && !wasSignedOutDeliberately()
+          ? { user: current.user, status: "expired" }
+          : { user: null, status: "signed-out" }
+      );
     });
 
-    const { data: listener } = supabase.auth.onAuthStateChange((_, session) => {
-      setUser(session?.user ?? null);
+    // Another tab signed in or out; the session itself lives in shared storage
+    const unsubscribeBroadcast = subscribeAuthBroadcast(readSession);
+
+    // A request was rejected for want of a valid session
+    const unsubscribeExpired = subscribeSessionExpired(() => {
+      setState((current) => (current.status === "authenticated" ? { ...current, status: "expired" } : current));
     });
 
     return () => {
-      listener.subscription.unsubscribe();
+      unsubscribeAuth();
+      unsubscribeBroadcast();
+      unsubscribeExpired();
     };
   }, []);
 
   const signInWithGitHub = () => {
-    supabase.auth.signInWithOAuth({ provider: "github" });
+    backend.auth.signInWithOAuth("github");
   };
 
   const signOut = () => {
-    supabase.auth.signOut();
+    markSignedOut();
+    backend.auth
+      .signOut()
+      // A lapsed session cannot be revoked on the server; it is cleared locally regardless
+      .catch(() => undefined)
+      .finally(() => {
+        setState({ user: null, status: "signed-out" });
+        broadcastAuth("signed-out");
+      });
   };
 
   return (
-    <AuthContext.Provider value={{ user, signInWithGitHub, signOut }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        status,
+        loading: status === "loading",
+        signInWithGitHub,
+        signInWithOAuth: backend.auth.signInWithOAuth,
+        signInWithMagicLink: backend.auth.signInWithMagicLink,
+        signInWithPassword: backend.auth.signInWithPassword,
+        signUpWithPassword: backend.auth.signUp,
+        sendPasswordReset: backend.auth.sendPasswordReset,
+        updatePassword: backend.auth.updatePassword,
+        signOut,
+      }}
+    >
       {" "}
       {children}{" "}
     </AuthContext.Provider>
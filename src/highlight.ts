@@ -0,0 +1,44 @@
+// Loaded on demand by CodeBlock so the grammars stay out of the main bundle.
+import { common, createLowlight } from "lowlight";
+import "highlight.js/styles/github-dark.css";
+
+export interface Token {
+  text: string;
+  className?: string;
+}
+
+export interface HighlightedCode {
+  /** The fence's language, or the best guess when it had none */
+  language?: string;
+  lines: Token[][];
+}
+
+const lowlight = createLowlight(common);
+
+type Tree = ReturnType<typeof lowlight.highlight>;
+
+// Flattens the token tree into lines, since a token (a block comment, a
+// template string) can span several of them
+const toLines = (tree: Tree): Token[][] => {
+  const lines: Token[][] = [[]];
+  const visit = (node: Tree["children"][number], classNames: string[]) => {
+    if (node.type === "text") {
+      node.value.split("\n").forEach((text, i) => {
+        if (i > 0) lines.push([]);
+        if (text) lines[lines.length - 1].push({ text, className: classNames.join(" ") || undefined });
+      });
+    } else if (node.type === "element") {
+      const own = node.properties.className;
+      const nested = Array.isArray(own) ? [...classNames, ...own.map(String)] : classNames;
+      node.children.forEach((child) => visit(child, nested));
+    }
+  };
+  tree.children.forEach((child) => visit(child, []));
+  return lines;
+};
+
+export const highlightCode = (code: string, language?: string): HighlightedCode => {
+  const tree =
+    language && lowlight.registered(language) ? lowlight.highlight(language, code) : lowlight.highlightAuto(code);
+  return { language: tree.data?.language ?? language, lines: toLines(tree) };
+};
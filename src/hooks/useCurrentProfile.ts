@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchProfileById, type Profile } from "../api";
+import { useAuth } from "../context/AuthContext";
+
+export const profileByIdKey = (userId: string | null) => ["profile", "id", userId] as const;
+
+/** The signed-in user's profile, or null when signed out. */
+export const useCurrentProfile = () => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  return useQuery<Profile | null, Error>({
+    queryKey: profileByIdKey(userId),
+    queryFn: () => fetchProfileById(userId as string),
+    enabled: !!userId,
+  });
+};
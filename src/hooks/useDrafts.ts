@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  deleteDraft,
+  fetchDrafts,
+  isDraftSyncEnabled,
+  saveDraft,
+  setDraftSyncEnabled,
+  type Draft,
+} from "../api";
+import { useAuth } from "../context/AuthContext";
+import { toast } from "../notifications";
+
+export const draftsKey = (userId: string | null) => ["drafts", userId] as const;
+
+/** The signed-in user's post drafts, and whether they sync to the account. */
+export const useDrafts = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [isSyncEnabled, setSyncState] = useState<boolean>(isDraftSyncEnabled);
+
+  const { data: drafts = [], isLoading } = useQuery<Draft[], Error>({
+    queryKey: [...draftsKey(userId), isSyncEnabled],
+    queryFn: () => fetchDrafts(userId as string),
+    enabled: !!userId,
+    meta: { errorMessage: "Couldn't load your drafts" },
+  });
+
+  // Autosave runs while the user types, so it reports nothing unless it fails
+  const { mutate: save, data: lastSaved } = useMutation({
+    mutationFn: (draft: Omit<Draft, "updated_at" | "synced">) => saveDraft(userId as string, draft),
+    meta: { errorMessage: "Couldn't save your draft" },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: draftsKey(userId) }),
+  });
+
+  const { mutate: discard } = useMutation({
+    mutationFn: ({ id }: { id: string; quiet?: boolean }) => deleteDraft(userId as string, id),
+    meta: { errorMessage: "Couldn't discard the draft" },
+    onSuccess: (_data, { quiet }) => {
+      if (!quiet) toast.success("Draft discarded");
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: draftsKey(userId) }),
+  });
+
+  const setSyncEnabled = (enabled: boolean) => {
+    setDraftSyncEnabled(enabled);
+    setSyncState(enabled);
+  };
+
+  return {
+    drafts,
+    isLoading,
+    save,
+    lastSaved,
+    /** `quiet` skips the toast, for drafts that were just published. */
+    discard: (id: string, { quiet = false }: { quiet?: boolean } = {}) => discard({ id, quiet }),
+    isSyncEnabled,
+    setSyncEnabled,
+  };
+};
@@ -0,0 +1,48 @@
+import { useInfiniteQuery, useQueryClient } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { fetchFeedPage, fetchVoteSummaries, type FeedCursor, type FeedQuery, type Post } from "../api";
+import { useAuth } from "../context/AuthContext";
+import { useRestrictions } from "./useRestrictions";
+import { voteSummaryKey } from "./useVoteSummary";
+
+export const FEED_PAGE_SIZE = 12;
+
+/**
+ * Infinite, server-ordered feed. Keys live under ["posts"] so existing
+ * invalidations of the post list refresh every loaded page. Vote summaries
+ * for each page are fetched in one batch and seeded into the cache. Posts by
+ * muted and blocked authors are left out; `total` still counts them.
+ */
+export const useFeed = (
+  sortOrder: "newest" | "oldest",
+  { communityId, following = false, announcements }: Pick<FeedQuery, "communityId" | "following" | "announcements"> = {}
+) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  const fetchPage = async (query: FeedQuery) => {
+    const page = await fetchFeedPage(query);
+    const summaries = await fetchVoteSummaries(page.posts.map((p) => p.id), userId);
+    summaries.forEach((summary) => {
+      queryClient.setQueryData(voteSummaryKey(summary.post_id, userId), summary);
+    });
+    return page;
+  };
+
+  const query = useInfiniteQuery({
+    queryKey: ["posts", "feed", { communityId, following, announcements, sortOrder, userId }],
+    queryFn: ({ pageParam }) =>
+      fetchPage({ communityId, following, announcements, sortOrder, cursor: pageParam, limit: FEED_PAGE_SIZE }),
+    initialPageParam: null as FeedCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const { isHidden } = useRestrictions();
+  const posts = useMemo<Post[]>(
+    () => query.data?.pages.flatMap((page) => page.posts).filter((p) => !isHidden(p.author)) ?? [],
+    [query.data, isHidden]
+  );
+
+  return { ...query, posts, total: query.data?.pages[0]?.total ?? 0 };
+};
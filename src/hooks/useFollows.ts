@@ -0,0 +1,62 @@
+import { useCallback } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchFollowCounts, fetchFollowing, followUser, unfollowUser, type FollowCounts } from "../api";
+import { useAuth } from "../context/AuthContext";
+
+export const followingKey = (userId: string | null) => ["follows", "following", userId] as const;
+export const followCountsKey = (userId: string | undefined) => ["follows", "counts", userId] as const;
+
+/** Follower and following counts of any user. */
+export const useFollowCounts = (userId: string | undefined) =>
+  useQuery<FollowCounts, Error>({
+    queryKey: followCountsKey(userId),
+    queryFn: () => fetchFollowCounts(userId as string),
+    enabled: !!userId,
+  });
+
+/**
+ * Who the signed-in user follows, with a toggle that updates the list
+ * optimistically. Signed-out users follow nobody.
+ */
+export const useFollowing = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const key = followingKey(userId);
+
+  const { data: following } = useQuery<string[], Error>({
+    queryKey: key,
+    queryFn: () => fetchFollowing(userId as string),
+    enabled: !!userId,
+  });
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: ({ followeeId, follow }: { followeeId: string; follow: boolean }) =>
+      follow ? followUser(userId as string, followeeId) : unfollowUser(userId as string, followeeId),
+    meta: { errorMessage: "Couldn't update who you follow" },
+    onMutate: async ({ followeeId, follow }) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<string[]>(key);
+      queryClient.setQueryData<string[]>(key, (ids = []) =>
+        follow ? [...ids, followeeId] : ids.filter((id) => id !== followeeId)
+      );
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(key, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["follows"] });
+      queryClient.invalidateQueries({ queryKey: ["posts", "feed"] });
+    },
+  });
+
+  const isFollowing = useCallback((followeeId: string) => !!following?.includes(followeeId), [following]);
+
+  const toggleFollow = useCallback(
+    (followeeId: string) => mutate({ followeeId, follow: !following?.includes(followeeId) }),
+    [mutate, following]
+  );
+
+  return { isFollowing, toggleFollow, isPending };
+};
@@ -0,0 +1,33 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { fetchUserRoles, type UserRoles } from "../api";
+import { useAuth } from "../context/AuthContext";
+import { can as canWith, memberRoles, type Action, type ResourceOf } from "../permissions";
+
+export const rolesKey = (userId: string | null) => ["roles", userId] as const;
+
+/**
+ * The signed-in user's roles and a `can` bound to them. Until the roles load
+ * the user counts as a plain member, so authors keep their own rights.
+ */
+export const usePermissions = () => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  const { data } = useQuery<UserRoles, Error>({
+    queryKey: rolesKey(userId),
+    queryFn: () => fetchUserRoles(userId as string),
+    enabled: !!userId,
+    meta: { errorMessage: "Couldn't load your permissions" },
+  });
+
+  const roles = useMemo(() => (userId ? (data ?? memberRoles(userId)) : null), [userId, data]);
+
+  const can = useCallback(
+    <A extends Action>(action: A, resource: ResourceOf<A> | null | undefined) =>
+      !!resource && canWith(roles, action, resource),
+    [roles]
+  );
+
+  return { roles, can };
+};
@@ -0,0 +1,93 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useCallback, useEffect, useState } from "react";
+import {
+  adjustVoteSummary,
+  subscribeToComments,
+  subscribeToVotes,
+  type Comment,
+  type RowChange,
+  type VoteSummary,
+} from "../api";
+import { voteSummaryKey } from "./useVoteSummary";
+
+/**
+ * Applies a realtime row change to a cached list, keeping the position of
+ * updated rows. Realtime rows carry only table columns, so fields joined in
+ * by the query, like a comment's author profile, are kept on updates.
+ */
+const applyRowChange = <T extends { id: number }>(rows: T[] | undefined, change: RowChange<T>) => {
+  if (!rows) return rows;
+  if (!change.new) return rows.filter((row) => row.id !== change.old?.id);
+
+  const updated = change.new;
+  return rows.some((row) => row.id === updated.id)
+    ? rows.map((row) => (row.id === updated.id ? { ...row, ...updated } : row))
+    : [...rows, updated];
+};
+
+export const useVotesRealtime = (postId: number, userId: string | null) => {
+  const queryClient = useQueryClient();
+
+  useEffect(
+    () =>
+      subscribeToVotes(postId, (change) => {
+        queryClient.setQueryData<VoteSummary>(voteSummaryKey(postId, userId), (summary) => {
+          if (!summary) return summary;
+          const voter = (change.new ?? change.old)?.user_id;
+          const nextVote = change.new?.vote ?? null;
+          if (voter !== userId) {
+            return adjustVoteSummary(summary, change.old?.vote ?? null, nextVote);
+          }
+          // Our own vote may already be applied optimistically
+          if (summary.user_vote === nextVote) return summary;
+          return { ...adjustVoteSummary(summary, summary.user_vote, nextVote), user_vote: nextVote };
+        });
+      }),
+    [postId, userId, queryClient]
+  );
+};
+
+/**
+ * Keeps ["comments", postId] in sync. Comments from other users are held back
+ * in `pendingComments` until `revealPending` is called, so the thread does not
+ * shift under someone who is reading it.
+ */
+export const useCommentsRealtime = (postId: number, userId?: string) => {
+  const queryClient = useQueryClient();
+  const [pendingComments, setPendingComments] = useState<Comment[]>([]);
+
+  useEffect(
+    () =>
+      subscribeToComments(postId, (change) => {
+        const incoming = change.new;
+        if (change.type === "INSERT" && incoming && incoming.user_id !== userId) {
+          setPendingComments((pending) =>
+            pending.some((c) => c.id === incoming.id) ? pending : [...pending, incoming]
+          );
+          return;
+        }
+
+        queryClient.setQueryData<Comment[]>(["comments", postId], (comments) =>
+          applyRowChange(comments, change)
+        );
+        if (change.type === "DELETE") {
+          setPendingComments((pending) => pending.filter((c) => c.id !== change.old?.id));
+        }
+      }),
+    [postId, userId, queryClient]
+  );
+
+  const revealPending = useCallback(() => {
+    queryClient.setQueryData<Comment[]>(["comments", postId], (comments) =>
+      pendingComments.reduce(
+        (rows, comment) => applyRowChange(rows, { type: "INSERT", new: comment, old: null }),
+        comments
+      )
+    );
+    setPendingComments([]);
+    // Shown right away by author name; the refetch brings in their profiles
+    queryClient.invalidateQueries({ queryKey: ["comments", postId] });
+  }, [pendingComments, postId, queryClient]);
+
+  return { pendingComments, revealPending };
+};
@@ -0,0 +1,61 @@
+import { useCallback, useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  fetchRestrictions,
+  restrictUser,
+  unrestrictUser,
+  type RestrictionKind,
+  type UserRestriction,
+} from "../api";
+import { useAuth } from "../context/AuthContext";
+import { toast } from "../notifications";
+
+export const restrictionsKey = (userId: string | null) => ["restrictions", userId] as const;
+
+/**
+ * The users the signed-in user has muted or blocked. Lists filter their
+ * content out with `isHidden`; both kinds hide it.
+ */
+export const useRestrictions = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  const { data } = useQuery<UserRestriction[], Error>({
+    queryKey: restrictionsKey(userId),
+    queryFn: () => fetchRestrictions(userId as string),
+    enabled: !!userId,
+    meta: { errorMessage: "Couldn't load your muted and blocked users" },
+  });
+
+  const restrictions = useMemo(() => data ?? [], [data]);
+  const kinds = useMemo(() => new Map(restrictions.map((r) => [r.target_id, r.kind])), [restrictions]);
+
+  const isHidden = useCallback((authorId: string | null | undefined) => !!authorId && kinds.has(authorId), [kinds]);
+  const kindOf = useCallback((targetId: string): RestrictionKind | null => kinds.get(targetId) ?? null, [kinds]);
+
+  const onSettled = () => queryClient.invalidateQueries({ queryKey: restrictionsKey(userId) });
+
+  const { mutate: restrict, isPending: isRestricting } = useMutation({
+    mutationFn: ({ targetId, kind }: { targetId: string; kind: RestrictionKind }) =>
+      restrictUser(userId as string, targetId, kind),
+    meta: { errorMessage: "Couldn't update the user" },
+    onSuccess: (_data, { kind }) => toast.success(kind === "block" ? "User blocked" : "User muted"),
+    onSettled,
+  });
+
+  const { mutate: unrestrict, isPending: isUnrestricting } = useMutation({
+    mutationFn: (targetId: string) => unrestrictUser(userId as string, targetId),
+    meta: { successMessage: "Restriction removed", errorMessage: "Couldn't update the user" },
+    onSettled,
+  });
+
+  return {
+    restrictions,
+    isHidden,
+    kindOf,
+    restrict: (targetId: string, kind: RestrictionKind) => restrict({ targetId, kind }),
+    unrestrict,
+    isPending: isRestricting || isUnrestricting,
+  };
+};
@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const PREFIX = "community:form:";
+
+/**
+ * useState mirrored to sessionStorage, so a half-filled form survives being
+ * sent to sign in and back (including the OAuth round trip in the same tab).
+ * `reset` returns to the initial value and forgets the saved one.
+ */
+export const useSessionState = <T>(key: string, initial: T) => {
+  const storageKey = PREFIX + key;
+  const initialJson = useRef(JSON.stringify(initial)).current;
+
+  const [value, setValue] = useState<T>(() => {
+    const raw = sessionStorage.getItem(storageKey);
+    if (raw === null) return initial;
+    try {
+      return JSON.parse(raw) as T;
+    } catch {
+      return initial;
+    }
+  });
+
+  useEffect(() => {
+    const json = JSON.stringify(value);
+    if (json === initialJson) sessionStorage.removeItem(storageKey);
+    else sessionStorage.setItem(storageKey, json);
+  }, [storageKey, initialJson, value]);
+
+  const reset = useCallback(() => setValue(JSON.parse(initialJson) as T), [initialJson]);
+
+  return [value, setValue, reset] as const;
+};
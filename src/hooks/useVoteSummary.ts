@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchVoteSummary, type VoteSummary } from "../api";
+import { useAuth } from "../context/AuthContext";
+
+// The summary carries the viewer's own vote, so it is cached per user.
+export const voteSummaryKey = (postId: number, userId: string | null) =>
+  ["voteSummary", postId, userId] as const;
+
+/**
+ * Vote counts for one post. With `fetch: false` it only reads what a batch
+ * request (see useFeed) already put in the cache.
+ */
+export const useVoteSummary = (postId: number, { fetch = true }: { fetch?: boolean } = {}) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  return useQuery<VoteSummary, Error>({
+    queryKey: voteSummaryKey(postId, userId),
+    queryFn: () => fetchVoteSummary(postId, userId),
+    enabled: fetch,
+    meta: { errorMessage: "Couldn't load votes" },
+  });
+};
@@ -0,0 +1,94 @@
+import type { Post, PostRevision } from "./api/types";
+
+/** Most images a single post can carry. */
+export const MAX_POST_IMAGES = 10;
+
+/** Largest image a post accepts, after resizing. Same as the post-images bucket limit. */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Types the post-images bucket accepts, with the extension each is stored under.
+// SVG is left out because it can carry scripts.
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/avif": "avif",
+};
+
+// Longest side after resizing; enough for the widest post layout on a retina screen
+const MAX_DIMENSION = 1920;
+const QUALITY = 0.82;
+
+/** A post's images in gallery order, including posts from before galleries. */
+export const postImages = (post: Pick<Post | PostRevision, "image_url" | "image_urls">): string[] =>
+  post.image_urls?.length ? post.image_urls : post.image_url ? [post.image_url] : [];
+
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/** Throws with a message fit to show the user when posts do not accept the file's type. */
+export const assertImageType = (file: File) => {
+  if (!IMAGE_EXTENSIONS[file.type]) {
+    throw new Error(`"${file.name}" is not a supported image. Use JPEG, PNG, WebP, GIF or AVIF.`);
+  }
+};
+
+/** Throws with a message fit to show the user when the file cannot be uploaded to a post. */
+export const assertValidImage = (file: File) => {
+  assertImageType(file);
+  if (file.size > MAX_IMAGE_BYTES) {
+    throw new Error(
+      `"${file.name}" is ${formatMegabytes(file.size)}. Images can be at most ${formatMegabytes(MAX_IMAGE_BYTES)}.`
+    );
+  }
+};
+
+/** For the `accept` attribute of image file inputs. */
+export const IMAGE_ACCEPT = Object.keys(IMAGE_EXTENSIONS).join(",");
+
+/** The extension a valid image is stored under, taken from its type rather than its name. */
+export const imageExtension = (file: File) => IMAGE_EXTENSIONS[file.type];
+
+/** Returns `items` with the item at `from` moved to `to`. */
+export const moveItem = <T>(items: readonly T[], from: number, to: number): T[] => {
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, QUALITY));
+
+/**
+ * Scales the image down to fit MAX_DIMENSION and re-encodes it as JPEG, or as
+ * WebP when it may be transparent. Animated and vector formats, and images
+ * the browser cannot decode, are returned unchanged, as is any image that
+ * would not get smaller.
+ */
+export const resizeImage = async (file: File): Promise<File> => {
+  if (!file.type.startsWith("image/") || file.type === "image/gif" || file.type === "image/svg+xml") return file;
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    return file;
+  }
+
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const type = file.type === "image/png" || file.type === "image/webp" ? "image/webp" : "image/jpeg";
+  const blob = await toBlob(canvas, type);
+  if (!blob || (scale === 1 && blob.size >= file.size)) return file;
+
+  // Browsers without a WebP encoder fall back to PNG
+  const extension = blob.type.split("/")[1].replace("jpeg", "jpg");
+  const name = `${file.name.replace(/\.[^.]*$/, "") || "image"}.${extension}`;
+  return new File([blob], name, { type: blob.type, lastModified: file.lastModified });
+};
@@ -1,22 +1,24 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
-import App from './App.tsx'
+import { configIssues } from './config.ts'
+import { ConfigErrorScreen } from './components/ConfigErrorScreen.tsx'
 
-import { BrowserRouter as Router } from 'react-router-dom'
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
-import { AuthProvider } from './context/AuthContext.tsx'
+const root = createRoot(document.getElementById('root')!)
 
-const client = new QueryClient();
-
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <QueryClientProvider client={client}>
-      <AuthProvider>
-        <Router>
-          <App />
-        </Router>
-      </AuthProvider>
-    </QueryClientProvider>
-  </StrictMode>,
-)
+if (configIssues.length > 0) {
+  root.render(
+    <StrictMode>
+      <ConfigErrorScreen issues={configIssues} />
+    </StrictMode>,
+  )
+} else {
+  // Imported only once the config is valid: the backend client is created at import time
+  import('./Root.tsx').then(({ Root }) => {
+    root.render(
+      <StrictMode>
+        <Root />
+      </StrictMode>,
+    )
+  })
+}
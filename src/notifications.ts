@@ -0,0 +1,142 @@
+export type ToastKind = "success" | "error" | "info";
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface Toast {
+  id: number;
+  kind: ToastKind;
+  title: string;
+  description?: string;
+  action?: ToastAction;
+}
+
+export interface ToastOptions {
+  description?: string;
+  action?: ToastAction;
+  /** Milliseconds before the toast closes on its own. */
+  duration?: number;
+}
+
+export interface ConfirmOptions {
+  title: string;
+  message: string;
+  confirmLabel?: string;
+  cancelLabel?: string;
+  /** Styles the confirm button as a destructive action. */
+  destructive?: boolean;
+}
+
+export interface ConfirmRequest extends ConfirmOptions {
+  resolve: (confirmed: boolean) => void;
+}
+
+export interface NotificationState {
+  toasts: Toast[];
+  confirm: ConfirmRequest | null;
+}
+
+const DEFAULT_DURATION = 5000;
+
+// Kept outside React so the query client can report mutation results too
+let state: NotificationState = { toasts: [], confirm: null };
+let nextId = 0;
+const listeners = new Set<() => void>();
+const timers = new Map<number, ReturnType<typeof setTimeout>>();
+const closeHandlers = new Map<number, () => void>();
+
+const setState = (next: NotificationState) => {
+  state = next;
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeNotifications = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getNotifications = () => state;
+
+const dismiss = (id: number) => {
+  clearTimeout(timers.get(id));
+  timers.delete(id);
+  const onClose = closeHandlers.get(id);
+  closeHandlers.delete(id);
+  setState({ ...state, toasts: state.toasts.filter((t) => t.id !== id) });
+  onClose?.();
+};
+
+const show = (
+  kind: ToastKind,
+  title: string,
+  { duration = DEFAULT_DURATION, ...options }: ToastOptions = {},
+  onClose?: () => void
+) => {
+  const id = ++nextId;
+  setState({ ...state, toasts: [...state.toasts, { id, kind, title, ...options }] });
+  timers.set(id, setTimeout(() => dismiss(id), duration));
+  if (onClose) closeHandlers.set(id, onClose);
+  return id;
+};
+
+export const toast = {
+  success: (title: string, options?: ToastOptions) => show("success", title, options),
+  error: (title: string, options?: ToastOptions) => show("error", title, options),
+  info: (title: string, options?: ToastOptions) => show("info", title, options),
+  dismiss,
+
+  /**
+   * Defers `onCommit` until the toast closes, whether it times out or is
+   * dismissed. Clicking Undo drops the action and calls `onUndo` instead.
+   * Leaving the page closes the toast at once, so the action is not lost.
+   */
+  undoable: (
+    title: string,
+    { onCommit, onUndo, ...options }: Omit<ToastOptions, "action"> & { onCommit: () => void; onUndo?: () => void }
+  ) => {
+    let undone = false;
+    const commitNow = () => dismiss(id);
+    window.addEventListener("pagehide", commitNow);
+    const id = show(
+      "info",
+      title,
+      {
+        ...options,
+        action: {
+          label: "Undo",
+          onClick: () => {
+            undone = true;
+            onUndo?.();
+            dismiss(id);
+          },
+        },
+      },
+      () => {
+        window.removeEventListener("pagehide", commitNow);
+        if (!undone) onCommit();
+      }
+    );
+    return id;
+  },
+};
+
+/** Opens the app's confirm dialog; resolves with the user's choice. */
+export const confirmDialog = (options: ConfirmOptions) =>
+  new Promise<boolean>((resolve) => {
+    // A newer request supersedes one that is still open
+    state.confirm?.resolve(false);
+    setState({
+      ...state,
+      confirm: {
+        ...options,
+        resolve: (confirmed) => {
+          setState({ ...state, confirm: null });
+          resolve(confirmed);
+        },
+      },
+    });
+  });
@@ -1,10 +1,30 @@
 import { useMemo, useState } from "react";
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useNavigate, Link } from "react-router-dom";
-import { supabase } from "../supabase-client";
+import {
+  authorName,
+  cancelAccountDeletion,
+  countPosts,
+  deletePost,
+  exportAccountData,
+  fetchAccountDeletion,
+  fetchCommunitiesByAuthor,
+  fetchCommunitiesWithPostCounts,
+  fetchPosts,
+  fetchScheduledPosts,
+  requestAccountDeletion,
+  reschedulePost,
+  type AccountDeletion,
+  type CommunityWithPostCount,
+  type Post,
+} from "../api";
 import { useAuth } from "../context/AuthContext";
 import { PostItem } from "../components/PostItem";
-import type { Post } from "../components/PostList";
+import { PublishAtInput } from "../components/PublishAtInput";
+import { useCurrentProfile } from "../hooks/useCurrentProfile";
+import { useDrafts } from "../hooks/useDrafts";
+import { useFollowCounts } from "../hooks/useFollows";
+import { confirmDialog, toast } from "../notifications";
 
 interface UserStats {
   postCount: number;
@@ -13,117 +33,106 @@ interface UserStats {
 }
 
 const fetchUserStats = async (userId: string): Promise<UserStats> => {
-  const [{ count: postCount, error: postErr }, { count: communityCount, error: commErr }] = await Promise.all([
-    supabase.from("posts").select("id", { count: "exact", head: true }).eq("author", userId),
-    supabase.from("communities").select("id", { count: "exact", head: true }).eq("author", userId),
+  const [postCount, communities] = await Promise.all([
+    countPosts({ author: userId }),
+    fetchCommunitiesByAuthor(userId),
   ]);
-  if (postErr) throw new Error(postErr.message);
-  if (commErr) throw new Error(commErr.message);
 
   // Count posts inside the user's communities
-  const { data: userCommunities, error: listCommErr } = await supabase
-    .from("communities")
-    .select("id")
-    .eq("author", userId);
-  if (listCommErr) throw new Error(listCommErr.message);
-  const communityIds = (userCommunities || []).map((c) => c.id);
-  let communityPostCount = 0;
-  if (communityIds.length > 0) {
-    const { count, error: postsInCommsErr } = await supabase
-      .from("posts")
-      .select("id", { count: "exact", head: true })
-      .in("community_id", communityIds);
-    if (postsInCommsErr) throw new Error(postsInCommsErr.message);
-    communityPostCount = count || 0;
-  }
+  const communityPostCount = await countPosts({ communityIds: communities.map((c) => c.id) });
 
   return {
-    postCount: postCount || 0,
-    communityCount: communityCount || 0,
+    postCount,
+    communityCount: communities.length,
     communityPostCount,
   };
 };
 
-const deleteUserContent = async (userId: string) => {
-  // 1) Load communities authored by the user
-  const { data: communities, error: commErr } = await supabase
-    .from("communities")
-    .select("id")
-    .eq("author", userId);
-  if (commErr) throw new Error(commErr.message);
-  const communityIds = (communities || []).map((c) => c.id);
-
-  // 2) Delete posts inside those communities
-  if (communityIds.length > 0) {
-    const { error: delPostsInCommsErr } = await supabase
-      .from("posts")
-      .delete()
-      .in("community_id", communityIds);
-    if (delPostsInCommsErr) throw new Error(delPostsInCommsErr.message);
-  }
-
-  // 3) Delete the communities themselves
-  if (communityIds.length > 0) {
-    const { error: delCommsErr } = await supabase
-      .from("communities")
-      .delete()
-      .in("id", communityIds);
-    if (delCommsErr) throw new Error(delCommsErr.message);
-  }
-
-  const { error: delUserPostsErr } = await supabase
-    .from("posts")
-    .delete()
-    .eq("author", userId);
-  if (delUserPostsErr) throw new Error(delUserPostsErr.message);
+const formatDeletionDate = (deletion: AccountDeletion) =>
+  new Date(deletion.purge_after).toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" });
+
+// Hands the archive to the browser as a file download
+const downloadJson = (data: unknown, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url));
 };
 
 export const Dashboard = () => {
-  const { user } = useAuth();
+  const { user, signOut } = useAuth();
+  const queryClient = useQueryClient();
   const navigate = useNavigate();
   const userId = user?.id;
   const [activeSection, setActiveSection] = useState<"none" | "userPosts" | "userCommunities" | "postsInUserCommunities">("none");
 
-  const { data: stats, isLoading, error, refetch } = useQuery<UserStats, Error>({
+  const { data: stats, isLoading, error } = useQuery<UserStats, Error>({
     queryKey: ["userStats", userId],
     queryFn: () => fetchUserStats(userId as string),
     enabled: !!userId,
   });
 
-  const displayName = useMemo(() => user?.user_metadata?.user_name || user?.email || "User", [user]);
-  const avatarUrl = user?.user_metadata?.avatar_url as string | undefined;
-
-  const { mutate: removeContent, isPending: isDeleting, error: deleteErr } = useMutation({
-    mutationFn: async () => {
-      if (!userId) return;
-      const confirmation = window.confirm(
-        "This will permanently delete your posts, your communities, and posts within those communities. Continue?"
-      );
-      if (!confirmation) return;
-      await deleteUserContent(userId);
+  const { data: profile } = useCurrentProfile();
+  const { data: followCounts } = useFollowCounts(userId);
+  const displayName = useMemo(
+    () => (profile ? authorName(profile) : user?.user_metadata?.user_name || user?.email || "User"),
+    [profile, user]
+  );
+  const avatarUrl = profile ? profile.avatar_url : (user?.user_metadata?.avatar_url as string | undefined);
+
+  const { data: pendingDeletion } = useQuery<AccountDeletion | null, Error>({
+    queryKey: ["accountDeletion", userId],
+    queryFn: () => fetchAccountDeletion(userId as string),
+    enabled: !!userId,
+    meta: { errorMessage: "Couldn't check your account status" },
+  });
+
+  const { mutate: exportData, isPending: isExporting } = useMutation({
+    mutationFn: exportAccountData,
+    meta: { errorMessage: "Couldn't export your data" },
+    onSuccess: (archive) => {
+      const date = archive.exported_at.slice(0, 10);
+      downloadJson(archive, `community-export-${profile?.username ?? userId}-${date}.json`);
     },
-    onSuccess: async () => {
-      await refetch();
+  });
+
+  const { mutate: deleteAccount, isPending: isDeleting } = useMutation({
+    mutationFn: requestAccountDeletion,
+    meta: { errorMessage: "Couldn't schedule the deletion" },
+    onSuccess: (deletion) => {
+      toast.info(`Your account will be deleted on ${formatDeletionDate(deletion)}`, {
+        description: "Sign in before then to cancel.",
+        duration: 10000,
+      });
+      signOut();
     },
   });
 
-  if (!user) {
-    return (
-      <div className="flex items-center justify-center py-20">
-        <div className="text-center space-y-6">
-          <div className="w-24 h-24 mx-auto bg-gradient-to-br from-mint/20 via-sage/20 to-mediumteal/20 rounded-full flex items-center justify-center">
-            <svg className="w-12 h-12 text-teal" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
-            </svg>
-          </div>
-          <div>
-            <h3 className="text-xl font-mono text-deepteal dark:text-tcream mb-2">Authentication Required</h3>
-            <p className="text-sage dark:text-mint">Please sign in to view your dashboard</p>
-          </div>
-        </div>
-      </div>
-    );
-  }
+  const { mutate: cancelDeletion, isPending: isCancelling } = useMutation({
+    mutationFn: cancelAccountDeletion,
+    meta: { successMessage: "Your account will be kept", errorMessage: "Couldn't cancel the deletion" },
+    onSuccess: () => {
+      queryClient.setQueryData(["accountDeletion", userId], null);
+    },
+  });
+
+  const confirmDeleteAccount = async () => {
+    if (!userId) return;
+    const confirmed = await confirmDialog({
+      title: "Delete your account?",
+      message:
+        "Your profile, posts, comments, votes, communities (with every post in them) and uploaded images will be permanently deleted after 14 days. Sign in before then to cancel.",
+      confirmLabel: "Delete my account",
+      destructive: true,
+    });
+    if (confirmed) deleteAccount(userId);
+  };
+
+  // Only rendered behind RequireAuth
+  if (!user) return null;
 
   if (isLoading) {
     return (
@@ -218,6 +227,18 @@ export const Dashboard = () => {
                     <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
                     <span className="text-xs font-mono text-blue-400">VERIFIED</span>
                   </div>
+                  {followCounts && (
+                    <>
+                      <div className="h-3 w-px bg-sage/40"></div>
+                      <span className="text-xs font-mono text-mediumteal dark:text-sage">
+                        <span className="font-bold text-deepteal dark:text-tcream">{followCounts.followers}</span>{" "}
+                        {followCounts.followers === 1 ? "FOLLOWER" : "FOLLOWERS"}
+                      </span>
+                      <span className="text-xs font-mono text-mediumteal dark:text-sage">
+                        <span className="font-bold text-deepteal dark:text-tcream">{followCounts.following}</span> FOLLOWING
+                      </span>
+                    </>
+                  )}
                 </div>
               </div>
             </div>
@@ -228,6 +249,30 @@ export const Dashboard = () => {
         <div className="absolute bottom-0 left-0 right-0 h-px bg-gradient-to-r from-transparent via-mediumteal/60 to-transparent"></div>
       </header>
 
+      {/* Pending account deletion */}
+      {pendingDeletion && (
+        <div className="flex flex-wrap items-center justify-between gap-4 bg-red-500/10 border border-red-500/20 backdrop-blur-lg rounded-xl p-6">
+          <div className="flex items-center space-x-4">
+            <div className="w-8 h-8 border-2 border-red-500 rounded-full flex items-center justify-center">
+              <span className="text-red-500 text-sm">!</span>
+            </div>
+            <div>
+              <h3 className="text-red-400 font-semibold font-mono">Account scheduled for deletion</h3>
+              <p className="text-red-300 text-sm font-mono mt-1">
+                Everything you created will be deleted on {formatDeletionDate(pendingDeletion)}.
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => cancelDeletion(user.id)}
+            disabled={isCancelling}
+            className="px-5 py-2.5 rounded-xl font-mono text-sm font-medium bg-gradient-to-r from-teal to-mediumteal text-tcream hover:from-mediumteal hover:to-teal shadow-lg transition-all duration-200 disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {isCancelling ? "Cancelling..." : "Keep My Account"}
+          </button>
+        </div>
+      )}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <button
@@ -354,40 +399,46 @@ export const Dashboard = () => {
         </button>
         
         <button
-          onClick={() => removeContent()}
-          disabled={isDeleting}
-          className="flex items-center space-x-3 px-6 py-3 bg-gradient-to-r from-red-500/80 to-red-600/80 hover:from-red-500 hover:to-red-600 backdrop-blur-md text-white font-mono font-medium rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          onClick={() => exportData(user.id)}
+          disabled={isExporting}
+          className="flex items-center space-x-3 px-6 py-3 bg-gradient-to-r from-teal/80 to-mediumteal/80 hover:from-teal hover:to-mediumteal backdrop-blur-md text-white font-mono font-medium rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
         >
-          {isDeleting ? (
-            <>
-              <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-              <span>Deleting...</span>
-            </>
+          {isExporting ? (
+            <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
           ) : (
-            <>
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-              </svg>
-              <span>Delete My Content</span>
-            </>
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+            </svg>
           )}
+          <span>{isExporting ? "Exporting..." : "Export My Data"}</span>
         </button>
+
+        {!pendingDeletion && (
+          <button
+            onClick={confirmDeleteAccount}
+            disabled={isDeleting}
+            className="flex items-center space-x-3 px-6 py-3 bg-gradient-to-r from-red-500/80 to-red-600/80 hover:from-red-500 hover:to-red-600 backdrop-blur-md text-white font-mono font-medium rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isDeleting ? (
+              <>
+                <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                <span>Deleting...</span>
+              </>
+            ) : (
+              <>
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+                <span>Delete My Account</span>
+              </>
+            )}
+          </button>
+        )}
       </div>
 
-      {/* Error Display */}
-      {deleteErr && (
-        <div className="bg-red-500/10 border border-red-500/20 backdrop-blur-lg rounded-xl p-4">
-          <div className="flex items-center space-x-3">
-            <div className="w-6 h-6 border-2 border-red-500 rounded-full flex items-center justify-center">
-              <span className="text-red-500 text-xs">!</span>
-            </div>
-            <div>
-              <h3 className="text-red-400 font-semibold font-mono">Delete Operation Failed</h3>
-              <p className="text-red-300 text-sm font-mono">{deleteErr.message}</p>
-            </div>
-          </div>
-        </div>
-      )}
+      <DraftsList />
+
+      <ScheduledPostsList userId={userId as string} />
 
       {/* Dynamic Content Sections */}
       {activeSection === "userPosts" && (
@@ -407,34 +458,176 @@ export const Dashboard = () => {
 
 export default Dashboard;
 
+// Hidden until the user has a draft
+const DraftsList = () => {
+  const navigate = useNavigate();
+  const { drafts, discard } = useDrafts();
+
+  if (drafts.length === 0) return null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-3">
+        <div className="h-6 w-1 bg-gradient-to-b from-mediumteal to-sage rounded-full"></div>
+        <h3 className="text-xl font-bold font-mono text-deepteal dark:text-tcream">Drafts</h3>
+        <span className="text-sm font-mono text-sage dark:text-mint">{drafts.length}</span>
+      </div>
+
+      <ul className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {drafts.map((draft) => (
+          <li
+            key={draft.id}
+            className="rounded-2xl bg-gradient-to-br from-tcream/5 via-mint/10 to-sage/5 dark:from-deepteal/20 dark:via-mediumteal/10 dark:to-sage/5 backdrop-blur-lg border border-mint/20 dark:border-sage/10 p-5 space-y-3"
+          >
+            <div className="flex items-start justify-between gap-3">
+              <h4 className="font-mono font-semibold text-deepteal dark:text-tcream truncate">
+                {draft.title.trim() || "Untitled"}
+              </h4>
+              <span className="shrink-0 px-2 py-0.5 rounded-md text-xs font-mono bg-mint/10 border border-mint/20 text-mediumteal dark:text-mint">
+                {draft.synced ? "Synced" : "This device"}
+              </span>
+            </div>
+            <p className="text-sm text-mediumteal dark:text-mint line-clamp-2 min-h-[2.5rem]">
+              {draft.content.trim() || "No content yet"}
+            </p>
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-xs font-mono text-sage dark:text-mint/70">
+                Saved {new Date(draft.updated_at).toLocaleString()}
+                {draft.images.length > 0 &&
+                  ` · ${draft.images.length} image${draft.images.length === 1 ? "" : "s"} attached`}
+              </span>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => discard(draft.id)}
+                  className="px-3 py-1.5 rounded-lg font-mono text-xs text-red-400 hover:bg-red-500/10 transition-colors duration-200"
+                >
+                  Discard
+                </button>
+                <button
+                  onClick={() => navigate(`/create?draft=${draft.id}`)}
+                  className="px-3 py-1.5 rounded-lg font-mono text-xs font-medium text-tcream bg-gradient-to-r from-teal to-mediumteal hover:from-mediumteal hover:to-teal shadow transition-all duration-200"
+                >
+                  Resume
+                </button>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+// Hidden until the user has scheduled a post
+const ScheduledPostsList = ({ userId }: { userId: string }) => {
+  const queryClient = useQueryClient();
+
+  // Under "posts" so creating a post refreshes it too
+  const { data: posts = [] } = useQuery<Post[], Error>({
+    queryKey: ["posts", "scheduled", userId],
+    queryFn: () => fetchScheduledPosts(userId),
+    meta: { errorMessage: "Couldn't load your scheduled posts" },
+  });
+
+  const invalidatePosts = () => {
+    queryClient.invalidateQueries({ queryKey: ["posts"] });
+    queryClient.invalidateQueries({ queryKey: ["userStats", userId] });
+  };
+
+  const { mutate: reschedule, isPending: isRescheduling } = useMutation({
+    mutationFn: ({ id, scheduledFor }: { id: number; scheduledFor: string | null }) => reschedulePost(id, scheduledFor),
+    meta: { errorMessage: "Couldn't reschedule the post" },
+    onSuccess: (_data, { scheduledFor }) => {
+      toast.success(scheduledFor ? "Post rescheduled" : "Post published");
+    },
+    onSettled: invalidatePosts,
+  });
+
+  const { mutate: remove } = useMutation({
+    mutationFn: deletePost,
+    meta: { successMessage: "Scheduled post deleted", errorMessage: "Couldn't delete the post" },
+    onSettled: invalidatePosts,
+  });
+
+  const confirmRemove = async (post: Post) => {
+    const confirmed = await confirmDialog({
+      title: "Delete this scheduled post?",
+      message: `"${post.title}" will not be published.`,
+      confirmLabel: "Delete",
+      destructive: true,
+    });
+    if (confirmed) remove(post.id);
+  };
+
+  if (posts.length === 0) return null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-3">
+        <div className="h-6 w-1 bg-gradient-to-b from-teal to-mint rounded-full"></div>
+        <h3 className="text-xl font-bold font-mono text-deepteal dark:text-tcream">Scheduled</h3>
+        <span className="text-sm font-mono text-sage dark:text-mint">{posts.length}</span>
+      </div>
+
+      <ul className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {posts.map((post) => (
+          <li
+            key={post.id}
+            className="rounded-2xl bg-gradient-to-br from-tcream/5 via-mint/10 to-sage/5 dark:from-deepteal/20 dark:via-mediumteal/10 dark:to-sage/5 backdrop-blur-lg border border-mint/20 dark:border-sage/10 p-5 space-y-3"
+          >
+            <div className="flex items-start justify-between gap-3">
+              <Link
+                to={`/post/${post.id}`}
+                className="font-mono font-semibold text-deepteal dark:text-tcream truncate hover:underline"
+              >
+                {post.title}
+              </Link>
+              {post.is_announcement && (
+                <span className="shrink-0 px-2 py-0.5 rounded-md text-xs font-mono bg-teal/10 border border-teal/20 text-teal">
+                  Announcement
+                </span>
+              )}
+            </div>
+            {post.communities && (
+              <p className="text-xs font-mono text-sage dark:text-mint/70">in {post.communities.name}</p>
+            )}
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <PublishAtInput
+                value={post.scheduled_for ?? null}
+                onChange={(scheduledFor) => {
+                  // "Publish now" is the way to publish early
+                  if (scheduledFor && new Date(scheduledFor) > new Date()) reschedule({ id: post.id, scheduledFor });
+                }}
+                className="px-3 py-1.5 rounded-lg bg-tcream/10 dark:bg-deepteal/30 border border-mint/30 dark:border-sage/20 text-deepteal dark:text-tcream font-mono text-xs focus:outline-none focus:ring-2 focus:ring-teal/50"
+              />
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => confirmRemove(post)}
+                  className="px-3 py-1.5 rounded-lg font-mono text-xs text-red-400 hover:bg-red-500/10 transition-colors duration-200"
+                >
+                  Delete
+                </button>
+                <button
+                  onClick={() => reschedule({ id: post.id, scheduledFor: null })}
+                  disabled={isRescheduling}
+                  className="px-3 py-1.5 rounded-lg font-mono text-xs font-medium text-tcream bg-gradient-to-r from-teal to-mediumteal hover:from-mediumteal hover:to-teal shadow transition-all duration-200 disabled:opacity-60"
+                >
+                  Publish now
+                </button>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
 const UserPostsList = ({ userId }: { userId: string }) => {
   const [sortOrder, setSortOrder] = useState<"newest" | "oldest">("newest");
   const { data, isLoading, error } = useQuery<Post[], Error>({
     queryKey: ["userPosts", userId],
-    queryFn: async () => {
-      const [{ data: countsData, error: countsErr }, { data: baseData, error: baseErr }] = await Promise.all([
-        supabase.rpc("get_posts_with_counts"),
-        supabase
-          .from("posts")
-          .select("id,title,content,created_at,image_url,avatar_url,is_announcement,author,community_id")
-          .eq("author", userId)
-          .order("created_at", { ascending: false }),
-      ]);
-      if (countsErr) throw new Error(countsErr.message);
-      if (baseErr) throw new Error(baseErr.message);
-      const countsById = new Map<number, any>(
-        ((countsData as any[]) || []).map((p) => [p.id as number, p])
-      );
-      const merged: Post[] = ((baseData as any[]) || []).map((p: any) => {
-        const c = countsById.get(p.id) || {};
-        return {
-          ...p,
-          like_count: c.like_count ?? 0,
-          comment_count: c.comment_count ?? 0,
-        } as Post;
-      });
-      return merged;
-    },
+    queryFn: () => fetchPosts({ author: userId }),
   });
 
   if (isLoading) {
@@ -495,7 +688,7 @@ const UserPostsList = ({ userId }: { userId: string }) => {
           <label className="mr-3 text-sm font-mono text-sage dark:text-mint">Sort by</label>
           <select
             value={sortOrder}
-            onChange={(e) => setSortOrder(e.target.value as any)}
+            onChange={(e) => setSortOrder(e.target.value as "newest" | "oldest")}
             className="appearance-none bg-tcream/10 dark:bg-deepteal/30 backdrop-blur-md border border-mint/30 dark:border-sage/20 rounded-xl px-4 py-2 pr-10 text-deepteal dark:text-tcream text-sm font-mono focus:outline-none focus:ring-2 focus:ring-mediumteal/50 focus:border-transparent shadow-lg hover:shadow-xl transition-all duration-200"
           >
             <option value="newest">Newest first</option>
@@ -525,29 +718,9 @@ const UserPostsList = ({ userId }: { userId: string }) => {
 };
 
 const UserCommunitiesList = ({ userId }: { userId: string }) => {
-  const { data, isLoading, error } = useQuery<any[], Error>({
+  const { data, isLoading, error } = useQuery<CommunityWithPostCount[], Error>({
     queryKey: ["userCommunities", userId],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("communities")
-        .select("id, name, description, created_at")
-        .eq("author", userId)
-        .order("created_at", { ascending: false });
-      if (error) throw new Error(error.message);
-      // Fetch post counts
-      const { data: posts, error: postsErr } = await supabase
-        .from("posts")
-        .select("id,community_id");
-      if (postsErr) throw new Error(postsErr.message);
-      const counts = new Map<number, number>();
-      (posts || []).forEach((p: any) => {
-        if (p.community_id != null) {
-          const cid = p.community_id as number;
-          counts.set(cid, (counts.get(cid) || 0) + 1);
-        }
-      });
-      return (data || []).map((c: any) => ({ ...c, post_count: counts.get(c.id) || 0 }));
-    },
+    queryFn: () => fetchCommunitiesWithPostCounts(userId),
   });
 
   if (isLoading) {
@@ -600,7 +773,7 @@ const UserCommunitiesList = ({ userId }: { userId: string }) => {
       </div>
       
       <div className="space-y-4">
-        {data.map((c: any, index: number) => (
+        {data.map((c, index) => (
           <div key={c.id} className="group relative overflow-hidden rounded-xl bg-gradient-to-br from-sage/5 via-mint/10 to-mediumteal/5 dark:from-sage/10 dark:via-mint/5 dark:to-mediumteal/10 backdrop-blur-lg border border-sage/20 dark:border-mint/10 hover:border-sage/40 dark:hover:border-mint/30 transition-all duration-300 hover:shadow-xl hover:-translate-y-1"
                style={{ animationDelay: `${index * 100}ms` }}>
             
@@ -658,35 +831,8 @@ const PostsInUserCommunitiesList = ({ userId }: { userId: string }) => {
   const { data, isLoading, error } = useQuery<Post[], Error>({
     queryKey: ["postsInUserCommunities", userId],
     queryFn: async () => {
-      const { data: comms, error: commErr } = await supabase
-        .from("communities")
-        .select("id")
-        .eq("author", userId);
-      if (commErr) throw new Error(commErr.message);
-      const ids = (comms || []).map((c) => c.id);
-      if (ids.length === 0) return [] as Post[];
-      const [{ data: countsData, error: countsErr }, { data: baseData, error: baseErr }] = await Promise.all([
-        supabase.rpc("get_posts_with_counts"),
-        supabase
-          .from("posts")
-          .select("id,title,content,created_at,image_url,avatar_url,is_announcement,author,community_id")
-          .in("community_id", ids)
-          .order("created_at", { ascending: false }),
-      ]);
-      if (countsErr) throw new Error(countsErr.message);
-      if (baseErr) throw new Error(baseErr.message);
-      const countsById = new Map<number, any>(
-        ((countsData as any[]) || []).map((p) => [p.id as number, p])
-      );
-      const merged: Post[] = ((baseData as any[]) || []).map((p: any) => {
-        const c = countsById.get(p.id) || {};
-        return {
-          ...p,
-          like_count: c.like_count ?? 0,
-          comment_count: c.comment_count ?? 0,
-        } as Post;
-      });
-      return merged;
+      const communities = await fetchCommunitiesByAuthor(userId);
+      return fetchPosts({ communityIds: communities.map((c) => c.id) });
     },
   });
 
@@ -748,7 +894,7 @@ const PostsInUserCommunitiesList = ({ userId }: { userId: string }) => {
           <label className="mr-3 text-sm font-mono text-sage dark:text-mint">Sort by</label>
           <select
             value={sortOrder}
-            onChange={(e) => setSortOrder(e.target.value as any)}
+            onChange={(e) => setSortOrder(e.target.value as "newest" | "oldest")}
             className="appearance-none bg-tcream/10 dark:bg-deepteal/30 backdrop-blur-md border border-mint/30 dark:border-sage/20 rounded-xl px-4 py-2 pr-10 text-deep-teal dark:text-cream text-sm font-mono focus:outline-none focus:ring-2 focus:ring-teal/50 focus:border-transparent shadow-lg hover:shadow-xl transition-all duration-200"
           >
             <option value="newest">Newest first</option>
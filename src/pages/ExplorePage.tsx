@@ -1,108 +1,63 @@
 import { useMemo, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { supabase } from "../supabase-client";
-import type { Post } from "../components/PostList";
+import {
+  fetchCommunitiesWithPostCounts,
+  fetchFeedPage,
+  fetchTopPosts,
+  type CommunityWithPostCount,
+  type Post,
+  type PostMetric,
+} from "../api";
 import { Link } from "react-router-dom";
+import { useRestrictions } from "../hooks/useRestrictions";
 
-type SortMetric = "likes" | "comments";
+// Posts and communities shown per section
+const SECTION_LIMIT = 8;
 
-interface Community {
-  id: number;
-  name: string;
-  description: string | null;
-  member_count?: number;
-  activity_score?: number;
-}
-
-const fetchTrendingPosts = async (): Promise<Post[]> => {
-  const [{ data: countsData, error: countsErr }, { data: baseData, error: baseErr }] = await Promise.all([
-    supabase.rpc("get_posts_with_counts"),
-    supabase
-      .from("posts")
-      .select("id,title,community_id,created_at,image_url,avatar_url,is_announcement,communities(name)")
-      .order("created_at", { ascending: false }),
-  ]);
-  if (countsErr) throw new Error(countsErr.message);
-  if (baseErr) throw new Error(baseErr.message);
-  const countsById = new Map<number, any>(
-    ((countsData as any[]) || []).map((p) => [p.id as number, p])
-  );
-  const merged: any[] = ((baseData as any[]) || []).map((p: any) => ({
-    ...p,
-    like_count: countsById.get(p.id)?.like_count ?? 0,
-    comment_count: countsById.get(p.id)?.comment_count ?? 0,
-  }));
-  return merged as Post[];
-};
-
-const fetchCommunitiesWithStats = async (): Promise<Community[]> => {
-  const { data: comms, error: commErr } = await supabase
-    .from("communities")
-    .select("id,name,description")
-    .order("created_at", { ascending: false });
-  if (commErr) throw new Error(commErr.message);
-
-  const { data: posts, error: postErr } = await supabase
-    .from("posts")
-    .select("id,community_id")
-    .not("community_id", "is", null);
-  if (postErr) throw new Error(postErr.message);
+export const ExplorePage = () => {
+  const [sortMetric, setSortMetric] = useState<PostMetric>("likes");
 
-  const counts = new Map<number, number>();
-  (posts || []).forEach((p: any) => {
-    const id = p.community_id as number;
-    counts.set(id, (counts.get(id) || 0) + 1);
+  // Ranked and limited by the server rather than over every post
+  const { data: trendingPosts, isLoading: postsLoading, error: postsErr } = useQuery<Post[], Error>({
+    queryKey: ["trendingPosts", sortMetric],
+    queryFn: () => fetchTopPosts(sortMetric, SECTION_LIMIT),
   });
 
-  return (comms || []).map((c: any) => ({
-    id: c.id,
-    name: c.name,
-    description: c.description,
-    member_count: counts.get(c.id) || 0,
-    activity_score: counts.get(c.id) || 0,
-  })) as Community[];
-};
-
-export const ExplorePage = () => {
-  const [sortMetric, setSortMetric] = useState<SortMetric>("likes");
-
-  const { data: posts, isLoading: postsLoading, error: postsErr } = useQuery<Post[], Error>({
-    queryKey: ["trendingPosts"],
-    queryFn: fetchTrendingPosts,
+  const {
+    data: latestAnnouncements,
+    isLoading: announcementsLoading,
+    error: announcementsErr,
+  } = useQuery<Post[], Error>({
+    queryKey: ["posts", "announcements"],
+    queryFn: async () =>
+      (await fetchFeedPage({ announcements: true, sortOrder: "newest", cursor: null, limit: SECTION_LIMIT })).posts,
   });
 
-  const { data: communities, isLoading: commLoading, error: commErr } = useQuery<Community[], Error>({
+  // Muted and blocked authors drop out of trending and announcements alike
+  const { isHidden } = useRestrictions();
+  const sortedTrending = useMemo(
+    () => trendingPosts?.filter((p) => !isHidden(p.author)) ?? [],
+    [trendingPosts, isHidden]
+  );
+  const announcements = useMemo(
+    () => latestAnnouncements?.filter((p) => !isHidden(p.author)) ?? [],
+    [latestAnnouncements, isHidden]
+  );
+
+  const { data: communities, isLoading: commLoading, error: commErr } = useQuery<CommunityWithPostCount[], Error>({
     queryKey: ["popularCommunities"],
-    queryFn: fetchCommunitiesWithStats,
+    queryFn: () => fetchCommunitiesWithPostCounts(),
   });
 
-  const sortedTrending = useMemo(() => {
-    const list = [...(posts || [])];
-    return list
-      .sort((a: any, b: any) => {
-        const aVal = sortMetric === "likes" ? (a.like_count || 0) : (a.comment_count || 0);
-        const bVal = sortMetric === "likes" ? (b.like_count || 0) : (b.comment_count || 0);
-        return bVal - aVal;
-      })
-      .slice(0, 8);
-  }, [posts, sortMetric]);
-
   const sortedCommunities = useMemo(() => {
     const list = [...(communities || [])];
     return list
       .sort((a, b) => {
-        const aVal = (a.member_count || 0) + (a.activity_score || 0);
-        const bVal = (b.member_count || 0) + (b.activity_score || 0);
-        return bVal - aVal;
+        return b.post_count - a.post_count;
       })
-      .slice(0, 8);
+      .slice(0, SECTION_LIMIT);
   }, [communities]);
 
-  const announcements = useMemo(() => {
-    const list = [...(posts || [])];
-    return list.filter((p: any) => p.is_announcement).slice(0, 8);
-  }, [posts]);
-
   return (
     <div className="max-w-7xl mx-auto pt-8 space-y-10">
   {/* Hero Header */}
@@ -170,7 +125,7 @@ export const ExplorePage = () => {
           <div className="relative">
             <select
               value={sortMetric}
-              onChange={(e) => setSortMetric(e.target.value as SortMetric)}
+              onChange={(e) => setSortMetric(e.target.value as PostMetric)}
               className="appearance-none bg-tcream/10 dark:bg-deepteal/30 backdrop-blur-md border border-mint/30 dark:border-sage/20 rounded-xl px-3 py-1.5 pr-8 text-deepteal dark:text-tcream text-xs font-mono focus:outline-none focus:ring-2 focus:ring-mediumteal/50 focus:border-transparent shadow-lg transition-all duration-200"
             >
               <option value="likes">Most Likes</option>
@@ -204,7 +159,7 @@ export const ExplorePage = () => {
         </div>
       ) : (
         <div className="space-y-4">
-          {sortedTrending.map((p: any, index: number) => (
+          {sortedTrending.map((p, index) => (
             <Link key={p.id} to={`/post/${p.id}`} className="block group">
               <div className="relative overflow-hidden rounded-xl bg-gradient-to-br from-tcream/5 via-mint/10 to-sage/5 dark:from-deepteal/20 dark:via-mediumteal/10 dark:to-sage/5 backdrop-blur-lg border border-mint/20 dark:border-sage/10 hover:border-mediumteal/40 dark:hover:border-mediumteal/30 transition-all duration-300 hover:shadow-xl hover:-translate-y-1"
                    style={{ animationDelay: `${index * 100}ms` }}>
@@ -315,7 +270,7 @@ export const ExplorePage = () => {
                   </div>
                   
                   <div className="flex items-center space-x-1 px-2 py-1 bg-purple-500/10 rounded-full">
-                    <span className="text-xs font-mono text-purple-400">{c.member_count ?? 0}</span>
+                    <span className="text-xs font-mono text-purple-400">{c.post_count}</span>
                     <span className="text-xs text-purple-300">posts</span>
                   </div>
                 </div>
@@ -349,7 +304,7 @@ export const ExplorePage = () => {
         </div>
       </div>
       
-      {postsLoading ? (
+      {announcementsLoading ? (
         <div className="flex items-center justify-center py-8">
           <div className="relative">
             <div className="w-8 h-8 border-2 border-orange-500/20 border-t-orange-500 rounded-full animate-spin"></div>
@@ -357,13 +312,13 @@ export const ExplorePage = () => {
           </div>
           <span className="ml-3 text-orange-400 font-mono text-sm">Loading announcements...</span>
         </div>
-      ) : postsErr ? (
+      ) : announcementsErr ? (
         <div className="bg-red-500/10 border border-red-500/20 backdrop-blur-lg rounded-xl p-4">
           <div className="flex items-center space-x-3">
             <div className="w-5 h-5 border border-red-500 rounded-full flex items-center justify-center">
               <span className="text-red-500 text-xs">!</span>
             </div>
-            <span className="text-red-400 font-mono text-sm">{postsErr.message}</span>
+            <span className="text-red-400 font-mono text-sm">{announcementsErr.message}</span>
           </div>
         </div>
       ) : announcements.length === 0 ? (
@@ -377,7 +332,7 @@ export const ExplorePage = () => {
         </div>
       ) : (
         <div className="space-y-4">
-          {announcements.map((p: any, index: number) => (
+          {announcements.map((p, index) => (
             <Link key={p.id} to={`/post/${p.id}`} className="block group">
               <div className="relative overflow-hidden rounded-xl bg-gradient-to-br from-orange-500/5 via-yellow-500/10 to-orange-500/5 dark:from-orange-500/10 dark:via-yellow-500/5 dark:to-orange-500/10 backdrop-blur-lg border border-orange-500/20 dark:border-yellow-500/10 hover:border-orange-500/40 dark:hover:border-yellow-500/30 transition-all duration-300 hover:shadow-xl hover:-translate-y-1"
                    style={{ animationDelay: `${index * 100}ms` }}>
@@ -0,0 +1,11 @@
+import { useParams } from "react-router-dom";
+import { PostHistory } from "../components/PostHistory";
+
+export const PostHistoryPage = () => {
+  const { id } = useParams<{ id: string }>();
+  return (
+    <div className="pt-20">
+      <PostHistory postId={Number(id)} />
+    </div>
+  );
+};
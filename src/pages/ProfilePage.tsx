@@ -0,0 +1,11 @@
+import { useParams } from "react-router";
+import { UserProfile } from "../components/UserProfile";
+
+export const ProfilePage = () => {
+  const { username } = useParams<{ username: string }>();
+  return (
+    <div className="pt-6">
+      <UserProfile username={username ?? ""} />
+    </div>
+  );
+};
@@ -0,0 +1,9 @@
+import { ResetPassword } from "../components/ResetPassword";
+
+export const ResetPasswordPage = () => {
+  return (
+    <div className="pt-10">
+      <ResetPassword />
+    </div>
+  );
+};
@@ -0,0 +1,11 @@
+import { ProfileSettings } from "../components/ProfileSettings";
+import { RestrictionSettings } from "../components/RestrictionSettings";
+
+export const SettingsPage = () => {
+  return (
+    <div className="pt-10 space-y-12">
+      <ProfileSettings />
+      <RestrictionSettings />
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+import { Navigate, useLocation } from "react-router-dom";
+import { SignIn } from "../components/SignIn";
+import type { SignInLocationState } from "../components/RequireAuth";
+import { useAuth } from "../context/AuthContext";
+
+export const SignInPage = () => {
+  const { user } = useAuth();
+  const from = (useLocation().state as SignInLocationState | null)?.from;
+
+  if (user) return <Navigate to={from ?? "/"} replace />;
+
+  return (
+    <div className="pt-10">
+      <SignIn />
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import type { Community, Post, UserRoles } from "./api/types";
+
+/**
+ * Central permission rules. Components ask `can(roles, action, resource)`
+ * (usually through usePermissions) instead of comparing author ids, and the
+ * row-level policies in the permissions migration enforce the same rules.
+ *
+ * Site admins may do everything and are never treated as banned. Community
+ * owners and moderators share moderation rights; only owners (and admins)
+ * edit the community and appoint moderators.
+ */
+interface Resources {
+  "post.edit": Post;
+  "post.delete": Post;
+  "post.pin": Post;
+  "post.lock": Post;
+  "post.comment": Post;
+  "community.post": Community;
+  "community.announce": Community;
+  "community.edit": Community;
+  "community.ban": Community;
+  "community.appoint": Community;
+}
+
+export type Action = keyof Resources;
+export type ResourceOf<A extends Action> = Resources[A];
+
+const roleIn = (user: UserRoles, communityId: number | null | undefined) =>
+  communityId == null ? undefined : user.communityRoles[communityId];
+
+// Posts outside any community are moderated by site admins only
+const moderates = (user: UserRoles, communityId: number | null | undefined) =>
+  user.isSiteAdmin || roleIn(user, communityId) !== undefined;
+
+const owns = (user: UserRoles, community: Community) =>
+  user.isSiteAdmin || community.author === user.userId || roleIn(user, community.id) === "owner";
+
+const isBanned = (user: UserRoles, communityId: number | null | undefined) =>
+  communityId != null && !user.isSiteAdmin && user.bannedFrom.includes(communityId);
+
+const rules: { [A in Action]: (user: UserRoles, resource: Resources[A]) => boolean } = {
+  // Moderators can remove a post but not put words in its author's mouth
+  "post.edit": (user, post) => post.author === user.userId,
+  "post.delete": (user, post) => post.author === user.userId || moderates(user, post.community_id),
+  "post.pin": (user, post) => post.community_id != null && moderates(user, post.community_id),
+  "post.lock": (user, post) => moderates(user, post.community_id),
+  "post.comment": (user, post) =>
+    !isBanned(user, post.community_id) && (!post.is_locked || moderates(user, post.community_id)),
+  "community.post": (user, community) => !isBanned(user, community.id),
+  "community.announce": (user, community) => moderates(user, community.id),
+  "community.edit": owns,
+  "community.ban": (user, community) => moderates(user, community.id),
+  "community.appoint": owns,
+};
+
+/** Signed-out users (`null`) may do none of these. */
+export const can = <A extends Action>(user: UserRoles | null, action: A, resource: ResourceOf<A>): boolean =>
+  !!user && rules[action](user, resource);
+
+/** Roles of a user who is signed in but has no special roles, used until the real ones load. */
+export const memberRoles = (userId: string): UserRoles => ({
+  userId,
+  isSiteAdmin: false,
+  communityRoles: {},
+  bannedFrom: [],
+});
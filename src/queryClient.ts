@@ -0,0 +1,145 @@
+import { MutationCache, QueryCache, QueryClient } from "@tanstack/react-query";
+import type { PersistedClient, Persister } from "@tanstack/react-query-persist-client";
+import { del, get, set } from "idb-keyval";
+import { castVote, createComment, createPost, type CommentInput, type PostInput } from "./api";
+import { isAuthError, reportSessionExpired } from "./authEvents";
+import { toast } from "./notifications";
+
+const CACHE_KEY = "community:query-cache";
+const PERSIST_THROTTLE_MS = 1000;
+
+/** How long a persisted cache (and any queued mutations in it) stays usable. */
+export const CACHE_MAX_AGE = 1000 * 60 * 60 * 24;
+
+/** Messages the caches report to the toast service. */
+type NotificationMeta = {
+  /** Toast title when the operation fails. Queries only toast when this is set. */
+  errorMessage?: string;
+  /** Toast title when a mutation succeeds. */
+  successMessage?: string;
+};
+
+declare module "@tanstack/react-query" {
+  interface Register {
+    queryMeta: NotificationMeta;
+    mutationMeta: NotificationMeta;
+  }
+}
+
+/**
+ * Mutations that survive reloads and offline periods. Their mutationFn lives
+ * in the defaults below rather than in components, so a mutation restored
+ * from IndexedDB can still be replayed.
+ */
+export const mutationKeys = {
+  createPost: ["createPost"],
+  createComment: ["createComment"],
+  castVote: ["castVote"],
+} as const;
+
+export interface CreatePostVariables {
+  post: PostInput;
+  imageFiles: File[];
+}
+
+export interface CastVoteVariables {
+  voteValue: number;
+  postId: number;
+  userId: string;
+}
+
+// supabase-js surfaces a dropped connection as a fetch TypeError message
+const isNetworkError = (error: Error) =>
+  error instanceof TypeError || /failed to fetch|network ?error|load failed/i.test(error.message);
+
+// Retries pause while offline, so a request cut off mid-flight waits for the connection
+const retryOnNetworkError = (failureCount: number, error: Error) =>
+  isNetworkError(error) && failureCount < 3;
+
+export const queryClient = new QueryClient({
+  queryCache: new QueryCache({
+    onError: (error, query) => {
+      if (isAuthError(error)) {
+        reportSessionExpired();
+        return;
+      }
+      if (query.meta?.errorMessage) toast.error(query.meta.errorMessage, { description: error.message });
+    },
+  }),
+  // Every mutation reports its failure here instead of rendering its own error.
+  // A lapsed session opens the re-auth prompt rather than toasting.
+  mutationCache: new MutationCache({
+    onError: (error, _variables, _context, mutation) => {
+      if (isAuthError(error)) {
+        reportSessionExpired();
+        return;
+      }
+      toast.error(mutation.meta?.errorMessage ?? "Something went wrong", { description: error.message });
+    },
+    onSuccess: (_data, _variables, _context, mutation) => {
+      if (mutation.meta?.successMessage) toast.success(mutation.meta.successMessage);
+    },
+  }),
+  defaultOptions: {
+    queries: {
+      // Must outlive CACHE_MAX_AGE or restored queries are collected straight away
+      gcTime: CACHE_MAX_AGE,
+    },
+  },
+});
+
+queryClient.setMutationDefaults(mutationKeys.createPost, {
+  mutationFn: ({ post, imageFiles }: CreatePostVariables) => createPost(post, imageFiles),
+  meta: { successMessage: "Post created", errorMessage: "Failed to create post" },
+  retry: retryOnNetworkError,
+  onSettled: () => queryClient.invalidateQueries({ queryKey: ["posts"] }),
+});
+
+queryClient.setMutationDefaults(mutationKeys.createComment, {
+  mutationFn: (comment: CommentInput) => createComment(comment),
+  meta: { successMessage: "Comment posted", errorMessage: "Failed to post comment" },
+  retry: retryOnNetworkError,
+  onSettled: (_data, _error, comment: CommentInput) =>
+    queryClient.invalidateQueries({ queryKey: ["comments", comment.post_id] }),
+});
+
+queryClient.setMutationDefaults(mutationKeys.castVote, {
+  mutationFn: ({ voteValue, postId, userId }: CastVoteVariables) => castVote(voteValue, postId, userId),
+  meta: { errorMessage: "Couldn't save your vote" },
+  retry: retryOnNetworkError,
+  onSettled: (_data, _error, { postId }: CastVoteVariables) =>
+    queryClient.invalidateQueries({ queryKey: ["voteSummary", postId] }),
+});
+
+/**
+ * IndexedDB persister. IndexedDB stores structured clones, so queued posts
+ * keep their image File across reloads. Writes are throttled because the
+ * cache is persisted on every change.
+ */
+const createIdbPersister = (key: string): Persister => {
+  let pending: PersistedClient | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  return {
+    persistClient: (client) => {
+      pending = client;
+      if (timer) return;
+      timer = setTimeout(() => {
+        timer = null;
+        if (pending) set(key, pending).catch(() => del(key));
+        pending = null;
+      }, PERSIST_THROTTLE_MS);
+    },
+    restoreClient: () => get<PersistedClient>(key),
+    removeClient: () => del(key),
+  };
+};
+
+export const queryPersister = createIdbPersister(CACHE_KEY);
+
+/**
+ * Replays mutations restored from the last session. While offline they simply
+ * pause again; the client resumes them itself once the connection is back.
+ */
+export const resumeQueuedMutations = () =>
+  queryClient.resumePausedMutations().then(() => queryClient.invalidateQueries());
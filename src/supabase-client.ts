@@ -1,6 +1,4 @@
 import { createClient } from "@supabase/supabase-js";
+import { config } from "./config";
 
-const supabaseURL = "https://wytvglbpnnqbwgbglzel.supabase.co";
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
-
-export const supabase = createClient(supabaseURL, supabaseAnonKey);
\ No newline at end of file
+export const createSupabaseClient = () => createClient(config.supabase.url, config.supabase.anonKey);
@@ -1 +1,21 @@
 /// <reference types="vite/client" />
+
+// Parsed and validated in src/config.ts; read config from there rather than here.
+interface ImportMetaEnv {
+  /** "development", "staging" or "production"; defaults from the Vite mode. */
+  readonly VITE_APP_ENV?: string;
+  /** "supabase" (default) or "memory" for the offline localStorage backend. */
+  readonly VITE_BACKEND?: string;
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_POST_IMAGES_BUCKET?: string;
+  readonly VITE_AVATARS_BUCKET?: string;
+  /** Comma-separated OAuth providers for the sign-in page, e.g. "github,google". */
+  readonly VITE_AUTH_OAUTH_PROVIDERS?: string;
+  readonly VITE_FEATURE_REALTIME?: string;
+  readonly VITE_FEATURE_OFFLINE_CACHE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
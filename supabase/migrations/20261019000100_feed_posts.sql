@@ -0,0 +1,31 @@
+-- Feed endpoint: posts joined with their community name and aggregate counts,
+-- so the client can page through them with a single keyset query.
+
+create index if not exists posts_created_at_id_idx
+  on public.posts (created_at desc, id desc);
+
+create index if not exists posts_community_created_at_id_idx
+  on public.posts (community_id, created_at desc, id desc);
+
+create index if not exists votes_post_id_idx on public.votes (post_id);
+create index if not exists comments_post_id_idx on public.comments (post_id);
+
+create or replace view public.feed_posts
+with (security_invoker = true) as
+select
+  p.id,
+  p.title,
+  p.content,
+  p.created_at,
+  p.image_url,
+  p.avatar_url,
+  p.is_announcement,
+  p.author,
+  p.community_id,
+  c.name as community_name,
+  (select count(*) from public.votes v where v.post_id = p.id and v.vote = 1) as like_count,
+  (select count(*) from public.comments cm where cm.post_id = p.id) as comment_count
+from public.posts p
+left join public.communities c on c.id = p.community_id;
+
+grant select on public.feed_posts to anon, authenticated;
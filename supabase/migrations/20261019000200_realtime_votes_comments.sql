@@ -0,0 +1,8 @@
+-- Stream vote and comment changes to clients instead of having them poll.
+-- Full replica identity makes DELETE payloads carry post_id, which the
+-- client needs to route the change to the right cache entry.
+
+alter table public.votes replica identity full;
+alter table public.comments replica identity full;
+
+alter publication supabase_realtime add table public.votes, public.comments;
@@ -0,0 +1,44 @@
+-- One vote per user per post, toggled atomically on the server.
+
+-- Keep the most recent vote where earlier races left duplicates behind.
+delete from public.votes v
+using public.votes newer
+where v.post_id = newer.post_id
+  and v.user_id = newer.user_id
+  and v.id < newer.id;
+
+alter table public.votes
+  add constraint votes_post_id_user_id_key unique (post_id, user_id);
+
+-- Casting the same value twice removes the vote; a different value replaces it.
+-- Returns the caller's resulting vote, or null when it was removed.
+create or replace function public.toggle_vote(p_post_id bigint, p_vote int)
+returns int
+language plpgsql
+security invoker
+as $$
+declare
+  v_user text := auth.uid()::text;
+begin
+  if v_user is null then
+    raise exception 'You must be logged in to Vote!' using errcode = '28000';
+  end if;
+  if p_vote not in (1, -1) then
+    raise exception 'Invalid vote value %', p_vote using errcode = '22023';
+  end if;
+
+  delete from public.votes
+  where post_id = p_post_id and user_id = v_user and vote = p_vote;
+  if found then
+    return null;
+  end if;
+
+  insert into public.votes (post_id, user_id, vote)
+  values (p_post_id, v_user, p_vote)
+  on conflict (post_id, user_id) do update set vote = excluded.vote;
+
+  return p_vote;
+end;
+$$;
+
+grant execute on function public.toggle_vote(bigint, int) to authenticated;
@@ -0,0 +1,21 @@
+-- Aggregate vote counts for a batch of posts, plus the caller's own vote,
+-- so clients never download individual vote rows.
+
+create or replace function public.get_vote_summaries(p_post_ids bigint[])
+returns table (post_id bigint, likes bigint, dislikes bigint, score bigint, user_vote int)
+language sql
+stable
+security invoker
+as $$
+  select
+    p.id,
+    count(v.id) filter (where v.vote = 1),
+    count(v.id) filter (where v.vote = -1),
+    coalesce(sum(v.vote), 0),
+    max(v.vote) filter (where v.user_id = auth.uid()::text)
+  from unnest(p_post_ids) as p(id)
+  left join public.votes v on v.post_id = p.id
+  group by p.id;
+$$;
+
+grant execute on function public.get_vote_summaries(bigint[]) to anon, authenticated;
@@ -0,0 +1,86 @@
+-- Public profile per auth user, created on first sign-in.
+
+create table public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  username text not null unique check (username ~ '^[a-z0-9_]{3,30}$'),
+  display_name text,
+  bio text,
+  avatar_url text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.profiles enable row level security;
+
+create policy "Profiles are public"
+  on public.profiles for select
+  using (true);
+
+create policy "Users update their own profile"
+  on public.profiles for update
+  using (auth.uid() = id)
+  with check (auth.uid() = id);
+
+-- Lower-cased, url-safe username from the sign-up metadata or email,
+-- suffixed with a number while it is taken.
+create or replace function public.unique_username(p_base text)
+returns text
+language plpgsql
+as $$
+declare
+  v_base text := left(regexp_replace(lower(coalesce(p_base, '')), '[^a-z0-9_]', '', 'g'), 24);
+  v_candidate text;
+  v_suffix int := 0;
+begin
+  if length(v_base) < 3 then
+    v_base := 'user' || v_base;
+  end if;
+  v_candidate := v_base;
+  while exists (select 1 from public.profiles where username = v_candidate) loop
+    v_suffix := v_suffix + 1;
+    v_candidate := v_base || v_suffix;
+  end loop;
+  return v_candidate;
+end;
+$$;
+
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, username, display_name, avatar_url)
+  values (
+    new.id,
+    public.unique_username(coalesce(new.raw_user_meta_data ->> 'user_name', split_part(new.email, '@', 1))),
+    coalesce(new.raw_user_meta_data ->> 'full_name', new.raw_user_meta_data ->> 'name'),
+    new.raw_user_meta_data ->> 'avatar_url'
+  );
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- Existing accounts
+do $$
+declare
+  u record;
+begin
+  for u in select * from auth.users where id not in (select id from public.profiles) order by created_at loop
+    insert into public.profiles (id, username, display_name, avatar_url, created_at)
+    values (
+      u.id,
+      public.unique_username(coalesce(u.raw_user_meta_data ->> 'user_name', split_part(u.email, '@', 1))),
+      coalesce(u.raw_user_meta_data ->> 'full_name', u.raw_user_meta_data ->> 'name'),
+      u.raw_user_meta_data ->> 'avatar_url',
+      u.created_at
+    );
+  end loop;
+end;
+$$;
+
+create index if not exists comments_user_id_idx on public.comments (user_id);
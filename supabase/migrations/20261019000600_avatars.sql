@@ -0,0 +1,30 @@
+-- Public bucket for profile pictures. Each user writes only below a folder
+-- named after their own id: <user id>/<file>.
+
+insert into storage.buckets (id, name, public)
+values ('avatars', 'avatars', true)
+on conflict (id) do nothing;
+
+create policy "Avatars are public"
+  on storage.objects for select
+  using (bucket_id = 'avatars');
+
+create policy "Users upload their own avatars"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users replace their own avatars"
+  on storage.objects for update
+  to authenticated
+  using (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users delete their own avatars"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Bio length is enforced here as well as in the settings form
+alter table public.profiles
+  add constraint profiles_bio_length check (char_length(bio) <= 280),
+  add constraint profiles_display_name_length check (char_length(display_name) <= 50);
@@ -0,0 +1,281 @@
+-- Roles and the row-level policies behind src/permissions.ts.
+--
+--   site admin   row in site_admins; may moderate and edit everything
+--   owner        created the community; moderates it and appoints moderators
+--   moderator    appointed per community; deletes, pins and locks posts, bans users
+--   member       everyone else; deletes their own posts
+--
+-- Moderation policies are added as restrictive policies so they also narrow
+-- any broader permissive policies created with the original tables.
+
+create table public.site_admins (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.site_admins enable row level security;
+
+-- Managed from the SQL editor only: insert into public.site_admins (user_id) values ('<uuid>');
+create policy "Site admins are public"
+  on public.site_admins for select
+  using (true);
+
+create table public.community_moderators (
+  community_id bigint not null references public.communities (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null default 'moderator' check (role in ('owner', 'moderator')),
+  created_at timestamptz not null default now(),
+  primary key (community_id, user_id)
+);
+
+create index community_moderators_user_id_idx on public.community_moderators (user_id);
+
+create table public.community_bans (
+  community_id bigint not null references public.communities (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  banned_by uuid not null references auth.users (id),
+  reason text check (char_length(reason) <= 500),
+  created_at timestamptz not null default now(),
+  primary key (community_id, user_id)
+);
+
+create index community_bans_user_id_idx on public.community_bans (user_id);
+
+alter table public.posts
+  add column if not exists is_locked boolean not null default false;
+
+-- Helpers run as definer so policies can consult the role tables without
+-- recursing through their own policies.
+create or replace function public.is_site_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.site_admins where user_id = auth.uid());
+$$;
+
+create or replace function public.community_role(p_community_id bigint)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.community_moderators
+  where community_id = p_community_id and user_id = auth.uid();
+$$;
+
+create or replace function public.can_moderate(p_community_id bigint)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_site_admin()
+    or (p_community_id is not null and public.community_role(p_community_id) is not null);
+$$;
+
+create or replace function public.can_manage_community(p_community_id bigint)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_site_admin() or public.community_role(p_community_id) = 'owner';
+$$;
+
+create or replace function public.is_banned(p_community_id bigint)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_community_id is not null
+    and not public.is_site_admin()
+    and exists (
+      select 1 from public.community_bans
+      where community_id = p_community_id and user_id = auth.uid()
+    );
+$$;
+
+-- Owners
+create or replace function public.handle_new_community()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.community_moderators (community_id, user_id, role)
+  values (new.id, new.author::uuid, 'owner')
+  on conflict (community_id, user_id) do update set role = 'owner';
+  return new;
+end;
+$$;
+
+create trigger on_community_created
+  after insert on public.communities
+  for each row execute function public.handle_new_community();
+
+insert into public.community_moderators (community_id, user_id, role, created_at)
+select c.id, c.author::uuid, 'owner', c.created_at
+from public.communities c
+where c.author is not null
+  and exists (select 1 from auth.users u where u.id = c.author::uuid)
+on conflict (community_id, user_id) do nothing;
+
+-- Role tables
+
+alter table public.community_moderators enable row level security;
+
+create policy "Moderators are public"
+  on public.community_moderators for select
+  using (true);
+
+create policy "Owners appoint moderators"
+  on public.community_moderators for insert
+  to authenticated
+  with check (role = 'moderator' and public.can_manage_community(community_id));
+
+create policy "Owners dismiss moderators"
+  on public.community_moderators for delete
+  to authenticated
+  using (role = 'moderator' and public.can_manage_community(community_id));
+
+alter table public.community_bans enable row level security;
+
+create policy "Bans are visible to moderators and the banned user"
+  on public.community_bans for select
+  to authenticated
+  using (user_id = auth.uid() or public.can_moderate(community_id));
+
+create policy "Moderators ban members"
+  on public.community_bans for insert
+  to authenticated
+  with check (
+    banned_by = auth.uid()
+    and public.can_moderate(community_id)
+    and not exists (
+      select 1 from public.community_moderators m
+      where m.community_id = community_bans.community_id and m.user_id = community_bans.user_id
+    )
+  );
+
+create policy "Moderators lift bans"
+  on public.community_bans for delete
+  to authenticated
+  using (public.can_moderate(community_id));
+
+-- Posts
+
+create policy "Members post unless banned"
+  on public.posts as restrictive for insert
+  to authenticated
+  with check (
+    author::text = auth.uid()::text
+    and not public.is_banned(community_id)
+    and (not is_announcement or public.can_moderate(community_id))
+    and not is_locked
+  );
+
+create policy "Authors and moderators delete posts"
+  on public.posts for delete
+  to authenticated
+  using (author::text = auth.uid()::text or public.can_moderate(community_id));
+
+create policy "Only authors and moderators delete posts"
+  on public.posts as restrictive for delete
+  to authenticated
+  using (author::text = auth.uid()::text or public.can_moderate(community_id));
+
+create policy "Authors and moderators update posts"
+  on public.posts for update
+  to authenticated
+  using (author::text = auth.uid()::text or public.can_moderate(community_id));
+
+create policy "Only authors and moderators update posts"
+  on public.posts as restrictive for update
+  to authenticated
+  using (author::text = auth.uid()::text or public.can_moderate(community_id));
+
+-- Authors may update their own posts, but pinning and locking stay with moderators.
+create or replace function public.guard_post_moderation()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (new.is_announcement is distinct from old.is_announcement
+      or new.is_locked is distinct from old.is_locked
+      or new.community_id is distinct from old.community_id)
+     and not public.can_moderate(old.community_id) then
+    raise exception 'Only moderators can pin, lock or move posts' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger guard_post_moderation
+  before update on public.posts
+  for each row execute function public.guard_post_moderation();
+
+-- Comments
+
+create policy "Comments respect bans and locks"
+  on public.comments as restrictive for insert
+  to authenticated
+  with check (
+    user_id::text = auth.uid()::text
+    and exists (
+      select 1 from public.posts p
+      where p.id = post_id
+        and not public.is_banned(p.community_id)
+        and (not p.is_locked or public.can_moderate(p.community_id))
+    )
+  );
+
+-- Communities
+
+create policy "Owners edit communities"
+  on public.communities for update
+  to authenticated
+  using (public.can_manage_community(id));
+
+create policy "Only owners edit communities"
+  on public.communities as restrictive for update
+  to authenticated
+  using (public.can_manage_community(id));
+
+create policy "Owners delete communities"
+  on public.communities for delete
+  to authenticated
+  using (public.can_manage_community(id));
+
+create policy "Only owners delete communities"
+  on public.communities as restrictive for delete
+  to authenticated
+  using (public.can_manage_community(id));
+
+-- The feed view gains the lock flag
+create or replace view public.feed_posts
+with (security_invoker = true) as
+select
+  p.id,
+  p.title,
+  p.content,
+  p.created_at,
+  p.image_url,
+  p.avatar_url,
+  p.is_announcement,
+  p.author,
+  p.community_id,
+  c.name as community_name,
+  (select count(*) from public.votes v where v.post_id = p.id and v.vote = 1) as like_count,
+  (select count(*) from public.comments cm where cm.post_id = p.id) as comment_count,
+  p.is_locked
+from public.posts p
+left join public.communities c on c.id = p.community_id;
@@ -0,0 +1,95 @@
+-- Account deletion with a 14 day grace period. Requesting deletion inserts a
+-- row here; cancelling deletes it. Once purge_after has passed,
+-- scripts/purge-deleted-accounts.mjs removes the user's uploads through the
+-- Storage API and calls purge_account for everything else.
+
+create table public.account_deletions (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  requested_at timestamptz not null default now(),
+  purge_after timestamptz not null default now() + interval '14 days'
+);
+
+create index account_deletions_purge_after_idx on public.account_deletions (purge_after);
+
+-- Clients cannot shorten (or extend) the grace period
+create or replace function public.set_account_deletion_schedule()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.requested_at := now();
+  new.purge_after := now() + interval '14 days';
+  return new;
+end;
+$$;
+
+create trigger set_account_deletion_schedule
+  before insert on public.account_deletions
+  for each row execute function public.set_account_deletion_schedule();
+
+alter table public.account_deletions enable row level security;
+
+create policy "Users see their own deletion request"
+  on public.account_deletions for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users request deletion of their own account"
+  on public.account_deletions for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users cancel their own deletion request"
+  on public.account_deletions for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Bans outlive the moderator who issued them
+alter table public.community_bans
+  alter column banned_by drop not null,
+  drop constraint community_bans_banned_by_fkey,
+  add constraint community_bans_banned_by_fkey
+    foreign key (banned_by) references auth.users (id) on delete set null;
+
+-- Deletes the user's rows, the communities they own with every post in them,
+-- and the auth user itself. Returns the image URLs of the deleted posts so
+-- the caller can remove the files.
+create or replace function public.purge_account(p_user_id uuid)
+returns text[]
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_community_ids bigint[];
+  v_post_ids bigint[];
+  v_image_urls text[];
+begin
+  select coalesce(array_agg(id), '{}') into v_community_ids
+  from communities
+  where author::text = p_user_id::text;
+
+  select coalesce(array_agg(id), '{}'), coalesce(array_agg(image_url) filter (where image_url is not null), '{}')
+  into v_post_ids, v_image_urls
+  from posts
+  where author::text = p_user_id::text or community_id = any (v_community_ids);
+
+  -- Replies by other people survive their parent
+  update comments set parent_comment_id = null
+  where parent_comment_id in (select id from comments where user_id::text = p_user_id::text)
+    and user_id::text <> p_user_id::text
+    and not (post_id = any (v_post_ids));
+
+  delete from comments where user_id::text = p_user_id::text or post_id = any (v_post_ids);
+  delete from votes where user_id::text = p_user_id::text or post_id = any (v_post_ids);
+  delete from posts where id = any (v_post_ids);
+  delete from communities where id = any (v_community_ids);
+
+  -- Profile, roles, bans and the deletion request cascade from here
+  delete from auth.users where id = p_user_id;
+
+  return v_image_urls;
+end;
+$$;
+
+revoke execute on function public.purge_account(uuid) from public, anon, authenticated;
@@ -0,0 +1,38 @@
+-- Who follows whom, and the home page's "Following" feed.
+
+create table public.follows (
+  follower_id uuid not null references auth.users (id) on delete cascade,
+  followee_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (follower_id, followee_id),
+  check (follower_id <> followee_id)
+);
+
+create index follows_followee_id_idx on public.follows (followee_id);
+
+alter table public.follows enable row level security;
+
+create policy "Follows are public"
+  on public.follows for select
+  using (true);
+
+create policy "Users follow as themselves"
+  on public.follows for insert
+  to authenticated
+  with check (follower_id = auth.uid());
+
+create policy "Users unfollow as themselves"
+  on public.follows for delete
+  to authenticated
+  using (follower_id = auth.uid());
+
+-- feed_posts limited to authors the caller follows; same columns, so the
+-- client pages through it exactly like the main feed
+create or replace view public.following_feed_posts
+with (security_invoker = true) as
+select f.*
+from public.feed_posts f
+where exists (
+  select 1 from public.follows fo
+  where fo.follower_id = auth.uid() and fo.followee_id::text = f.author::text
+);
@@ -0,0 +1,70 @@
+-- Muted and blocked users. Both hide the target's content from the user
+-- (filtered in the client); a block also stops the target from commenting
+-- on the user's posts or replying to their comments.
+
+create table public.user_restrictions (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  target_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null check (kind in ('mute', 'block')),
+  created_at timestamptz not null default now(),
+  primary key (user_id, target_id),
+  check (user_id <> target_id)
+);
+
+create index user_restrictions_target_id_idx on public.user_restrictions (target_id);
+
+alter table public.user_restrictions enable row level security;
+
+-- Private: nobody can find out who muted or blocked them
+create policy "Users see their own restrictions"
+  on public.user_restrictions for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users restrict as themselves"
+  on public.user_restrictions for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users change their own restrictions"
+  on public.user_restrictions for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users lift their own restrictions"
+  on public.user_restrictions for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Runs as definer because the blocker's rows are hidden from the commenter
+create or replace function public.is_blocked_by(p_user_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.user_restrictions
+    where user_id::text = p_user_id and target_id = auth.uid() and kind = 'block'
+  );
+$$;
+
+create or replace function public.guard_blocked_comments()
+returns trigger
+language plpgsql
+as $$
+begin
+  if public.is_blocked_by((select p.author::text from public.posts p where p.id = new.post_id))
+     or (new.parent_comment_id is not null
+         and public.is_blocked_by((select c.user_id::text from public.comments c where c.id = new.parent_comment_id))) then
+    raise exception 'You cannot reply to this user' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger guard_blocked_comments
+  before insert on public.comments
+  for each row execute function public.guard_blocked_comments();
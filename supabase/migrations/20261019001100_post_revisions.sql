@@ -0,0 +1,128 @@
+-- Post editing. Authors may change the title, content and image of their
+-- posts; every version is kept in post_revisions, the newest being the post
+-- as it is now, and posts.edited_at marks posts that have been changed.
+
+alter table public.posts
+  add column if not exists edited_at timestamptz;
+
+create table public.post_revisions (
+  id bigint generated always as identity primary key,
+  post_id bigint not null references public.posts (id) on delete cascade,
+  title text not null,
+  content text,
+  image_url text,
+  created_at timestamptz not null default now()
+);
+
+create index post_revisions_post_id_created_at_idx on public.post_revisions (post_id, created_at);
+
+alter table public.post_revisions enable row level security;
+
+-- Readable like the posts themselves; only the trigger below writes here
+create policy "Post revisions are public"
+  on public.post_revisions for select
+  using (true);
+
+-- Existing posts start out with their current version
+insert into public.post_revisions (post_id, title, content, image_url, created_at)
+select id, title, content, image_url, created_at
+from public.posts;
+
+-- Moderators may update posts (to pin and lock them) but only the author
+-- may change what they say. Clients cannot set edited_at themselves.
+create or replace function public.guard_post_edit()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.edited_at := null;
+    return new;
+  end if;
+
+  if new.title is distinct from old.title
+     or new.content is distinct from old.content
+     or new.image_url is distinct from old.image_url then
+    if old.author::text is distinct from auth.uid()::text then
+      raise exception 'Only the author can edit a post' using errcode = '42501';
+    end if;
+    new.edited_at := now();
+  else
+    new.edited_at := old.edited_at;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger guard_post_edit
+  before insert or update on public.posts
+  for each row execute function public.guard_post_edit();
+
+-- Runs as definer because clients have no insert policy on post_revisions
+create or replace function public.record_post_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and new.edited_at is not distinct from old.edited_at then
+    return new;
+  end if;
+
+  insert into post_revisions (post_id, title, content, image_url, created_at)
+  values (new.id, new.title, new.content, new.image_url, coalesce(new.edited_at, new.created_at));
+  return new;
+end;
+$$;
+
+create trigger record_post_revision
+  after insert or update on public.posts
+  for each row execute function public.record_post_revision();
+
+-- purge_account also returns images that only older revisions still show
+create or replace function public.purge_account(p_user_id uuid)
+returns text[]
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_community_ids bigint[];
+  v_post_ids bigint[];
+  v_image_urls text[];
+begin
+  select coalesce(array_agg(id), '{}') into v_community_ids
+  from communities
+  where author::text = p_user_id::text;
+
+  select coalesce(array_agg(id), '{}') into v_post_ids
+  from posts
+  where author::text = p_user_id::text or community_id = any (v_community_ids);
+
+  select coalesce(array_agg(distinct image_url) filter (where image_url is not null), '{}') into v_image_urls
+  from (
+    select image_url from posts where id = any (v_post_ids)
+    union all
+    select image_url from post_revisions where post_id = any (v_post_ids)
+  ) images;
+
+  -- Replies by other people survive their parent
+  update comments set parent_comment_id = null
+  where parent_comment_id in (select id from comments where user_id::text = p_user_id::text)
+    and user_id::text <> p_user_id::text
+    and not (post_id = any (v_post_ids));
+
+  delete from comments where user_id::text = p_user_id::text or post_id = any (v_post_ids);
+  delete from votes where user_id::text = p_user_id::text or post_id = any (v_post_ids);
+  delete from posts where id = any (v_post_ids);
+  delete from communities where id = any (v_community_ids);
+
+  -- Profile, roles, bans and the deletion request cascade from here
+  delete from auth.users where id = p_user_id;
+
+  return v_image_urls;
+end;
+$$;
+
+revoke execute on function public.purge_account(uuid) from public, anon, authenticated;
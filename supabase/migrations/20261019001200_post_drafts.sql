@@ -0,0 +1,38 @@
+-- Drafts synced from CreatePost when the user turns sync on. The client keeps
+-- its own copy (with the selected image) and generates the ids, so saving is
+-- an upsert and works the same for a draft's first and later saves.
+
+create table public.post_drafts (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null default '',
+  content text not null default '',
+  community_id bigint references public.communities (id) on delete set null,
+  is_announcement boolean not null default false,
+  updated_at timestamptz not null default now()
+);
+
+create index post_drafts_user_id_updated_at_idx on public.post_drafts (user_id, updated_at desc);
+
+alter table public.post_drafts enable row level security;
+
+create policy "Users see their own drafts"
+  on public.post_drafts for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users save their own drafts"
+  on public.post_drafts for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users update their own drafts"
+  on public.post_drafts for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users discard their own drafts"
+  on public.post_drafts for delete
+  to authenticated
+  using (user_id = auth.uid());
@@ -0,0 +1,104 @@
+-- Scheduled posts. A post with scheduled_for set is only visible to its
+-- author until scripts/publish-scheduled-posts.mjs calls
+-- publish_scheduled_posts, which clears scheduled_for once the time has come
+-- and dates the post to when it was meant to go out.
+
+alter table public.posts
+  add column if not exists scheduled_for timestamptz;
+
+create index posts_scheduled_for_idx on public.posts (scheduled_for)
+  where scheduled_for is not null;
+
+create policy "Scheduled posts are visible to their author"
+  on public.posts as restrictive for select
+  using (scheduled_for is null or author::text = auth.uid()::text);
+
+-- A post's first revision is written when it is inserted, so revisions of a
+-- scheduled post would otherwise give it away before it goes out
+create policy "Revisions of scheduled posts are visible to their author"
+  on public.post_revisions as restrictive for select
+  using (
+    exists (
+      select 1 from public.posts p
+      where p.id = post_id
+        and (p.scheduled_for is null or p.author::text = auth.uid()::text)
+    )
+  );
+
+-- Same columns as before; following_feed_posts reads from here and inherits the filter
+create or replace view public.feed_posts
+with (security_invoker = true) as
+select
+  p.id,
+  p.title,
+  p.content,
+  p.created_at,
+  p.image_url,
+  p.avatar_url,
+  p.is_announcement,
+  p.author,
+  p.community_id,
+  c.name as community_name,
+  (select count(*) from public.votes v where v.post_id = p.id and v.vote = 1) as like_count,
+  (select count(*) from public.comments cm where cm.post_id = p.id) as comment_count,
+  p.is_locked
+from public.posts p
+left join public.communities c on c.id = p.community_id
+where p.scheduled_for is null;
+
+-- Only the author reschedules a post, and a published post cannot be taken
+-- back. Publishing dates the post to its scheduled time, or to now when the
+-- author publishes it early. The job runs without a user, so auth.uid() is null.
+create or replace function public.guard_post_schedule()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.scheduled_for <= now() then
+      new.scheduled_for := null;
+    end if;
+    return new;
+  end if;
+
+  if new.scheduled_for is not distinct from old.scheduled_for then
+    return new;
+  end if;
+
+  if old.scheduled_for is null then
+    raise exception 'Published posts cannot be scheduled' using errcode = '22023';
+  end if;
+  if auth.uid() is not null and old.author::text is distinct from auth.uid()::text then
+    raise exception 'Only the author can reschedule a post' using errcode = '42501';
+  end if;
+
+  if new.scheduled_for is null or new.scheduled_for <= now() then
+    new.scheduled_for := null;
+    new.created_at := least(now(), old.scheduled_for);
+  end if;
+  return new;
+end;
+$$;
+
+create trigger guard_post_schedule
+  before insert or update on public.posts
+  for each row execute function public.guard_post_schedule();
+
+-- Publishes every post that is due and returns how many there were
+create or replace function public.publish_scheduled_posts()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  update posts set scheduled_for = null
+  where scheduled_for is not null and scheduled_for <= now();
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.publish_scheduled_posts() from public, anon, authenticated;
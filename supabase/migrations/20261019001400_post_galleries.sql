@@ -0,0 +1,137 @@
+-- Posts with several images. image_urls holds them in gallery order;
+-- image_url stays as the first of them for clients and views that show one.
+
+alter table public.posts
+  add column if not exists image_urls text[] not null default '{}';
+
+alter table public.post_revisions
+  add column if not exists image_urls text[] not null default '{}';
+
+-- Backfilled before the triggers below start treating image_urls as an edit
+update public.posts set image_urls = array[image_url]
+where image_url is not null and image_urls = '{}';
+
+update public.post_revisions set image_urls = array[image_url]
+where image_url is not null and image_urls = '{}';
+
+-- Same as before, with the gallery counting as part of what the author wrote
+create or replace function public.guard_post_edit()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.edited_at := null;
+    return new;
+  end if;
+
+  if new.title is distinct from old.title
+     or new.content is distinct from old.content
+     or new.image_url is distinct from old.image_url
+     or new.image_urls is distinct from old.image_urls then
+    if old.author::text is distinct from auth.uid()::text then
+      raise exception 'Only the author can edit a post' using errcode = '42501';
+    end if;
+    new.edited_at := now();
+  else
+    new.edited_at := old.edited_at;
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.record_post_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and new.edited_at is not distinct from old.edited_at then
+    return new;
+  end if;
+
+  insert into post_revisions (post_id, title, content, image_url, image_urls, created_at)
+  values (new.id, new.title, new.content, new.image_url, new.image_urls, coalesce(new.edited_at, new.created_at));
+  return new;
+end;
+$$;
+
+-- image_urls is appended so the existing columns keep their positions
+create or replace view public.feed_posts
+with (security_invoker = true) as
+select
+  p.id,
+  p.title,
+  p.content,
+  p.created_at,
+  p.image_url,
+  p.avatar_url,
+  p.is_announcement,
+  p.author,
+  p.community_id,
+  c.name as community_name,
+  (select count(*) from public.votes v where v.post_id = p.id and v.vote = 1) as like_count,
+  (select count(*) from public.comments cm where cm.post_id = p.id) as comment_count,
+  p.is_locked,
+  p.image_urls
+from public.posts p
+left join public.communities c on c.id = p.community_id
+where p.scheduled_for is null;
+
+-- f.* was expanded when the view was created, so it is recreated to pick up image_urls
+create or replace view public.following_feed_posts
+with (security_invoker = true) as
+select f.*
+from public.feed_posts f
+where exists (
+  select 1 from public.follows fo
+  where fo.follower_id = auth.uid() and fo.followee_id::text = f.author::text
+);
+
+-- purge_account also returns every gallery image, current and past
+create or replace function public.purge_account(p_user_id uuid)
+returns text[]
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_community_ids bigint[];
+  v_post_ids bigint[];
+  v_image_urls text[];
+begin
+  select coalesce(array_agg(id), '{}') into v_community_ids
+  from communities
+  where author::text = p_user_id::text;
+
+  select coalesce(array_agg(id), '{}') into v_post_ids
+  from posts
+  where author::text = p_user_id::text or community_id = any (v_community_ids);
+
+  select coalesce(array_agg(distinct image_url) filter (where image_url is not null), '{}') into v_image_urls
+  from (
+    select unnest(array_prepend(image_url, image_urls)) as image_url from posts where id = any (v_post_ids)
+    union all
+    select unnest(array_prepend(image_url, image_urls)) from post_revisions where post_id = any (v_post_ids)
+  ) images;
+
+  -- Replies by other people survive their parent
+  update comments set parent_comment_id = null
+  where parent_comment_id in (select id from comments where user_id::text = p_user_id::text)
+    and user_id::text <> p_user_id::text
+    and not (post_id = any (v_post_ids));
+
+  delete from comments where user_id::text = p_user_id::text or post_id = any (v_post_ids);
+  delete from votes where user_id::text = p_user_id::text or post_id = any (v_post_ids);
+  delete from posts where id = any (v_post_ids);
+  delete from communities where id = any (v_community_ids);
+
+  -- Profile, roles, bans and the deletion request cascade from here
+  delete from auth.users where id = p_user_id;
+
+  return v_image_urls;
+end;
+$$;
+
+revoke execute on function public.purge_account(uuid) from public, anon, authenticated;
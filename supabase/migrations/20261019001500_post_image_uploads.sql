@@ -0,0 +1,34 @@
+-- Post image uploads. The bucket checks type and size itself, and new
+-- uploads go below a folder named after the uploader's id: <user id>/<uuid>.<ext>.
+-- Images uploaded before this keep their old paths at the top of the bucket.
+-- scripts/clean-orphaned-images.mjs removes files no post or revision uses.
+
+insert into storage.buckets (id, name, public)
+values ('post-images', 'post-images', true)
+on conflict (id) do nothing;
+
+-- Same limits as src/images.ts
+update storage.buckets
+set file_size_limit = 5 * 1024 * 1024,
+    allowed_mime_types = array['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif']
+where id = 'post-images';
+
+create policy "Post images are public"
+  on storage.objects for select
+  using (bucket_id = 'post-images');
+
+create policy "Users upload post images to their own folder"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'post-images' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Restrictive, so it also narrows any broader policy the bucket was created with
+create policy "Post images only go to the uploader's folder"
+  on storage.objects as restrictive for insert
+  to authenticated
+  with check (bucket_id <> 'post-images' or (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users delete their own post images"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'post-images' and (storage.foldername(name))[1] = auth.uid()::text);